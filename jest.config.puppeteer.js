@@ -7,4 +7,8 @@ export default {
       useESM: true,
     }],
   },
+  extensionsToTreatAsEsm: ['.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
 };
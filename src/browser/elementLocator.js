@@ -2,6 +2,16 @@ import debug from 'debug';
 
 const logError = debug('mcp-puppeteer:error');
 
+/**
+ * Roles of elements a user can interact with.
+ */
+export const INTERACTIVE_ROLES = [
+  'button', 'link', 'checkbox', 'combobox', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio',
+  'scrollbar', 'searchbox', 'slider', 'spinbutton', 'switch',
+  'tab', 'textbox', 'treeitem'
+];
+
 /**
  * Parses an element reference ID into its components.
  * Format: f{frameIndex}s{snapshotIndex}e{elementIndex} or s{snapshotIndex}e{elementIndex}
@@ -73,14 +83,7 @@ export function findElementByRefId(tree, refId, targetRole = null) {
  * @returns {boolean} True if interactive
  */
 function isInteractiveElement(node) {
-  const interactiveRoles = [
-    'button', 'link', 'checkbox', 'combobox', 'menuitem',
-    'menuitemcheckbox', 'menuitemradio', 'option', 'radio',
-    'scrollbar', 'searchbox', 'slider', 'spinbutton', 'switch',
-    'tab', 'textbox', 'treeitem'
-  ];
-
-  return node && node.role && interactiveRoles.includes(node.role.toLowerCase());
+  return node && node.role && INTERACTIVE_ROLES.includes(node.role.toLowerCase());
 }
 
 /**
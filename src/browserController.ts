@@ -0,0 +1,1498 @@
+import { BrowserContext, ElementHandle, KeyInput, Page, PaperFormat, PuppeteerLifeCycleEvent } from 'puppeteer';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import debug from 'debug';
+import { BrowserPool } from './browserPool.js';
+import { withTimeout } from './utils/browserConfig.js';
+import { setupPageErrorHandlers, createPage } from './utils/browserConnection.js';
+import { DomainGuard, DomainPolicy, NavigationBlockedError } from './utils/domainPolicy.js';
+import { resolveElementRef } from './utils/elementRefs.js';
+import { EmulationSettings, applyEmulation, resetEmulation } from './utils/emulation.js';
+import { ConsoleLog, LogQuery, queryLogs } from './utils/consoleLog.js';
+import { FieldResult, FieldValue, fillField } from './utils/formFill.js';
+import { parseKeyChord, parseModifiers } from './utils/keyboard.js';
+import { extractMetadata } from './utils/metadata.js';
+import { MarkdownOptions, pageToMarkdown, paginateText } from './utils/markdown.js';
+import { NetworkLog, NetworkFilter, matchesUrlPattern, toHar } from './utils/networkLog.js';
+import { SessionRecorder, findRefs, uniqueSelector } from './utils/recording.js';
+import { toPuppeteerScript } from './utils/recordingScript.js';
+import { ScreenshotStore } from './utils/screenshotStore.js';
+import { ScriptAuditEntry, ScriptOutput, ScriptPolicy, createAuditEntry, getScriptPolicy, runPageScript, runReadOnlyScript, writeAuditEntry } from './utils/scriptPolicy.js';
+import { Region, compareImages, resolveBaselineDir } from './utils/visualDiff.js';
+import { ClearOptions, StoredCookie, clearStorage, getCookies, loadStorageState, saveStorageState, setCookies, validateStorageState } from './utils/storageState.js';
+import { RequestRouter, RouteRule } from './utils/requestRouter.js';
+import { extractStructured, validateExtractionSpec, validateJson } from './utils/structuredExtraction.js';
+import { extractTables, toCsv } from './utils/tables.js';
+
+const logBrowser = debug('mcp-puppeteer:browser');
+const logNavigation = debug('mcp-puppeteer:navigation');
+const logError = debug('mcp-puppeteer:error');
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_PAGES = 10;
+const DRAG_STEPS = 10;
+const URL_POLL_INTERVAL = 100;
+const DEFAULT_BASELINE_DIR = 'baselines';
+const DEFAULT_FIXTURE_DIR = 'fixtures';
+
+/**
+ * Options for creating a browser controller
+ */
+export interface BrowserControllerOptions {
+  maxPages?: number;
+  maxScreenshots?: number;
+  browserWSEndpoint?: string;
+  pool?: BrowserPool;
+  /** Hosts pages may load from (defaults to ALLOWED_DOMAINS, DENIED_DOMAINS and BLOCK_PRIVATE_NETWORKS) */
+  domainPolicy?: DomainPolicy;
+  /** How script/execute and wait/for predicates may run (defaults to SCRIPT_EXECUTION and related variables) */
+  scriptPolicy?: ScriptPolicy;
+  /** Directory that screenshot baselines are kept under (defaults to SCREENSHOT_BASELINE_ROOT or 'baselines') */
+  baselineRoot?: string;
+  /** Directory that route fixture files are served from (defaults to ROUTE_FIXTURE_ROOT or 'fixtures') */
+  fixtureRoot?: string;
+}
+
+/**
+ * A page registered with the controller under a stable tab ID
+ */
+export interface Tab {
+  id: string;
+  page: Page;
+  logs: ConsoleLog;
+  network: NetworkLog;
+  router: RequestRouter;
+  emulation: EmulationSettings;
+  createdAt: number;
+}
+
+/**
+ * Element addressed either by CSS selector or by an accessibility snapshot ref
+ */
+export interface ElementTarget {
+  selector?: string;
+  ref?: string;
+}
+
+/**
+ * Mouse action at a point or on an element
+ */
+export type MouseAction = 'click' | 'double_click' | 'right_click' | 'move' | 'down' | 'up';
+
+/**
+ * Where a mouse action happens: viewport coordinates, or the center of an element
+ */
+export interface MousePosition extends ElementTarget {
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Conditions for waitFor. All given conditions must be met.
+ */
+export interface WaitConditions {
+  selector?: string;
+  state?: 'visible' | 'hidden' | 'attached' | 'detached';
+  text?: string;
+  url?: string;
+  urlRegex?: string;
+  networkIdle?: boolean;
+  idleTimeMs?: number;
+  predicate?: string;
+}
+
+/**
+ * Condition checked once, without waiting, after a step of a batch
+ */
+export interface PageAssertion {
+  /** An element matching this selector exists */
+  selector?: string;
+  /** The visible text of the page contains this text */
+  textContains?: string;
+}
+
+/**
+ * Options for rendering a page as PDF
+ */
+export interface PdfOptions {
+  format?: PaperFormat;
+  landscape?: boolean;
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+  printBackground?: boolean;
+  pageRanges?: string;
+  headerTemplate?: string;
+  footerTemplate?: string;
+  emulateMedia?: 'screen' | 'print';
+  scale?: number;
+}
+
+/**
+ * Options for comparing a screenshot against a baseline
+ */
+export interface CompareOptions {
+  baselineDir?: string;
+  selector?: string;
+  fullPage?: boolean;
+  threshold?: number;
+  maxDiffPercentage?: number;
+  ignoreRegions?: IgnoreRegion[];
+  updateBaseline?: boolean;
+}
+
+/**
+ * Area left out of a visual comparison, as a rectangle in screenshot pixels or the box of an element
+ */
+export type IgnoreRegion = Region | { selector: string };
+
+/**
+ * Form field to fill and the value for it
+ */
+export interface FormField extends ElementTarget {
+  value: FieldValue;
+}
+
+/**
+ * Serializable description of a tab
+ */
+export interface TabInfo {
+  tab_id: string;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+/**
+ * Owns an isolated browser context and a registry of its pages keyed by tab ID.
+ * Every page-level operation accepts an optional tab ID and falls back to the active tab.
+ * Controllers created with a shared pool only close their own context; otherwise the
+ * controller owns its pool and closes the browser as well.
+ */
+export class BrowserController {
+  readonly screenshots: ScreenshotStore;
+  readonly recorder = new SessionRecorder();
+  readonly domainGuard: DomainGuard;
+  readonly scriptPolicy: ScriptPolicy;
+  private readonly pool: BrowserPool;
+  private readonly ownsPool: boolean;
+  private context: BrowserContext | null = null;
+  private contextPromise: Promise<BrowserContext> | null = null;
+  private tabs = new Map<string, Tab>();
+  private activeTabId: string | null = null;
+  private nextTabIndex = 1;
+  private logSequence = 0;
+  private readonly maxPages: number;
+  private readonly baselineRoot: string;
+  private readonly fixtureRoot: string;
+
+  constructor(options: BrowserControllerOptions = {}) {
+    this.maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    this.screenshots = new ScreenshotStore(options.maxScreenshots);
+    this.domainGuard = new DomainGuard(options.domainPolicy);
+    this.scriptPolicy = options.scriptPolicy ?? getScriptPolicy();
+    this.baselineRoot = options.baselineRoot ?? (process.env.SCREENSHOT_BASELINE_ROOT || DEFAULT_BASELINE_DIR);
+    this.fixtureRoot = options.fixtureRoot ?? (process.env.ROUTE_FIXTURE_ROOT || DEFAULT_FIXTURE_DIR);
+    this.ownsPool = !options.pool;
+    this.pool = options.pool ?? new BrowserPool({ browserWSEndpoint: options.browserWSEndpoint });
+  }
+
+  /**
+   * Get the browser context of this controller, creating it on first use.
+   * If the browser went away, a fresh context is created and all tabs are forgotten.
+   * @returns Isolated browser context
+   */
+  async getContext(): Promise<BrowserContext> {
+    if (this.context && !this.context.closed && this.context.browser().connected) {
+      return this.context;
+    }
+
+    if (!this.contextPromise) {
+      if (this.context) {
+        logError('Browser context lost, discarding %d tab(s)', this.tabs.size);
+        this.context = null;
+        this.tabs.clear();
+        this.activeTabId = null;
+      }
+      this.contextPromise = this.pool.createContext()
+        .then(context => {
+          this.context = context;
+          if (this.domainGuard.active) {
+            this.guardPopups(context);
+          }
+          return context;
+        })
+        .finally(() => {
+          this.contextPromise = null;
+        });
+    }
+
+    return this.contextPromise;
+  }
+
+  /**
+   * Apply the domain policy to popups opened by pages of the context. A popup whose URL is blocked
+   * is closed; its later requests are intercepted like those of tabs.
+   * @param context Browser context of this controller
+   */
+  private guardPopups(context: BrowserContext): void {
+    // Blocked navigations of a popup are reported to the tool calls of the page that opened it
+    const closeIfBlocked = async (page: Page, opener: Page, url: string) => {
+      if (page.isClosed()) return true;
+      const reason = await this.domainGuard.check(url);
+      if (reason) {
+        this.domainGuard.block(opener, { url, reason });
+        logNavigation('Closing popup at %s: %s', url, reason);
+        await page.close();
+      }
+      return reason !== null;
+    };
+
+    context.on('targetcreated', async target => {
+      if (target.type() !== 'page' || !target.opener()) return;
+      try {
+        const page = await target.page();
+        if (!page) return;
+        const opener = await target.opener()?.page() ?? page;
+        if (await closeIfBlocked(page, opener, target.url())) return;
+        await new RequestRouter().attach(page, request => this.domainGuard.allows(request, opener));
+        // The first navigation may have started before interception was enabled
+        page.on('framenavigated', frame => {
+          if (frame === page.mainFrame()) {
+            closeIfBlocked(page, opener, frame.url()).catch(error => logError('Could not close popup %s: %O', frame.url(), error));
+          }
+        });
+        await closeIfBlocked(page, opener, page.url());
+      } catch (error) {
+        logError('Could not apply the domain policy to popup %s: %O', target.url(), error);
+      }
+    });
+  }
+
+  /**
+   * Open a new tab and make it the active one
+   * @param url Optional URL to load in the new tab
+   * @param waitFor Load state to wait for when a URL is given
+   * @param timeoutMs Navigation timeout in milliseconds
+   * @returns Description of the new tab
+   */
+  async newTab(url?: string, waitFor?: string, timeoutMs?: number): Promise<TabInfo> {
+    if (this.tabs.size >= this.maxPages) {
+      throw new Error(`Maximum number of tabs (${this.maxPages}) reached. Close a tab before opening a new one.`);
+    }
+
+    const context = await this.getContext();
+    const page = await createPage(context);
+    const id = `tab-${this.nextTabIndex++}`;
+    const tab: Tab = {
+      id,
+      page,
+      logs: new ConsoleLog(id, () => ++this.logSequence),
+      network: new NetworkLog(),
+      router: new RequestRouter(this.fixtureRoot),
+      emulation: {},
+      createdAt: Date.now()
+    };
+
+    setupPageErrorHandlers(page, tab.logs);
+    tab.network.attach(page);
+    await tab.router.attach(page, this.domainGuard.active ? request => this.domainGuard.allows(request, page) : undefined);
+    page.on('close', () => this.forgetTab(tab.id));
+
+    this.tabs.set(tab.id, tab);
+    this.activeTabId = tab.id;
+    logBrowser('Opened tab %s (%d/%d)', tab.id, this.tabs.size, this.maxPages);
+
+    if (url) {
+      await this.navigate(url, waitFor, timeoutMs, tab.id);
+    }
+
+    return this.describeTab(tab);
+  }
+
+  /**
+   * List all open tabs
+   * @returns Tab descriptions in creation order
+   */
+  async listTabs(): Promise<{ tabs: TabInfo[]; active_tab_id: string | null; max_tabs: number }> {
+    const tabs = await Promise.all([...this.tabs.values()].map(tab => this.describeTab(tab)));
+    return { tabs, active_tab_id: this.activeTabId, max_tabs: this.maxPages };
+  }
+
+  /**
+   * Make a tab the active one
+   * @param tabId ID of the tab to activate
+   * @returns Description of the activated tab
+   */
+  async switchTab(tabId: string): Promise<TabInfo> {
+    const tab = this.requireTab(tabId);
+    this.activeTabId = tab.id;
+    await tab.page.bringToFront();
+    logBrowser('Switched to tab %s', tab.id);
+    return this.describeTab(tab);
+  }
+
+  /**
+   * Close a tab. If it was active, the most recently opened remaining tab becomes active.
+   * @param tabId ID of the tab to close (defaults to the active tab)
+   * @returns Message and the new active tab ID
+   */
+  async closeTab(tabId?: string): Promise<{ message: string; active_tab_id: string | null }> {
+    const tab = this.requireTab(tabId);
+    this.forgetTab(tab.id);
+    if (!tab.page.isClosed()) {
+      await tab.page.close();
+    }
+    logBrowser('Closed tab %s', tab.id);
+    return { message: `Closed tab ${tab.id}`, active_tab_id: this.activeTabId };
+  }
+
+  /**
+   * Get the page for a tab, opening a first tab if none exist yet
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Puppeteer page
+   */
+  async getPage(tabId?: string): Promise<Page> {
+    if (!tabId && !this.activeTabId) {
+      await this.newTab();
+    }
+    return this.requireTab(tabId).page;
+  }
+
+  /**
+   * Get the active tab record without opening one
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Tab record or null
+   */
+  getTab(tabId?: string): Tab | null {
+    const id = tabId ?? this.activeTabId;
+    return id ? this.tabs.get(id) ?? null : null;
+  }
+
+  /**
+   * Get the active page without opening one
+   * @returns Active page or null if there is none
+   */
+  getCurrentPage(): Page | null {
+    return this.getTab()?.page ?? null;
+  }
+
+  async navigate(url: string, waitFor = 'load', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    // Checked up front as well, because interception does not see URLs such as file://
+    const blockReason = await this.domainGuard.check(url);
+    if (blockReason) {
+      this.domainGuard.block(page, { url, reason: blockReason });
+      throw new NavigationBlockedError({ url, reason: blockReason });
+    }
+    logNavigation('Navigating to %s', url);
+    const response = await page.goto(url, { waitUntil: toLifeCycleEvent(waitFor) ?? 'load', timeout: timeoutMs });
+    return {
+      message: `Navigated to ${page.url()}`,
+      status: response?.status() ?? null,
+      title: await page.title()
+    };
+  }
+
+  async goBack(waitFor = 'load', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const response = await page.goBack({ waitUntil: toLifeCycleEvent(waitFor) ?? 'load', timeout: timeoutMs });
+    if (!response) {
+      return { message: 'No previous page in history' };
+    }
+    return { message: `Navigated back to ${page.url()}` };
+  }
+
+  async goForward(waitFor = 'load', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const response = await page.goForward({ waitUntil: toLifeCycleEvent(waitFor) ?? 'load', timeout: timeoutMs });
+    if (!response) {
+      return { message: 'No next page in history' };
+    }
+    return { message: `Navigated forward to ${page.url()}` };
+  }
+
+  async scroll(
+    direction: 'up' | 'down' | 'left' | 'right',
+    pixels = 500,
+    target: ElementTarget = {},
+    waitFor = 'none',
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    tabId?: string
+  ) {
+    const page = await this.getPage(tabId);
+    const dx = direction === 'left' ? -pixels : direction === 'right' ? pixels : 0;
+    const dy = direction === 'up' ? -pixels : direction === 'down' ? pixels : 0;
+    const container = target.selector || target.ref ? await resolveTarget(page, target, timeoutMs) : null;
+
+    await runWithWait(page, async () => {
+      if (container) {
+        await container.evaluate((el, x, y) => el.scrollBy(x, y), dx, dy);
+      } else {
+        await page.evaluate((x, y) => window.scrollBy(x, y), dx, dy);
+      }
+    }, waitFor, timeoutMs);
+
+    return { message: `Scrolled ${direction} by ${pixels}px${container ? ` within ${describeTarget(target)}` : ''}` };
+  }
+
+  async click(target: ElementTarget, waitFor = 'none', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const element = await resolveTarget(page, target, timeoutMs);
+    await runWithWait(page, () => element.click(), waitFor, timeoutMs);
+    return { message: `Clicked ${describeTarget(target)}` };
+  }
+
+  async type(target: ElementTarget, text: string, delay = 0, waitFor = 'none', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const element = await resolveTarget(page, target, timeoutMs);
+    await runWithWait(page, () => element.type(text, { delay }), waitFor, timeoutMs);
+    return { message: `Typed ${text.length} characters into ${describeTarget(target)}` };
+  }
+
+  async hover(target: ElementTarget, waitFor = 'none', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const element = await resolveTarget(page, target, timeoutMs);
+    await runWithWait(page, () => element.hover(), waitFor, timeoutMs);
+    return { message: `Hovered over ${describeTarget(target)}` };
+  }
+
+  /**
+   * Press a key or chord, optionally after focusing an element
+   * @param chord Key or chord such as 'Escape', 'Tab' or 'Control+A'
+   * @param count Number of times to press it
+   * @param target Element to focus first (optional)
+   * @param waitFor Load state to wait for after the key press
+   * @param timeoutMs Timeout in milliseconds
+   * @param tabId ID of the tab (defaults to the active tab)
+   */
+  async pressKey(chord: string, count = 1, target: ElementTarget = {}, waitFor = 'none', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const { modifiers, key } = parseKeyChord(chord);
+    if (target.selector || target.ref) {
+      const element = await resolveTarget(page, target, timeoutMs);
+      await element.focus();
+    }
+
+    await runWithWait(page, () => withModifiers(page, modifiers, async () => {
+      for (let i = 0; i < count; i++) {
+        await page.keyboard.press(key);
+      }
+    }), waitFor, timeoutMs);
+
+    return { message: `Pressed ${chord}${count > 1 ? ` ${count} times` : ''}${target.selector || target.ref ? ` in ${describeTarget(target)}` : ''}` };
+  }
+
+  /**
+   * Drag one element onto another with real mouse events, which also start native HTML drag and drop
+   * @param source Element to drag
+   * @param destination Element to drop onto
+   * @param waitFor Load state to wait for after dropping
+   * @param timeoutMs Timeout in milliseconds
+   * @param tabId ID of the tab (defaults to the active tab)
+   */
+  async drag(source: ElementTarget, destination: ElementTarget, waitFor = 'none', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const from = await elementCenter(await resolveTarget(page, source, timeoutMs));
+    const to = await elementCenter(await resolveTarget(page, destination, timeoutMs));
+
+    await runWithWait(page, async () => {
+      await page.mouse.move(from.x, from.y);
+      await page.mouse.down();
+      // Intermediate moves let drag libraries pass their movement threshold
+      await page.mouse.move(to.x, to.y, { steps: DRAG_STEPS });
+      await page.mouse.up();
+    }, waitFor, timeoutMs);
+
+    return { message: `Dragged ${describeTarget(source)} onto ${describeTarget(destination)}` };
+  }
+
+  /**
+   * Perform a mouse action at viewport coordinates or on an element
+   * @param action Mouse action
+   * @param position Coordinates, or selector/ref of the element whose center is used
+   * @param modifiers Modifier keys held during the action
+   * @param waitFor Load state to wait for after the action
+   * @param timeoutMs Timeout in milliseconds
+   * @param tabId ID of the tab (defaults to the active tab)
+   */
+  async mouse(
+    action: MouseAction,
+    position: MousePosition,
+    modifiers: string[] = [],
+    waitFor = 'none',
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    tabId?: string
+  ) {
+    const page = await this.getPage(tabId);
+    const held = parseModifiers(modifiers);
+
+    let point: { x: number; y: number };
+    let where: string;
+    if (position.selector || position.ref) {
+      point = await elementCenter(await resolveTarget(page, position, timeoutMs));
+      where = describeTarget(position);
+    } else if (position.x !== undefined && position.y !== undefined) {
+      point = { x: position.x, y: position.y };
+      where = `(${point.x}, ${point.y})`;
+    } else {
+      throw new Error('Either x and y, selector or ref is required');
+    }
+
+    await runWithWait(page, () => withModifiers(page, held, async () => {
+      switch (action) {
+        case 'click':
+          return page.mouse.click(point.x, point.y);
+        case 'double_click':
+          return page.mouse.click(point.x, point.y, { count: 2 });
+        case 'right_click':
+          return page.mouse.click(point.x, point.y, { button: 'right' });
+        case 'move':
+          return page.mouse.move(point.x, point.y);
+        case 'down':
+          await page.mouse.move(point.x, point.y);
+          return page.mouse.down();
+        case 'up':
+          await page.mouse.move(point.x, point.y);
+          return page.mouse.up();
+        default:
+          throw new Error(`Unknown mouse action: ${action}`);
+      }
+    }), waitFor, timeoutMs);
+
+    return { message: `Mouse ${action.replace('_', ' ')} at ${where}` };
+  }
+
+  /**
+   * Fill several form fields, each according to its element type, and optionally submit the form.
+   * Every field is attempted even if an earlier one fails; the form is only submitted if all succeeded.
+   * @param fields Fields and their values
+   * @param submit true to submit the form of the last field, or the submit button to click
+   * @param waitFor Load state to wait for after submitting
+   * @param timeoutMs Timeout for finding each field and for the wait
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Result per field and whether the form was submitted
+   */
+  async fillForm(fields: FormField[], submit: boolean | ElementTarget = false, waitFor = 'none', timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const results: FieldResult[] = [];
+    let lastElement: ElementHandle<Element> | null = null;
+
+    for (const field of fields) {
+      const target = describeTarget(field);
+      try {
+        const element = await resolveTarget(page, field, timeoutMs);
+        const { kind, changed } = await fillField(element, field.value);
+        results.push({ target, kind, status: changed ? 'filled' : 'unchanged', value: field.value });
+        lastElement = element;
+      } catch (error: any) {
+        logError('Filling %s failed: %s', target, error.message);
+        results.push({ target, status: 'error', error: error.message });
+      }
+    }
+
+    const failed = results.filter(result => result.status === 'error').length;
+    let submitted = false;
+    if (submit && failed === 0) {
+      const button = typeof submit === 'object' ? await resolveTarget(page, submit, timeoutMs) : null;
+      const field = lastElement;
+      await runWithWait(page, async () => {
+        if (button) {
+          await button.click();
+        } else if (field) {
+          // requestSubmit runs validation and submit handlers like a click on the submit button would
+          const hasForm = await field.evaluate(el => {
+            const form = (el as HTMLInputElement).form ?? el.closest('form');
+            form?.requestSubmit();
+            return Boolean(form);
+          });
+          if (!hasForm) await field.press('Enter');
+        }
+      }, waitFor, timeoutMs);
+      submitted = Boolean(button || field);
+    }
+
+    return {
+      fields: results,
+      submitted,
+      message: `Filled ${fields.length - failed} of ${fields.length} field(s)${submitted ? ' and submitted the form' : ''}`
+    };
+  }
+
+  async extractText(selector = 'body', tabId?: string) {
+    const page = await this.getPage(tabId);
+    const text = await page.$eval(selector, el => (el as HTMLElement).innerText ?? el.textContent ?? '');
+    return { text };
+  }
+
+  async extractHyperlinks(selector = 'body', tabId?: string) {
+    const page = await this.getPage(tabId);
+    const hyperlinks = await page.$eval(selector, root =>
+      Array.from(root.querySelectorAll('a[href]')).map(a => ({
+        href: (a as HTMLAnchorElement).href,
+        text: ((a as HTMLAnchorElement).innerText || a.textContent || '').trim()
+      }))
+    );
+    return { hyperlinks };
+  }
+
+  /**
+   * Read tables of the page as rows keyed by column header
+   * @param target Table, or element containing the tables, by selector or ref (defaults to all tables of the page)
+   * @param csv Also return each table as CSV
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Tables in document order
+   */
+  async extractTables(target: ElementTarget = {}, csv = false, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const element = target.selector || target.ref ? await resolveTarget(page, target) : null;
+    // A ref may point into an iframe, so the element is read in its own frame
+    const tables = element ? await element.evaluate(extractTables) : await page.evaluate(extractTables, null);
+    return {
+      tables: tables.map(table => csv ? { ...table, csv: toCsv(table) } : table),
+      message: `Found ${tables.length} table(s)`
+    };
+  }
+
+  /**
+   * Read the title, canonical URL, description, OpenGraph and Twitter tags, JSON-LD and microdata of the page
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Page metadata
+   */
+  async extractMetadata(tabId?: string) {
+    const page = await this.getPage(tabId);
+    return page.evaluate(extractMetadata);
+  }
+
+  /**
+   * Extract data described by a spec of selectors, attributes and types, and check it against a JSON Schema
+   * @param spec Extraction spec
+   * @param schema JSON Schema the data must match (optional)
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Extracted data and the validation result
+   */
+  async extractStructured(spec: unknown, schema?: object, tabId?: string) {
+    validateExtractionSpec(spec);
+    const page = await this.getPage(tabId);
+    const data = await page.evaluate(extractStructured, spec);
+    if (!schema) {
+      return { data, message: 'Extracted data' };
+    }
+
+    const errors = validateJson(data, schema);
+    return {
+      data,
+      valid: errors.length === 0,
+      errors,
+      message: errors.length === 0
+        ? 'Extracted data matches the schema'
+        : `Extracted data does not match the schema: ${errors.length} error(s)`
+    };
+  }
+
+  /**
+   * Convert the main content of the page (or of an element) to Markdown
+   * @param options Root selector and whether to include images
+   * @param offset Character offset of the page of Markdown to return
+   * @param maxChars Maximum number of characters to return
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Title, URL and one page of the Markdown with the offset of the next page
+   */
+  async extractMarkdown(options: MarkdownOptions = {}, offset = 0, maxChars?: number, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const { title, url, markdown } = await page.evaluate(pageToMarkdown, options);
+    const { text, ...pagination } = paginateText(markdown, offset, maxChars);
+    return { title, url, markdown: text, ...pagination };
+  }
+
+  /**
+   * List the requests captured for a tab, most recent last
+   * @param filter Conditions the requests must match
+   * @param options Which details to include and how many requests to return at most
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Matching requests and counts
+   */
+  async listRequests(
+    filter: NetworkFilter = {},
+    options: { includeHeaders?: boolean; includeBody?: boolean; limit?: number } = {},
+    tabId?: string
+  ) {
+    await this.getPage(tabId);
+    const { network } = this.requireTab(tabId);
+    const { includeHeaders = true, includeBody = false, limit = 100 } = options;
+
+    const matching = network.list(filter);
+    const requests = matching.slice(-limit).map(({ request_headers, response_headers, post_data, body_preview, body_truncated, ...entry }) => ({
+      ...entry,
+      ...(includeHeaders && { request_headers, response_headers }),
+      ...(includeBody && { post_data, body_preview, body_truncated })
+    }));
+
+    return { requests, total: matching.length, returned: requests.length, dropped: network.droppedCount };
+  }
+
+  /**
+   * Write the requests captured for a tab to a HAR 1.2 file
+   * @param filePath Output path (defaults to a file in the temp directory)
+   * @param filter Conditions the requests must match
+   * @param creator Name and version recorded as the HAR creator
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Path of the file and number of entries written
+   */
+  async exportHar(filePath: string | undefined, filter: NetworkFilter, creator: { name: string; version: string }, tabId?: string) {
+    await this.getPage(tabId);
+    const { network } = this.requireTab(tabId);
+    const entries = network.list(filter);
+    const outputPath = filePath ?? path.join(os.tmpdir(), `network-${Date.now()}.har`);
+
+    await fs.writeFile(outputPath, JSON.stringify(toHar(entries, creator), null, 2));
+    logBrowser('Wrote %d HAR entries to %s', entries.length, outputPath);
+    return { path: outputPath, entries: entries.length, message: `HAR with ${entries.length} entries saved to ${outputPath}` };
+  }
+
+  /**
+   * Emulate a device, locale, timezone, geolocation, media features, CPU or network conditions in a tab
+   * @param settings Settings to change; the others keep their current value
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns All emulation settings in effect for the tab
+   */
+  async emulate(settings: EmulationSettings, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const tab = this.requireTab(tabId);
+    tab.emulation = await applyEmulation(page, tab.emulation, settings);
+    return { tab_id: tab.id, emulation: tab.emulation, message: `Emulation updated for ${tab.id}` };
+  }
+
+  /**
+   * Undo all emulation settings of a tab
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Settings that were reset
+   */
+  async resetEmulation(tabId?: string) {
+    const page = await this.getPage(tabId);
+    const tab = this.requireTab(tabId);
+    const previous = tab.emulation;
+    await resetEmulation(page, previous);
+    tab.emulation = {};
+    return { tab_id: tab.id, reset: Object.keys(previous), message: `Emulation reset for ${tab.id}` };
+  }
+
+  /**
+   * Start recording the tool calls of this session
+   * @param name Name of the recording
+   */
+  startRecording(name = `recording-${Date.now()}`) {
+    this.recorder.start(name, this.getTab()?.id ?? null);
+    return { name, message: `Recording "${name}" started` };
+  }
+
+  /**
+   * Stop recording and write the trace as JSON and as a Puppeteer script
+   * @param tracePath File path for the JSON trace (defaults to a file in the temp directory)
+   * @param scriptPath File path for the Puppeteer script (defaults to the trace path with .mjs)
+   * @returns Number of steps and the written files
+   */
+  async stopRecording(tracePath?: string, scriptPath?: string) {
+    const recording = this.recorder.stop();
+    const outputPath = tracePath ?? path.join(os.tmpdir(), `${recording.name.replace(/[^\w.-]/g, '_')}.json`);
+    const scriptOutputPath = scriptPath ?? outputPath.replace(/(\.json)?$/, '.mjs');
+    await fs.writeFile(outputPath, JSON.stringify(recording, null, 2));
+    await fs.writeFile(scriptOutputPath, toPuppeteerScript(recording));
+    logBrowser('Wrote recording with %d steps to %s', recording.steps.length, outputPath);
+
+    return {
+      name: recording.name,
+      steps: recording.steps.length,
+      failed_steps: recording.steps.filter(step => step.outcome === 'error').length,
+      trace_path: outputPath,
+      script_path: scriptOutputPath,
+      message: `Recorded ${recording.steps.length} step(s); trace saved to ${outputPath} and script to ${scriptOutputPath}`
+    };
+  }
+
+  /**
+   * Resolve the element refs in tool parameters to CSS selectors, so that a recorded step can be
+   * replayed after the refs are gone. Refs that cannot be resolved are left out.
+   * @param params Tool parameters
+   * @returns Selectors by parameter path
+   */
+  async resolveRefSelectors(params: Record<string, unknown>): Promise<Record<string, string>> {
+    const refs = findRefs(params);
+    const selectors: Record<string, string> = {};
+    if (Object.keys(refs).length === 0) {
+      return selectors;
+    }
+
+    const page = this.getTab(typeof params.tab_id === 'string' ? params.tab_id : undefined)?.page;
+    if (!page) {
+      return selectors;
+    }
+    for (const [paramPath, ref] of Object.entries(refs)) {
+      try {
+        const element = await resolveElementRef(page, ref);
+        selectors[paramPath] = await element.evaluate(uniqueSelector);
+      } catch (error) {
+        logError('Could not resolve %s for the recording: %O', ref, error);
+      }
+    }
+    return selectors;
+  }
+
+  /**
+   * Intercept the requests of a tab that match a rule
+   * @param rule URL pattern, optional method and action
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Description of the new route
+   */
+  async addRoute(rule: RouteRule, tabId?: string) {
+    await this.getPage(tabId);
+    const route = await this.requireTab(tabId).router.add(rule);
+    return { ...route, message: `Added ${route.route_id}` };
+  }
+
+  /**
+   * Stop intercepting requests for one or all routes of a tab
+   * @param routeId ID of the route to remove (removes every route when omitted)
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns IDs of the removed routes
+   */
+  async removeRoute(routeId?: string, tabId?: string) {
+    await this.getPage(tabId);
+    const removed = await this.requireTab(tabId).router.remove(routeId);
+    return { removed, message: `Removed ${removed.length} route(s)` };
+  }
+
+  /**
+   * List the routes of a tab
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Routes in the order they were added
+   */
+  async listRoutes(tabId?: string) {
+    await this.getPage(tabId);
+    return { routes: this.requireTab(tabId).router.list() };
+  }
+
+  /**
+   * Read the console messages, page errors and network failures logged after a cursor
+   * @param query Levels, text, cursor and page size
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @param allTabs Read the logs of every open tab instead of a single one
+   * @returns Matching entries oldest first, and the cursor to pass on the next call
+   */
+  async getLogs(query: LogQuery = {}, tabId?: string, allTabs = false) {
+    if (allTabs) {
+      return queryLogs([...this.tabs.values()].map(tab => tab.logs), query);
+    }
+    await this.getPage(tabId);
+    return queryLogs([this.requireTab(tabId).logs], query);
+  }
+
+  /**
+   * Write the cookies and web storage of the tab's browser context to a JSON file
+   * @param filePath Output path (defaults to a file in the temp directory)
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Path of the file and what it holds
+   */
+  async saveStorageState(filePath?: string, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const state = await saveStorageState(page);
+    const outputPath = filePath ?? path.join(os.tmpdir(), `storage-state-${Date.now()}.json`);
+
+    await fs.writeFile(outputPath, JSON.stringify(state, null, 2));
+    logBrowser('Saved storage state with %d cookie(s) and %d origin(s) to %s', state.cookies.length, state.origins.length, outputPath);
+    return {
+      path: outputPath,
+      cookies: state.cookies.length,
+      origins: state.origins.map(origin => origin.origin),
+      message: `Storage state saved to ${outputPath}`
+    };
+  }
+
+  /**
+   * Load cookies and web storage from a JSON file written by saveStorageState
+   * @param filePath Path of the state file
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns What was restored
+   */
+  async loadStorageState(filePath: string, tabId?: string) {
+    const page = await this.getPage(tabId);
+    let state: unknown;
+    try {
+      state = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Cannot read storage state from ${filePath}: ${error.message}`);
+    }
+    validateStorageState(state);
+
+    await loadStorageState(page, state);
+    return {
+      cookies: state.cookies.length,
+      origins: state.origins.map(origin => origin.origin),
+      message: `Storage state loaded from ${filePath}`
+    };
+  }
+
+  async getCookies(urls: string[] = [], tabId?: string) {
+    const page = await this.getPage(tabId);
+    return { cookies: await getCookies(page, urls) };
+  }
+
+  async setCookies(cookies: StoredCookie[], tabId?: string) {
+    const page = await this.getPage(tabId);
+    await setCookies(page, cookies);
+    return { message: `Set ${cookies.length} cookie(s)` };
+  }
+
+  async clearStorage(options: ClearOptions = {}, tabId?: string) {
+    const page = await this.getPage(tabId);
+    await clearStorage(page, options);
+    const cleared = Object.entries({ cookies: true, localStorage: true, sessionStorage: true, ...options })
+      .filter(([, enabled]) => enabled)
+      .map(([kind]) => kind);
+    return { message: `Cleared ${cleared.join(', ') || 'nothing'}` };
+  }
+
+  /**
+   * Take a screenshot and keep it in the screenshot store
+   * @param filePath File path to also save the screenshot to (optional)
+   * @param fullPage Capture the full scrollable page instead of the viewport
+   * @param quality JPEG quality (0-100)
+   * @param type Image type
+   * @param selector CSS selector of an element to capture (optional)
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Stored screenshot ID and URI, and the image itself
+   */
+  async takeScreenshot(
+    filePath?: string,
+    fullPage = false,
+    quality = 80,
+    type: 'jpeg' | 'png' = 'png',
+    selector?: string,
+    tabId?: string
+  ) {
+    const page = await this.getPage(tabId);
+    const options = {
+      type,
+      quality: type === 'jpeg' ? quality : undefined,
+      fullPage: selector ? undefined : fullPage,
+      path: filePath
+    };
+
+    let target: Page | Awaited<ReturnType<Page['$']>> = page;
+    if (selector) {
+      target = await page.$(selector);
+      if (!target) {
+        throw new Error(`Element not found: ${selector}`);
+      }
+    }
+
+    const buffer = await target.screenshot(options);
+    const screenshot = this.screenshots.add(buffer, `image/${type}`, page.url());
+    if (filePath) {
+      logNavigation('Saved screenshot to %s', filePath);
+    }
+
+    return {
+      id: screenshot.id,
+      uri: screenshot.uri,
+      path: filePath,
+      image: { data: screenshot.data, mimeType: screenshot.mimeType },
+      message: `Screenshot stored as ${screenshot.uri}${filePath ? ` and saved to ${filePath}` : ''}`
+    };
+  }
+
+  /**
+   * Wait until every given condition is met
+   * @param conditions Selector state, text, URL, network idle and/or JS predicate
+   * @param timeoutMs Time allowed for all conditions together
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns What was matched and how long each condition took
+   */
+  async waitFor(conditions: WaitConditions, timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const started = Date.now();
+    const controller = new AbortController();
+    const { signal } = controller;
+    const waits: { condition: string; wait: () => Promise<unknown> }[] = [];
+
+    if (conditions.selector) {
+      const state = conditions.state ?? 'visible';
+      waits.push({
+        condition: `selector ${conditions.selector} ${state}`,
+        wait: () => page.waitForSelector(conditions.selector!, {
+          visible: state === 'visible',
+          hidden: state === 'hidden' || state === 'detached',
+          timeout: 0,
+          signal
+        }).then(async handle => {
+          // hidden also accepts detached elements, so check that a detached element is really gone
+          if (state === 'detached' && await page.$(conditions.selector!)) {
+            await page.waitForFunction((selector: string) => !document.querySelector(selector), { timeout: 0, signal }, conditions.selector!);
+          }
+          await handle?.dispose();
+        })
+      });
+    } else if (conditions.state) {
+      throw new Error('state requires a selector');
+    }
+
+    if (conditions.text) {
+      waits.push({
+        condition: `text "${conditions.text}"`,
+        wait: () => page.waitForFunction(
+          (text: string) => (document.body?.innerText ?? '').includes(text),
+          { polling: 'mutation', timeout: 0, signal },
+          conditions.text!
+        )
+      });
+    }
+
+    if (conditions.url || conditions.urlRegex) {
+      const regex = conditions.urlRegex ? new RegExp(conditions.urlRegex) : null;
+      const matches = () => regex ? regex.test(page.url()) : matchesUrlPattern(page.url(), conditions.url!);
+      waits.push({
+        condition: `URL ${regex ? `/${conditions.urlRegex}/` : conditions.url}`,
+        // page.url() also follows history.pushState, which SPA routers use instead of navigating
+        wait: async () => {
+          while (!matches()) {
+            if (signal.aborted || page.isClosed()) return;
+            await new Promise(resolve => setTimeout(resolve, URL_POLL_INTERVAL));
+          }
+        }
+      });
+    }
+
+    if (conditions.networkIdle) {
+      waits.push({
+        condition: 'network idle',
+        wait: () => page.waitForNetworkIdle({ idleTime: conditions.idleTimeMs ?? 500, timeout: timeoutMs })
+      });
+    }
+
+    let auditPredicate: ReturnType<BrowserController['startScriptAudit']> | null = null;
+    if (conditions.predicate) {
+      auditPredicate = this.startScriptAudit('wait/for', conditions.predicate, page, tabId);
+      if (this.scriptPolicy.mode !== 'full') {
+        await auditPredicate('rejected');
+        throw new Error(`predicate runs in the page and requires SCRIPT_EXECUTION=full (the policy is ${this.scriptPolicy.mode})`);
+      }
+      // An expression, or a function body when it contains a return statement
+      const source = /\breturn\b/.test(conditions.predicate) ? `(async () => { ${conditions.predicate} })()` : conditions.predicate;
+      waits.push({
+        condition: 'predicate',
+        wait: () => page.waitForFunction(source, { timeout: 0, signal })
+      });
+    }
+
+    if (waits.length === 0) {
+      throw new Error('Provide at least one of selector, text, url, url_regex, network_idle or predicate');
+    }
+
+    const matched: { condition: string; elapsed_ms: number }[] = [];
+    const pending = new Set(waits.map(({ condition }) => condition));
+    try {
+      await withTimeout(
+        Promise.all(waits.map(async ({ condition, wait }) => {
+          await wait();
+          pending.delete(condition);
+          matched.push({ condition, elapsed_ms: Date.now() - started });
+        })),
+        timeoutMs,
+        'wait/for'
+      );
+    } catch (error: any) {
+      await auditPredicate?.('error', { error: error.message });
+      if (error.message?.startsWith('Operation "wait/for" timed out')) {
+        throw new Error(`${error.message}; still waiting for ${[...pending].join(', ')}`);
+      }
+      throw error;
+    } finally {
+      controller.abort();
+    }
+
+    await auditPredicate?.('success');
+    const elapsed = Date.now() - started;
+    return { matched, elapsed_ms: elapsed, message: `Matched ${matched.map(m => m.condition).join(', ')} after ${elapsed}ms` };
+  }
+
+  /**
+   * Check conditions on the current state of a page
+   * @param assertion Selector that must exist and/or text the page must contain
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns The conditions that do not hold, empty if all hold
+   */
+  async checkAssertion(assertion: PageAssertion, tabId?: string): Promise<string[]> {
+    const page = await this.getPage(tabId);
+    const failures: string[] = [];
+    if (assertion.selector && !await page.$(assertion.selector).then(handle => handle?.dispose().then(() => true))) {
+      failures.push(`No element matches ${assertion.selector}`);
+    }
+    if (assertion.textContains) {
+      const text = await page.evaluate(() => document.body?.innerText ?? '');
+      if (!text.includes(assertion.textContains)) {
+        failures.push(`Page text does not contain "${assertion.textContains}"`);
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Compare a screenshot with a named baseline image. The first run for a name saves the baseline.
+   * @param name Baseline name, used as the file name in the baseline directory
+   * @param options Capture area, baseline directory below the baseline root, thresholds and regions to ignore
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Mismatch statistics and the diff image
+   */
+  async compareScreenshot(name: string, options: CompareOptions = {}, tabId?: string) {
+    if (!/^[\w.-]+$/.test(name) || name.startsWith('.')) {
+      throw new Error(`Invalid baseline name "${name}": use letters, digits, "_", "-" and "."`);
+    }
+    const baselineDir = resolveBaselineDir(this.baselineRoot, options.baselineDir);
+    const page = await this.getPage(tabId);
+    const baselinePath = path.join(baselineDir, `${name}.png`);
+
+    let element: ElementHandle<Element> | null = null;
+    if (options.selector) {
+      element = await page.$(options.selector);
+      if (!element) {
+        throw new Error(`Element not found: ${options.selector}`);
+      }
+    }
+
+    // Element boxes are resolved before capturing so that they match the screenshot
+    const regions = await this.resolveIgnoreRegions(page, options.ignoreRegions ?? [], element, options.fullPage ?? false);
+    const actual = element
+      ? await element.screenshot({ type: 'png' })
+      : await page.screenshot({ type: 'png', fullPage: options.fullPage ?? false });
+    const screenshot = this.screenshots.add(actual, 'image/png', page.url());
+
+    const baseline = await fs.readFile(baselinePath).catch(error => {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    });
+    if (!baseline || options.updateBaseline) {
+      await fs.mkdir(baselineDir, { recursive: true });
+      await fs.writeFile(baselinePath, actual);
+      logNavigation('%s baseline %s', baseline ? 'Updated' : 'Created', baselinePath);
+      return {
+        name,
+        status: baseline ? 'baseline_updated' : 'baseline_created',
+        baseline_path: baselinePath,
+        uri: screenshot.uri,
+        image: { data: screenshot.data, mimeType: screenshot.mimeType },
+        message: `${baseline ? 'Updated' : 'Created'} baseline "${name}" at ${baselinePath}`
+      };
+    }
+
+    const result = compareImages(actual, baseline, { threshold: options.threshold, ignoreRegions: regions });
+    const matches = !result.sizeChanged && result.mismatchPercentage <= (options.maxDiffPercentage ?? 0);
+    const diffPath = path.join(baselineDir, `${name}.diff.png`);
+    if (matches) {
+      await fs.rm(diffPath, { force: true });
+    } else {
+      await fs.writeFile(diffPath, result.diff);
+    }
+    const diff = this.screenshots.add(result.diff, 'image/png', page.url());
+
+    return {
+      name,
+      status: matches ? 'match' : 'mismatch',
+      mismatch_percentage: result.mismatchPercentage,
+      diff_pixels: result.diffPixels,
+      total_pixels: result.totalPixels,
+      size_changed: result.sizeChanged,
+      baseline_path: baselinePath,
+      diff_path: matches ? undefined : diffPath,
+      uri: screenshot.uri,
+      diff_uri: diff.uri,
+      image: { data: diff.data, mimeType: diff.mimeType },
+      message: matches
+        ? `Screenshot matches baseline "${name}" (${result.mismatchPercentage}% of pixels differ)`
+        : `Screenshot differs from baseline "${name}": ${result.mismatchPercentage}% of pixels differ${result.sizeChanged ? ', size changed' : ''}`
+    };
+  }
+
+  /**
+   * Convert ignore regions given as element selectors into rectangles in screenshot pixels
+   */
+  private async resolveIgnoreRegions(page: Page, regions: IgnoreRegion[], capture: ElementHandle<Element> | null, fullPage: boolean): Promise<Region[]> {
+    let origin = { x: 0, y: 0 };
+    if (capture) {
+      const box = await capture.boundingBox();
+      origin = box ? { x: box.x, y: box.y } : origin;
+    } else if (fullPage) {
+      // Element boxes are relative to the viewport, a full-page screenshot starts at the top of the document
+      const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+      origin = { x: -scroll.x, y: -scroll.y };
+    }
+
+    const resolved: Region[] = [];
+    for (const region of regions) {
+      if (!('selector' in region)) {
+        resolved.push(region);
+        continue;
+      }
+      for (const element of await page.$$(region.selector)) {
+        const box = await element.boundingBox();
+        if (box) {
+          resolved.push({ x: box.x - origin.x, y: box.y - origin.y, width: box.width, height: box.height });
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Render the page as PDF
+   * @param filePath File path to save the PDF to (defaults to a file in the temp directory)
+   * @param options Paper, margins, header/footer and media options
+   * @param returnBase64 Return the PDF as base64 (without saving it if no path is given)
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Path and/or base64 data of the PDF
+   */
+  async pdf(filePath: string | undefined, options: PdfOptions = {}, returnBase64 = false, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const pdfOptions = {
+      format: options.format ?? 'A4',
+      landscape: options.landscape ?? false,
+      margin: options.margin,
+      printBackground: options.printBackground ?? true,
+      pageRanges: options.pageRanges,
+      scale: options.scale,
+      displayHeaderFooter: Boolean(options.headerTemplate || options.footerTemplate),
+      // Chrome prints a default header or footer for a template that is left out
+      headerTemplate: options.headerTemplate ?? '<span></span>',
+      footerTemplate: options.footerTemplate ?? '<span></span>'
+    };
+
+    if (options.emulateMedia) {
+      await page.emulateMediaType(options.emulateMedia);
+    }
+
+    let buffer: Uint8Array;
+    try {
+      buffer = await page.pdf(pdfOptions);
+    } finally {
+      if (options.emulateMedia) {
+        // Back to the media type emulate/set chose for the tab, if any
+        const mediaType = this.getTab(tabId)?.emulation.media_type;
+        await page.emulateMediaType(mediaType).catch(() => undefined);
+      }
+    }
+
+    const base64 = returnBase64 ? Buffer.from(buffer).toString('base64') : undefined;
+    if (returnBase64 && !filePath) {
+      return { base64, message: 'PDF rendered' };
+    }
+
+    const outputPath = filePath ?? path.join(os.tmpdir(), `page-${Date.now()}.pdf`);
+    await fs.writeFile(outputPath, buffer);
+    logNavigation('Saved PDF to %s', outputPath);
+
+    return { path: outputPath, base64, message: `PDF saved to ${outputPath}` };
+  }
+
+  /**
+   * Run a script as allowed by the script policy: in the page in full mode, in an isolated world
+   * without DOM mutation in read-only mode, and not at all when disabled. Every run is audited.
+   * @param code Body of an async function that receives args
+   * @param args Arguments for the script
+   * @param timeoutMs Timeout in milliseconds
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Result converted to JSON within the policy's size and depth limits
+   */
+  async executeScript(code: string, args: any[] = [], timeoutMs = DEFAULT_TIMEOUT_MS, tabId?: string) {
+    const page = await this.getPage(tabId);
+    const { mode, maxResultBytes, maxResultDepth } = this.scriptPolicy;
+    const audit = this.startScriptAudit('script/execute', code, page, tabId);
+    if (mode === 'disabled') {
+      await audit('rejected');
+      throw new Error('script/execute is disabled by the script execution policy (SCRIPT_EXECUTION=disabled)');
+    }
+
+    let output: ScriptOutput;
+    try {
+      const limits = { maxBytes: maxResultBytes, maxDepth: maxResultDepth };
+      output = await withTimeout(
+        mode === 'read-only' ? runReadOnlyScript(page, code, args, limits) : runPageScript(page, code, args, limits),
+        timeoutMs,
+        'script/execute'
+      );
+    } catch (error: any) {
+      await audit('error', { error: error.message });
+      throw error;
+    }
+
+    await audit('success', { result_bytes: JSON.stringify(output.value)?.length ?? 0, truncated: output.truncated });
+    return { result: output.value, truncated: output.truncated, mode };
+  }
+
+  /**
+   * Start timing a script for the audit log
+   * @param tool Tool that runs the script
+   * @param code Script source
+   * @param page Page the script runs in
+   * @param tabId ID of the tab (defaults to the active tab)
+   * @returns Function that writes the audit entry once the outcome is known
+   */
+  private startScriptAudit(tool: string, code: string, page: Page, tabId?: string) {
+    const started = Date.now();
+    const tab = this.getTab(tabId);
+    return (outcome: ScriptAuditEntry['outcome'], details: Pick<ScriptAuditEntry, 'result_bytes' | 'truncated' | 'error'> = {}) =>
+      writeAuditEntry(this.scriptPolicy, createAuditEntry({
+        tool,
+        mode: this.scriptPolicy.mode,
+        tab_id: tab?.id ?? null,
+        url: page.isClosed() ? null : page.url(),
+        code,
+        outcome,
+        duration_ms: Date.now() - started,
+        ...details
+      }));
+  }
+
+  /**
+   * Close all tabs and disconnect from (or close) the browser
+   */
+  async close(): Promise<void> {
+    const context = this.context;
+    this.tabs.clear();
+    this.activeTabId = null;
+    this.context = null;
+    this.screenshots.clear();
+
+    if (context && !context.closed && context.browser().connected) {
+      await context.close();
+    }
+    if (this.ownsPool) {
+      await this.pool.close();
+    }
+  }
+
+  private requireTab(tabId?: string): Tab {
+    const tab = this.getTab(tabId);
+    if (!tab) {
+      throw new Error(tabId ? `Unknown tab: ${tabId}` : 'No active tab. Open one with browser/new_tab.');
+    }
+    return tab;
+  }
+
+  private forgetTab(tabId: string): void {
+    if (!this.tabs.delete(tabId)) return;
+
+    if (this.activeTabId === tabId) {
+      const remaining = [...this.tabs.keys()];
+      this.activeTabId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+    }
+  }
+
+  private async describeTab(tab: Tab): Promise<TabInfo> {
+    return {
+      tab_id: tab.id,
+      url: tab.page.url(),
+      title: tab.page.isClosed() ? '' : await tab.page.title().catch(() => ''),
+      active: tab.id === this.activeTabId
+    };
+  }
+}
+
+/**
+ * Resolve an element target to a handle. Refs are resolved through their CDP backend node ID,
+ * selectors are waited for until visible.
+ * @param page Puppeteer page
+ * @param target Selector or ref of the element
+ * @param timeoutMs Timeout for the selector to appear
+ * @returns Handle to the element
+ */
+export async function resolveTarget(page: Page, target: ElementTarget, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<ElementHandle<Element>> {
+  if (target.ref) {
+    return resolveElementRef(page, target.ref);
+  }
+  if (!target.selector) {
+    throw new Error('Either selector or ref is required');
+  }
+
+  const element = await page.waitForSelector(target.selector, { visible: true, timeout: timeoutMs });
+  if (!element) {
+    throw new Error(`Element not found: ${target.selector}`);
+  }
+  return element;
+}
+
+/**
+ * Describe an element target for result messages
+ * @param target Selector or ref of the element
+ * @returns Human-readable description
+ */
+export function describeTarget(target: ElementTarget): string {
+  return target.ref ? `ref ${target.ref}` : target.selector ?? 'element';
+}
+
+/**
+ * Scroll an element into view and get the point in its center
+ * @param element Element
+ * @returns Viewport coordinates
+ */
+async function elementCenter(element: ElementHandle<Element>): Promise<{ x: number; y: number }> {
+  await element.scrollIntoView();
+  return element.clickablePoint();
+}
+
+/**
+ * Run an action while holding modifier keys
+ * @param page Puppeteer page
+ * @param modifiers Modifier keys to hold
+ * @param action Action to run
+ */
+async function withModifiers(page: Page, modifiers: KeyInput[], action: () => Promise<unknown>): Promise<void> {
+  for (const modifier of modifiers) {
+    await page.keyboard.down(modifier);
+  }
+  try {
+    await action();
+  } finally {
+    for (const modifier of [...modifiers].reverse()) {
+      await page.keyboard.up(modifier);
+    }
+  }
+}
+
+/**
+ * Map a wait_for string onto a Puppeteer lifecycle event
+ * @param waitFor Wait condition (none|load|domcontentloaded|networkidle0|networkidle2)
+ * @returns Lifecycle event, or undefined for 'none'
+ */
+export function toLifeCycleEvent(waitFor?: string): PuppeteerLifeCycleEvent | undefined {
+  switch (waitFor) {
+    case 'load':
+    case 'domcontentloaded':
+    case 'networkidle0':
+    case 'networkidle2':
+      return waitFor;
+    case undefined:
+    case '':
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Invalid wait_for value: ${waitFor}`);
+  }
+}
+
+/**
+ * Run an action and, if requested, wait for the navigation it triggers
+ * @param page Puppeteer page
+ * @param action Action that may trigger a navigation
+ * @param waitFor Wait condition
+ * @param timeoutMs Timeout for the wait
+ */
+export async function runWithWait(page: Page, action: () => Promise<unknown>, waitFor: string | undefined, timeoutMs: number): Promise<void> {
+  const waitUntil = toLifeCycleEvent(waitFor);
+  if (!waitUntil) {
+    await action();
+    return;
+  }
+
+  await Promise.all([
+    page.waitForNavigation({ waitUntil, timeout: timeoutMs }),
+    action()
+  ]);
+}
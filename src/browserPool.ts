@@ -0,0 +1,105 @@
+import puppeteer, { Browser, BrowserContext } from 'puppeteer';
+import debug from 'debug';
+import { getBrowserConfig } from './utils/browserConfig.js';
+import { connectWithRetry } from './utils/browserConnection.js';
+
+const logBrowser = debug('mcp-puppeteer:browser');
+const logError = debug('mcp-puppeteer:error');
+
+/**
+ * Options for creating a browser pool
+ */
+export interface BrowserPoolOptions {
+  browserWSEndpoint?: string;
+}
+
+/**
+ * Owns the single browser process (or remote browser connection) shared by all sessions
+ * and hands out isolated incognito browser contexts from it.
+ */
+export class BrowserPool {
+  private browser: Browser | null = null;
+  private browserPromise: Promise<Browser> | null = null;
+  private readonly browserWSEndpoint?: string;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.browserWSEndpoint = options.browserWSEndpoint ?? process.env.PUPPETEER_BROWSER_WS_ENDPOINT;
+  }
+
+  /**
+   * Get the browser, launching or connecting to it on first use
+   * @returns Connected browser instance
+   */
+  async getBrowser(): Promise<Browser> {
+    if (this.browser && this.browser.connected) {
+      return this.browser;
+    }
+
+    if (!this.browserPromise) {
+      this.browserPromise = this.launchBrowser().finally(() => {
+        this.browserPromise = null;
+      });
+    }
+
+    return this.browserPromise;
+  }
+
+  /**
+   * Create a new incognito browser context. Cookies, storage and cache of the context
+   * are not shared with any other context and are discarded when it is closed.
+   * @returns New browser context
+   */
+  async createContext(): Promise<BrowserContext> {
+    const browser = await this.getBrowser();
+    const context = await browser.createBrowserContext();
+    logBrowser('Created browser context %s', context.id ?? 'default');
+    return context;
+  }
+
+  /**
+   * Close the browser, or disconnect from it if it is a remote browser
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+
+    if (!browser) return;
+
+    if (this.browserWSEndpoint) {
+      await browser.disconnect();
+    } else {
+      await browser.close();
+    }
+  }
+
+  private async launchBrowser(): Promise<Browser> {
+    let browser: Browser;
+    if (this.browserWSEndpoint) {
+      logBrowser('Connecting to remote browser: %s', this.browserWSEndpoint);
+      browser = await connectWithRetry(this.browserWSEndpoint);
+    } else {
+      const config = getBrowserConfig();
+      logBrowser('Launching local browser');
+      browser = await puppeteer.launch({
+        headless: config.headless === 'new' ? true : config.headless,
+        defaultViewport: config.defaultViewport,
+        slowMo: config.slowMo,
+        timeout: config.timeout,
+        ignoreHTTPSErrors: config.ignoreHTTPSErrors,
+        args: config.args,
+        executablePath: process.env.PUPPETEER_EXECUTABLE_PATH
+      });
+    }
+
+    browser.on('disconnected', () => {
+      logError('Browser disconnected');
+      if (this.browser === browser) {
+        this.browser = null;
+      }
+    });
+
+    this.browser = browser;
+    logBrowser('Browser ready: %s', await browser.version());
+    return browser;
+  }
+}
@@ -10,6 +10,8 @@ const logError = debug('mcp-puppeteer:error');
 const args = process.argv.slice(2);
 const options = {};
 let debugEnabled = false;
+let transport = 'events';
+const TRANSPORTS = ['events', 'stdio', 'sse', 'http'];
 
 // Handle command line arguments
 for (let i = 0; i < args.length; i++) {
@@ -23,6 +25,24 @@ for (let i = 0; i < args.length; i++) {
       options.port = parseInt(args[i + 1], 10);
       i++; // Skip the next argument
     }
+  } else if (args[i] === '--max-sessions') {
+    if (i + 1 < args.length) {
+      options.maxSessions = parseInt(args[i + 1], 10);
+      i++; // Skip the next argument
+    }
+  } else if (args[i] === '--idle-timeout') {
+    if (i + 1 < args.length) {
+      options.sessionIdleTimeoutMs = parseInt(args[i + 1], 10) * 1000;
+      i++; // Skip the next argument
+    }
+  } else if (args[i] === '--transport' || args[i] === '-t') {
+    if (i + 1 < args.length && TRANSPORTS.includes(args[i + 1])) {
+      transport = args[i + 1];
+      i++; // Skip the next argument
+    } else {
+      console.error(`--transport requires one of: ${TRANSPORTS.join(', ')}`);
+      process.exit(1);
+    }
   } else if (args[i] === '--debug' || args[i] === '-d') {
     debugEnabled = true;
     process.env.DEBUG = 'mcp-puppeteer:*';
@@ -52,8 +72,15 @@ Usage:
   mcp-puppeteer [options]
 
 Options:
+  --transport, -t <mode>   Server to run (default: events):
+                             events  Browser event monitor (/events, /health, /snapshot)
+                             stdio   MCP server over stdin/stdout, for desktop MCP clients
+                             sse     MCP server over HTTP with Server-Sent Events (/sse, /messages)
+                             http    MCP server over Streamable HTTP (/mcp) and SSE
   --ws-endpoint, -w <url>  WebSocket endpoint for remote browser (e.g., ws://localhost:3000)
   --port, -p <port>        Port to run the server on (default: 3001)
+  --max-sessions <n>       Maximum concurrent MCP sessions, each with its own browser context (default: 10)
+  --idle-timeout <sec>     Close MCP sessions idle for this many seconds, 0 to disable (default: 1800)
   --debug, -d [namespace]  Enable debug output (default: mcp-puppeteer:*)
   --browserless            Connect to a browserless.io instance (defaults to ws://localhost:3000)
   --remote [host]          Run in remote mode, optionally specifying the host to bind to
@@ -65,6 +92,8 @@ Debug Namespaces:
   mcp-puppeteer:connection Connection details
   mcp-puppeteer:navigation Page navigation and content
   mcp-puppeteer:sse        Server-Sent Events (SSE)
+  mcp-puppeteer:session    MCP session lifecycle
+  mcp-puppeteer:tool       MCP tool calls
   mcp-puppeteer:error      Error reporting
     `);
     process.exit(0);
@@ -94,11 +123,27 @@ if (!debugEnabled) {
 }
 
 // Start the server
-startServer(options)
-  .then(({ server }) => {
-    // Success is already logged by the server
-  })
-  .catch(error => {
-    logError('Failed to start MCP Puppeteer server: %O', error);
-    process.exit(1);
-  });
+if (transport === 'events') {
+  startServer(options)
+    .then(({ server }) => {
+      // Success is already logged by the server
+    })
+    .catch(error => {
+      logError('Failed to start MCP Puppeteer server: %O', error);
+      process.exit(1);
+    });
+} else {
+  import('./server.js')
+    .then(({ startMcpServer }) => startMcpServer({
+      transport,
+      port: options.port,
+      host: options.host,
+      browserWSEndpoint: options.browserWSEndpoint,
+      maxSessions: options.maxSessions,
+      sessionIdleTimeoutMs: options.sessionIdleTimeoutMs
+    }))
+    .catch(error => {
+      logError('Failed to start MCP Puppeteer server: %O', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,2680 @@
+// Import SDK modules
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { CallToolRequestSchema, ListResourcesRequestSchema, ListToolsRequestSchema, ReadResourceRequestSchema, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Import node modules
+import { randomUUID } from 'crypto';
+import debug from 'debug';
+import express, { Request, Response } from 'express';
+import type { ErrorCode, PaperFormat } from 'puppeteer';
+
+// Import browser controller modules
+import { BrowserController } from './browserController.js';
+import type { FormField, IgnoreRegion, MouseAction } from './browserController.js';
+import { BrowserPool } from './browserPool.js';
+import { LOG_LEVELS } from './utils/consoleLog.js';
+import type { LogLevel } from './utils/consoleLog.js';
+import { NavigationBlockedError } from './utils/domainPolicy.js';
+import { getScriptPolicy } from './utils/scriptPolicy.js';
+import type { ScriptPolicy } from './utils/scriptPolicy.js';
+import { NETWORK_PRESETS } from './utils/emulation.js';
+import { readRecording, toReplayParams, validateRecording } from './utils/recording.js';
+import type { Recording } from './utils/recording.js';
+import type { EmulationSettings } from './utils/emulation.js';
+import type { RouteAction } from './utils/requestRouter.js';
+import type { StoredCookie } from './utils/storageState.js';
+import { generateAccessibilitySnapshot, generateAccessibilityDiff } from "./utils/accessibilitySnapshot.js";
+
+// Create debug loggers
+const logServer = debug('mcp-puppeteer:server');
+const logError = debug('mcp-puppeteer:error');
+const logTool = debug('mcp-puppeteer:tool');
+const logSession = debug('mcp-puppeteer:session');
+
+// Constants
+const MAX_SCREENSHOTS = 50;
+const MAX_PAGES = 10;
+const SERVER_INFO = { name: "mcp-puppeteer", version: "0.1.0" };
+const KEEP_ALIVE_INTERVAL = 60000; // 1 minute
+const DEFAULT_MAX_SESSIONS = 10;
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60000; // 30 minutes
+const IDLE_CHECK_INTERVAL = 60000; // 1 minute
+
+// Types
+export type McpTransport = 'stdio' | 'sse' | 'http';
+
+export type McpServerOptions = {
+  transport?: McpTransport;
+  port?: number;
+  host?: string;
+  browserWSEndpoint?: string;
+  maxSessions?: number;
+  sessionIdleTimeoutMs?: number;
+};
+
+type ToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: { type: "object"; properties?: Record<string, unknown>; required?: string[] };
+  outputSchema?: Record<string, unknown>;
+  handler: (params: any, browserController: BrowserController) => Promise<unknown>;
+};
+
+type RecordingStartParams = {
+  name?: string;
+};
+
+type RecordingStopParams = {
+  path?: string;
+  script_path?: string;
+};
+
+type ReplayParams = {
+  path?: string;
+  trace?: unknown;
+  stop_on_divergence?: boolean;
+};
+
+type BatchStep = {
+  tool: string;
+  params?: Record<string, unknown>;
+  assert?: { selector?: string; text_contains?: string };
+};
+
+type BatchParams = TabParams & {
+  steps: BatchStep[];
+  on_error?: 'stop' | 'continue';
+};
+
+type BatchStepResult = {
+  index: number;
+  tool: string;
+  status: 'success' | 'error' | 'assertion_failed' | 'skipped';
+  duration_ms?: number;
+  result?: unknown;
+  error?: string;
+  /** Machine-readable error, such as navigation_blocked */
+  error_code?: string;
+  /** Navigation the domain policy blocked, and the tab it was blocked in */
+  blocked_navigation?: { url: string; reason: string; tab_id: string | null };
+  assertion_failures?: string[];
+};
+
+type ReplayStepResult = {
+  index: number;
+  tool: string;
+  status: 'ok' | 'diverged' | 'skipped' | 'not_run';
+  duration_ms?: number;
+  reason?: string;
+};
+
+export type Session = {
+  server: Server;
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  browserController: BrowserController;
+  lastActivity: number;
+};
+
+export type SessionLimits = {
+  maxSessions: number;
+  idleTimeoutMs: number;
+};
+
+type TabParams = {
+  tab_id?: string;
+};
+
+type WaitParams = TabParams & {
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type NavigateParams = TabParams & {
+  url: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type NewTabParams = {
+  url?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type ScrollParams = TabParams & {
+  direction: 'up' | 'down' | 'left' | 'right';
+  pixels?: number;
+  selector?: string;
+  ref?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type ClickParams = TabParams & {
+  selector?: string;
+  ref?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type TypeParams = TabParams & {
+  selector?: string;
+  ref?: string;
+  text: string;
+  delay?: number;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type ExtractParams = TabParams & {
+  selector?: string;
+};
+
+type TablesParams = TabParams & {
+  selector?: string;
+  ref?: string;
+  csv?: boolean;
+};
+
+type StructuredParams = TabParams & {
+  spec: unknown;
+  json_schema?: object;
+};
+
+type MarkdownParams = TabParams & {
+  selector?: string;
+  include_images?: boolean;
+  offset?: number;
+  max_chars?: number;
+};
+
+type EmulateParams = TabParams & EmulationSettings;
+
+type ScreenshotParams = TabParams & {
+  path?: string;
+  fullPage?: boolean;
+  quality?: number;
+  type?: 'jpeg' | 'png';
+  selector?: string;
+};
+
+type CompareParams = TabParams & {
+  name: string;
+  baseline_dir?: string;
+  selector?: string;
+  fullPage?: boolean;
+  threshold?: number;
+  max_diff_percentage?: number;
+  ignore_regions?: IgnoreRegion[];
+  update_baseline?: boolean;
+};
+
+type PdfParams = TabParams & {
+  path?: string;
+  format?: PaperFormat;
+  landscape?: boolean;
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+  print_background?: boolean;
+  page_ranges?: string;
+  header_template?: string;
+  footer_template?: string;
+  emulate_media?: 'screen' | 'print';
+  scale?: number;
+  return_base64?: boolean;
+};
+
+type SnapshotParams = TabParams & {
+  root_selector?: string;
+  root_ref?: string;
+  max_depth?: number;
+  roles?: string[];
+  interesting_only?: boolean;
+  max_chars?: number;
+};
+
+type NetworkFilterParams = TabParams & {
+  url_pattern?: string;
+  resource_types?: string[];
+  status_min?: number;
+  status_max?: number;
+  failed_only?: boolean;
+};
+
+type NetworkRequestsParams = NetworkFilterParams & {
+  include_headers?: boolean;
+  include_body?: boolean;
+  limit?: number;
+};
+
+type ExportHarParams = NetworkFilterParams & {
+  path?: string;
+};
+
+type RouteParams = TabParams & {
+  url?: string;
+  url_regex?: string;
+  method?: string;
+  action: 'abort' | 'continue' | 'fulfill';
+  abort_reason?: ErrorCode;
+  overrides?: { method?: string; headers?: Record<string, string>; post_data?: string };
+  response?: { status?: number; headers?: Record<string, string>; content_type?: string; body?: string; path?: string };
+};
+
+type UnrouteParams = TabParams & {
+  route_id?: string;
+};
+
+type LogsParams = TabParams & {
+  levels?: LogLevel[];
+  text?: string;
+  cursor?: number;
+  limit?: number;
+  all_tabs?: boolean;
+};
+
+type StateFileParams = TabParams & {
+  path?: string;
+};
+
+type CookiesParams = TabParams & {
+  urls?: string[];
+};
+
+type SetCookiesParams = TabParams & {
+  cookies: StoredCookie[];
+};
+
+type ClearStorageParams = TabParams & {
+  cookies?: boolean;
+  local_storage?: boolean;
+  session_storage?: boolean;
+};
+
+type HoverParams = TabParams & {
+  selector?: string;
+  ref?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type PressKeyParams = TabParams & {
+  key: string;
+  count?: number;
+  selector?: string;
+  ref?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type DragParams = TabParams & {
+  source_selector?: string;
+  source_ref?: string;
+  target_selector?: string;
+  target_ref?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type MouseParams = TabParams & {
+  action: MouseAction;
+  x?: number;
+  y?: number;
+  selector?: string;
+  ref?: string;
+  modifiers?: string[];
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type WaitForParams = TabParams & {
+  selector?: string;
+  state?: 'visible' | 'hidden' | 'attached' | 'detached';
+  text?: string;
+  url?: string;
+  url_regex?: string;
+  network_idle?: boolean;
+  idle_time_ms?: number;
+  predicate?: string;
+  timeout_ms?: number;
+};
+
+type FormFillParams = TabParams & {
+  fields: FormField[];
+  submit?: boolean;
+  submit_selector?: string;
+  submit_ref?: string;
+  wait_for?: string;
+  timeout_ms?: number;
+};
+
+type ScriptParams = TabParams & {
+  code: string;
+  args?: any[];
+  timeout_ms?: number;
+};
+
+// Tool handlers
+const navigateHandler = async (params: NavigateParams, browserController: BrowserController) => {
+  logTool('Handling navigate to URL: %s', params.url);
+
+  try {
+    return await browserController.navigate(params.url, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Navigation failed: %O', error);
+    throw new Error(`Navigation failed: ${error.message}`);
+  }
+};
+
+const goBackHandler = async (params: WaitParams, browserController: BrowserController) => {
+  logTool('Handling goBack');
+
+  try {
+    return await browserController.goBack(params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Go back failed: %O', error);
+    throw new Error(`Go back failed: ${error.message}`);
+  }
+};
+
+const goForwardHandler = async (params: WaitParams, browserController: BrowserController) => {
+  logTool('Handling goForward');
+
+  try {
+    return await browserController.goForward(params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Go forward failed: %O', error);
+    throw new Error(`Go forward failed: ${error.message}`);
+  }
+};
+
+const scrollHandler = async (params: ScrollParams, browserController: BrowserController) => {
+  logTool('Handling scroll: %s', params.direction);
+
+  try {
+    return await browserController.scroll(params.direction, params.pixels, { selector: params.selector, ref: params.ref }, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Scroll failed: %O', error);
+    throw new Error(`Scroll failed: ${error.message}`);
+  }
+};
+
+const clickHandler = async (params: ClickParams, browserController: BrowserController) => {
+  logTool('Handling click: %s', params.ref || params.selector);
+
+  try {
+    return await browserController.click({ selector: params.selector, ref: params.ref }, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Click failed: %O', error);
+    throw new Error(`Click failed: ${error.message}`);
+  }
+};
+
+const typeHandler = async (params: TypeParams, browserController: BrowserController) => {
+  logTool('Handling type: %s', params.ref || params.selector);
+
+  try {
+    return await browserController.type({ selector: params.selector, ref: params.ref }, params.text, params.delay, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Type failed: %O', error);
+    throw new Error(`Type failed: ${error.message}`);
+  }
+};
+
+const hoverHandler = async (params: HoverParams, browserController: BrowserController) => {
+  logTool('Handling hover: %s', params.ref || params.selector);
+
+  try {
+    return await browserController.hover({ selector: params.selector, ref: params.ref }, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Hover failed: %O', error);
+    throw new Error(`Hover failed: ${error.message}`);
+  }
+};
+
+const pressKeyHandler = async (params: PressKeyParams, browserController: BrowserController) => {
+  logTool('Handling pressKey: %s', params.key);
+
+  try {
+    return await browserController.pressKey(params.key, params.count, { selector: params.selector, ref: params.ref }, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Press key failed: %O', error);
+    throw new Error(`Press key failed: ${error.message}`);
+  }
+};
+
+const dragHandler = async (params: DragParams, browserController: BrowserController) => {
+  logTool('Handling drag: %s -> %s', params.source_ref || params.source_selector, params.target_ref || params.target_selector);
+
+  try {
+    return await browserController.drag(
+      { selector: params.source_selector, ref: params.source_ref },
+      { selector: params.target_selector, ref: params.target_ref },
+      params.wait_for,
+      params.timeout_ms,
+      params.tab_id
+    );
+  } catch (error: any) {
+    logError('Drag failed: %O', error);
+    throw new Error(`Drag failed: ${error.message}`);
+  }
+};
+
+const mouseHandler = async (params: MouseParams, browserController: BrowserController) => {
+  logTool('Handling mouse: %s', params.action);
+
+  try {
+    return await browserController.mouse(
+      params.action,
+      { x: params.x, y: params.y, selector: params.selector, ref: params.ref },
+      params.modifiers,
+      params.wait_for,
+      params.timeout_ms,
+      params.tab_id
+    );
+  } catch (error: any) {
+    logError('Mouse action failed: %O', error);
+    throw new Error(`Mouse action failed: ${error.message}`);
+  }
+};
+
+const waitForHandler = async (params: WaitForParams, browserController: BrowserController) => {
+  logTool('Handling wait/for');
+
+  try {
+    return await browserController.waitFor({
+      selector: params.selector,
+      state: params.state,
+      text: params.text,
+      url: params.url,
+      urlRegex: params.url_regex,
+      networkIdle: params.network_idle,
+      idleTimeMs: params.idle_time_ms,
+      predicate: params.predicate
+    }, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Wait failed: %O', error);
+    throw new Error(`Wait failed: ${error.message}`);
+  }
+};
+
+const formFillHandler = async (params: FormFillParams, browserController: BrowserController) => {
+  logTool('Handling form/fill: %d field(s)', params.fields?.length ?? 0);
+
+  try {
+    if (!Array.isArray(params.fields) || params.fields.length === 0) throw new Error('fields must be a non-empty array');
+    const submit = params.submit_selector || params.submit_ref
+      ? { selector: params.submit_selector, ref: params.submit_ref }
+      : params.submit ?? false;
+    return await browserController.fillForm(params.fields, submit, params.wait_for, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Form fill failed: %O', error);
+    throw new Error(`Form fill failed: ${error.message}`);
+  }
+};
+
+const extractTextHandler = async (params: ExtractParams, browserController: BrowserController) => {
+  logTool('Handling extractText: %s', params.selector || 'body');
+
+  try {
+    return await browserController.extractText(params.selector, params.tab_id);
+  } catch (error: any) {
+    logError('Extract text failed: %O', error);
+    throw new Error(`Extract text failed: ${error.message}`);
+  }
+};
+
+const extractHyperlinksHandler = async (params: ExtractParams, browserController: BrowserController) => {
+  logTool('Handling extractHyperlinks: %s', params.selector || 'body');
+
+  try {
+    return await browserController.extractHyperlinks(params.selector, params.tab_id);
+  } catch (error: any) {
+    logError('Extract hyperlinks failed: %O', error);
+    throw new Error(`Extract hyperlinks failed: ${error.message}`);
+  }
+};
+
+const extractTablesHandler = async (params: TablesParams, browserController: BrowserController) => {
+  logTool('Handling content/extract_tables: %s', params.ref || params.selector || 'all tables');
+
+  try {
+    return await browserController.extractTables({ selector: params.selector, ref: params.ref }, params.csv, params.tab_id);
+  } catch (error: any) {
+    logError('Extract tables failed: %O', error);
+    throw new Error(`Extract tables failed: ${error.message}`);
+  }
+};
+
+const extractMetadataHandler = async (params: TabParams, browserController: BrowserController) => {
+  logTool('Handling content/extract_metadata');
+
+  try {
+    return await browserController.extractMetadata(params.tab_id);
+  } catch (error: any) {
+    logError('Extract metadata failed: %O', error);
+    throw new Error(`Extract metadata failed: ${error.message}`);
+  }
+};
+
+const extractStructuredHandler = async (params: StructuredParams, browserController: BrowserController) => {
+  logTool('Handling content/extract_structured');
+
+  try {
+    return await browserController.extractStructured(params.spec, params.json_schema, params.tab_id);
+  } catch (error: any) {
+    logError('Extract structured failed: %O', error);
+    throw new Error(`Extract structured failed: ${error.message}`);
+  }
+};
+
+const extractMarkdownHandler = async (params: MarkdownParams, browserController: BrowserController) => {
+  logTool('Handling content/extract_markdown: %s', params.selector || 'main content');
+
+  try {
+    return await browserController.extractMarkdown(
+      { selector: params.selector, includeImages: params.include_images },
+      params.offset,
+      params.max_chars,
+      params.tab_id
+    );
+  } catch (error: any) {
+    logError('Extract markdown failed: %O', error);
+    throw new Error(`Extract markdown failed: ${error.message}`);
+  }
+};
+
+const emulateHandler = async (params: EmulateParams, browserController: BrowserController) => {
+  logTool('Handling emulate/set');
+
+  try {
+    const { tab_id, ...settings } = params;
+    return await browserController.emulate(settings, tab_id);
+  } catch (error: any) {
+    logError('Emulate failed: %O', error);
+    throw new Error(`Emulate failed: ${error.message}`);
+  }
+};
+
+const resetEmulationHandler = async (params: TabParams, browserController: BrowserController) => {
+  logTool('Handling emulate/reset');
+
+  try {
+    return await browserController.resetEmulation(params.tab_id);
+  } catch (error: any) {
+    logError('Reset emulation failed: %O', error);
+    throw new Error(`Reset emulation failed: ${error.message}`);
+  }
+};
+
+const takeScreenshotHandler = async (params: ScreenshotParams, browserController: BrowserController) => {
+  logTool('Handling takeScreenshot');
+
+  try {
+    return await browserController.takeScreenshot(params.path, params.fullPage, params.quality, params.type, params.selector, params.tab_id);
+  } catch (error: any) {
+    logError('Take screenshot failed: %O', error);
+    throw new Error(`Take screenshot failed: ${error.message}`);
+  }
+};
+
+const compareScreenshotHandler = async (params: CompareParams, browserController: BrowserController) => {
+  logTool('Handling screenshot/compare: %s', params.name);
+
+  try {
+    return await browserController.compareScreenshot(params.name, {
+      baselineDir: params.baseline_dir,
+      selector: params.selector,
+      fullPage: params.fullPage,
+      threshold: params.threshold,
+      maxDiffPercentage: params.max_diff_percentage,
+      ignoreRegions: params.ignore_regions,
+      updateBaseline: params.update_baseline
+    }, params.tab_id);
+  } catch (error: any) {
+    logError('Screenshot compare failed: %O', error);
+    throw new Error(`Screenshot compare failed: ${error.message}`);
+  }
+};
+
+const pdfHandler = async (params: PdfParams, browserController: BrowserController) => {
+  logTool('Handling page/pdf');
+
+  try {
+    return await browserController.pdf(params.path, {
+      format: params.format,
+      landscape: params.landscape,
+      margin: params.margin,
+      printBackground: params.print_background,
+      pageRanges: params.page_ranges,
+      headerTemplate: params.header_template,
+      footerTemplate: params.footer_template,
+      emulateMedia: params.emulate_media,
+      scale: params.scale
+    }, params.return_base64, params.tab_id);
+  } catch (error: any) {
+    logError('PDF failed: %O', error);
+    throw new Error(`PDF failed: ${error.message}`);
+  }
+};
+
+const executeScriptHandler = async (params: ScriptParams, browserController: BrowserController) => {
+  logTool('Handling executeScript');
+
+  try {
+    return await browserController.executeScript(params.code, params.args, params.timeout_ms, params.tab_id);
+  } catch (error: any) {
+    logError('Execute script failed: %O', error);
+    throw new Error(`Script execution failed: ${error.message}`);
+  }
+};
+
+const accessibilitySnapshotHandler = async (params: SnapshotParams, browserController: BrowserController) => {
+  logTool('Handling accessibility/snapshot');
+
+  const page = await browserController.getPage(params.tab_id);
+  return await generateAccessibilitySnapshot(page, {
+    rootSelector: params.root_selector,
+    rootRef: params.root_ref,
+    maxDepth: params.max_depth,
+    roles: params.roles,
+    interestingOnly: params.interesting_only,
+    maxChars: params.max_chars
+  });
+};
+
+const accessibilityDiffHandler = async (params: TabParams, browserController: BrowserController) => {
+  logTool('Handling accessibility/diff');
+
+  const page = await browserController.getPage(params.tab_id);
+  return await generateAccessibilityDiff(page);
+};
+
+const toNetworkFilter = (params: NetworkFilterParams) => ({
+  urlPattern: params.url_pattern,
+  resourceTypes: params.resource_types,
+  statusMin: params.status_min,
+  statusMax: params.status_max,
+  failedOnly: params.failed_only
+});
+
+const networkRequestsHandler = async (params: NetworkRequestsParams, browserController: BrowserController) => {
+  logTool('Handling network/requests: %s', params.url_pattern || 'all');
+
+  try {
+    return await browserController.listRequests(toNetworkFilter(params), {
+      includeHeaders: params.include_headers,
+      includeBody: params.include_body,
+      limit: params.limit
+    }, params.tab_id);
+  } catch (error: any) {
+    logError('List requests failed: %O', error);
+    throw new Error(`List requests failed: ${error.message}`);
+  }
+};
+
+const exportHarHandler = async (params: ExportHarParams, browserController: BrowserController) => {
+  logTool('Handling network/export_har: %s', params.path || 'temp file');
+
+  try {
+    return await browserController.exportHar(params.path, toNetworkFilter(params), SERVER_INFO, params.tab_id);
+  } catch (error: any) {
+    logError('Export HAR failed: %O', error);
+    throw new Error(`Export HAR failed: ${error.message}`);
+  }
+};
+
+const toRouteAction = (params: RouteParams): RouteAction => {
+  switch (params.action) {
+    case 'abort':
+      return { type: 'abort', reason: params.abort_reason };
+    case 'continue':
+      return { type: 'continue', method: params.overrides?.method, headers: params.overrides?.headers, postData: params.overrides?.post_data };
+    case 'fulfill':
+      return {
+        type: 'fulfill',
+        status: params.response?.status,
+        headers: params.response?.headers,
+        contentType: params.response?.content_type,
+        body: params.response?.body,
+        path: params.response?.path
+      };
+    default:
+      throw new Error(`Unknown action: ${params.action}. Use abort, continue or fulfill.`);
+  }
+};
+
+const routeHandler = async (params: RouteParams, browserController: BrowserController) => {
+  logTool('Handling network/route: %s %s', params.action, params.url || params.url_regex);
+
+  try {
+    return await browserController.addRoute({
+      url: params.url,
+      urlRegex: params.url_regex,
+      method: params.method,
+      action: toRouteAction(params)
+    }, params.tab_id);
+  } catch (error: any) {
+    logError('Add route failed: %O', error);
+    throw new Error(`Add route failed: ${error.message}`);
+  }
+};
+
+const unrouteHandler = async (params: UnrouteParams, browserController: BrowserController) => {
+  logTool('Handling network/unroute: %s', params.route_id || 'all');
+
+  try {
+    return await browserController.removeRoute(params.route_id, params.tab_id);
+  } catch (error: any) {
+    logError('Remove route failed: %O', error);
+    throw new Error(`Remove route failed: ${error.message}`);
+  }
+};
+
+const routesHandler = async (params: TabParams, browserController: BrowserController) => {
+  logTool('Handling network/routes');
+
+  return await browserController.listRoutes(params.tab_id);
+};
+
+const getLogsHandler = async (params: LogsParams, browserController: BrowserController) => {
+  logTool('Handling console/get_logs after cursor %d', params.cursor ?? 0);
+
+  try {
+    return await browserController.getLogs(
+      { levels: params.levels, text: params.text, cursor: params.cursor, limit: params.limit },
+      params.tab_id,
+      params.all_tabs
+    );
+  } catch (error: any) {
+    logError('Get logs failed: %O', error);
+    throw new Error(`Get logs failed: ${error.message}`);
+  }
+};
+
+const saveStateHandler = async (params: StateFileParams, browserController: BrowserController) => {
+  logTool('Handling storage/save_state: %s', params.path || 'temp file');
+
+  try {
+    return await browserController.saveStorageState(params.path, params.tab_id);
+  } catch (error: any) {
+    logError('Save state failed: %O', error);
+    throw new Error(`Save state failed: ${error.message}`);
+  }
+};
+
+const loadStateHandler = async (params: StateFileParams, browserController: BrowserController) => {
+  logTool('Handling storage/load_state: %s', params.path);
+
+  try {
+    if (!params.path) throw new Error('path is required');
+    return await browserController.loadStorageState(params.path, params.tab_id);
+  } catch (error: any) {
+    logError('Load state failed: %O', error);
+    throw new Error(`Load state failed: ${error.message}`);
+  }
+};
+
+const getCookiesHandler = async (params: CookiesParams, browserController: BrowserController) => {
+  logTool('Handling storage/get_cookies');
+
+  try {
+    return await browserController.getCookies(params.urls, params.tab_id);
+  } catch (error: any) {
+    logError('Get cookies failed: %O', error);
+    throw new Error(`Get cookies failed: ${error.message}`);
+  }
+};
+
+const setCookiesHandler = async (params: SetCookiesParams, browserController: BrowserController) => {
+  logTool('Handling storage/set_cookies: %d cookie(s)', params.cookies?.length ?? 0);
+
+  try {
+    return await browserController.setCookies(params.cookies ?? [], params.tab_id);
+  } catch (error: any) {
+    logError('Set cookies failed: %O', error);
+    throw new Error(`Set cookies failed: ${error.message}`);
+  }
+};
+
+const clearStorageHandler = async (params: ClearStorageParams, browserController: BrowserController) => {
+  logTool('Handling storage/clear');
+
+  try {
+    return await browserController.clearStorage({
+      cookies: params.cookies,
+      localStorage: params.local_storage,
+      sessionStorage: params.session_storage
+    }, params.tab_id);
+  } catch (error: any) {
+    logError('Clear storage failed: %O', error);
+    throw new Error(`Clear storage failed: ${error.message}`);
+  }
+};
+
+const newTabHandler = async (params: NewTabParams, browserController: BrowserController) => {
+  logTool('Handling newTab: %s', params.url || 'about:blank');
+
+  try {
+    return await browserController.newTab(params.url, params.wait_for, params.timeout_ms);
+  } catch (error: any) {
+    logError('New tab failed: %O', error);
+    throw new Error(`New tab failed: ${error.message}`);
+  }
+};
+
+const listTabsHandler = async (_params: unknown, browserController: BrowserController) => {
+  logTool('Handling listTabs');
+
+  return await browserController.listTabs();
+};
+
+const switchTabHandler = async (params: { tab_id: string }, browserController: BrowserController) => {
+  logTool('Handling switchTab: %s', params.tab_id);
+
+  try {
+    return await browserController.switchTab(params.tab_id);
+  } catch (error: any) {
+    logError('Switch tab failed: %O', error);
+    throw new Error(`Switch tab failed: ${error.message}`);
+  }
+};
+
+const closeTabHandler = async (params: TabParams, browserController: BrowserController) => {
+  logTool('Handling closeTab: %s', params.tab_id || 'active');
+
+  try {
+    return await browserController.closeTab(params.tab_id);
+  } catch (error: any) {
+    logError('Close tab failed: %O', error);
+    throw new Error(`Close tab failed: ${error.message}`);
+  }
+};
+
+const startRecordingHandler = async (params: RecordingStartParams, browserController: BrowserController) => {
+  logTool('Handling recording/start: %s', params.name || 'unnamed');
+
+  try {
+    return browserController.startRecording(params.name);
+  } catch (error: any) {
+    logError('Start recording failed: %O', error);
+    throw new Error(`Start recording failed: ${error.message}`);
+  }
+};
+
+const stopRecordingHandler = async (params: RecordingStopParams, browserController: BrowserController) => {
+  logTool('Handling recording/stop');
+
+  try {
+    return await browserController.stopRecording(params.path, params.script_path);
+  } catch (error: any) {
+    logError('Stop recording failed: %O', error);
+    throw new Error(`Stop recording failed: ${error.message}`);
+  }
+};
+
+const replayRecordingHandler = async (params: ReplayParams, browserController: BrowserController) => {
+  logTool('Handling recording/replay: %s', params.path || 'inline trace');
+
+  try {
+    let recording: Recording;
+    if (params.trace) {
+      validateRecording(params.trace);
+      recording = params.trace;
+    } else if (params.path) {
+      recording = await readRecording(params.path);
+    } else {
+      throw new Error('Either path or trace is required');
+    }
+    return await replayRecording(recording, browserController, params.stop_on_divergence ?? true);
+  } catch (error: any) {
+    logError('Replay failed: %O', error);
+    throw new Error(`Replay failed: ${error.message}`);
+  }
+};
+
+const batchHandler = async (params: BatchParams, browserController: BrowserController) => {
+  logTool('Handling batch of %d step(s)', params.steps?.length ?? 0);
+
+  try {
+    return await runBatch(params, browserController);
+  } catch (error: any) {
+    logError('Batch failed: %O', error);
+    throw new Error(`Batch failed: ${error.message}`);
+  }
+};
+
+// All tools exposed by the server
+const tools: ToolDefinition[] = [
+  {
+    name: "browser/navigate",
+    description: "Navigate to a URL",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to navigate to" },
+        wait_for: { type: "string", description: "Wait until this condition is met (load|domcontentloaded|networkidle0|networkidle2)", default: "load" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["url"]
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: navigateHandler
+  },
+  {
+    name: "browser/back",
+    description: "Navigate back in history",
+    inputSchema: {
+      type: "object",
+      properties: {
+        wait_for: { type: "string", description: "Wait until this condition is met (load|domcontentloaded|networkidle0|networkidle2)", default: "load" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: goBackHandler
+  },
+  {
+    name: "browser/forward",
+    description: "Navigate forward in history",
+    inputSchema: {
+      type: "object",
+      properties: {
+        wait_for: { type: "string", description: "Wait until this condition is met (load|domcontentloaded|networkidle0|networkidle2)", default: "load" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: goForwardHandler
+  },
+  {
+    name: "browser/scroll",
+    description: "Scroll the page in a specified direction",
+    inputSchema: {
+      type: "object",
+      properties: {
+        direction: { type: "string", description: "Direction to scroll (up|down|left|right)", enum: ["up", "down", "left", "right"] },
+        pixels: { type: "integer", description: "Number of pixels to scroll", default: 500 },
+        selector: { type: "string", description: "Selector to scroll within (optional)" },
+        ref: { type: "string", description: "Ref from accessibility/snapshot of the element to scroll within (optional)" },
+        wait_for: { type: "string", description: "Wait until this condition is met after scrolling (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds for wait_for", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["direction"]
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: scrollHandler
+  },
+  {
+    name: "browser/click",
+    description: "Click on an element, addressed by CSS selector or by a ref from accessibility/snapshot",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for the element to click" },
+        ref: { type: "string", description: "Ref of the element to click, as returned by accessibility/snapshot (e.g. s1e5)" },
+        wait_for: { type: "string", description: "Wait until this condition is met after clicking (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds for wait_for", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: clickHandler
+  },
+  {
+    name: "browser/type",
+    description: "Type text into an input field, addressed by CSS selector or by a ref from accessibility/snapshot",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for the input field" },
+        ref: { type: "string", description: "Ref of the input field, as returned by accessibility/snapshot (e.g. s1e5)" },
+        text: { type: "string", description: "Text to type" },
+        delay: { type: "integer", description: "Delay between keystrokes in milliseconds", default: 0 },
+        wait_for: { type: "string", description: "Wait until this condition is met after typing (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds for wait_for", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["text"]
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: typeHandler
+  },
+  {
+    name: "input/hover",
+    description: "Move the mouse over an element, e.g. to reveal a menu",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of the element to hover" },
+        ref: { type: "string", description: "Element ref from accessibility/snapshot (e.g. 's1e5'), instead of selector" },
+        wait_for: { type: "string", description: "Wait until this condition is met after the action (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: hoverHandler
+  },
+  {
+    name: "input/press_key",
+    description: "Press a key or chord such as 'Escape', 'Tab', 'Enter', 'ArrowDown' or 'Control+A'. Modifiers (Control, Shift, Alt, Meta) are joined with '+' before the key.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Key or chord to press" },
+        count: { type: "integer", description: "Number of times to press it", default: 1 },
+        selector: { type: "string", description: "CSS selector of an element to focus first (optional)" },
+        ref: { type: "string", description: "Ref of an element to focus first (optional)" },
+        wait_for: { type: "string", description: "Wait until this condition is met after the action (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["key"]
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: pressKeyHandler
+  },
+  {
+    name: "input/drag",
+    description: "Drag an element and drop it onto another one",
+    inputSchema: {
+      type: "object",
+      properties: {
+        source_selector: { type: "string", description: "CSS selector of the element to drag" },
+        source_ref: { type: "string", description: "Ref of the element to drag, instead of source_selector" },
+        target_selector: { type: "string", description: "CSS selector of the element to drop onto" },
+        target_ref: { type: "string", description: "Ref of the element to drop onto, instead of target_selector" },
+        wait_for: { type: "string", description: "Wait until this condition is met after the action (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: dragHandler
+  },
+  {
+    name: "input/mouse",
+    description: "Click, double-click, right-click, move, or press/release the mouse button at viewport coordinates or on the center of an element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: { type: "string", enum: ["click", "double_click", "right_click", "move", "down", "up"], description: "Mouse action" },
+        x: { type: "number", description: "Horizontal viewport coordinate in CSS pixels" },
+        y: { type: "number", description: "Vertical viewport coordinate in CSS pixels" },
+        selector: { type: "string", description: "CSS selector of the element to act on, instead of x and y" },
+        ref: { type: "string", description: "Ref of the element to act on, instead of x and y" },
+        modifiers: { type: "array", items: { type: "string" }, description: "Modifier keys to hold during the action, e.g. ['Shift'] (optional)" },
+        wait_for: { type: "string", description: "Wait until this condition is met after the action (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["action"]
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: mouseHandler
+  },
+  {
+    name: "wait/for",
+    description: "Wait until a selector is visible or hidden, text appears, the URL matches, the network is idle and/or a JS predicate is true. All given conditions must be met within timeout_ms.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector to wait for" },
+        state: { type: "string", enum: ["visible", "hidden", "attached", "detached"], description: "State the selector must reach", default: "visible" },
+        text: { type: "string", description: "Text that must appear in the page" },
+        url: { type: "string", description: "URL glob ('*' matches anything) or substring the page URL must match, including client-side route changes" },
+        url_regex: { type: "string", description: "Regular expression the page URL must match, instead of url" },
+        network_idle: { type: "boolean", description: "Wait until there are no network requests for idle_time_ms", default: false },
+        idle_time_ms: { type: "integer", description: "Quiet period for network_idle in milliseconds", default: 500 },
+        predicate: { type: "string", description: "JavaScript expression, or function body with a return statement, that must become truthy in the page" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        matched: {
+          type: "array",
+          items: { type: "object", properties: { condition: { type: "string" }, elapsed_ms: { type: "integer" } } }
+        },
+        elapsed_ms: { type: "integer" },
+        message: { type: "string" }
+      }
+    },
+    handler: waitForHandler
+  },
+  {
+    name: "form/fill",
+    description: "Fill several form fields in one call. Each field is handled by its element type: text inputs and textareas are cleared and typed into, selects pick options by value or label, checkboxes take true/false, radios take true or the value/label of the radio to pick in the group, date/time inputs take their value format, contenteditable elements are replaced. File inputs cannot be filled.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fields: {
+          type: "array",
+          description: "Fields to fill, in order",
+          items: {
+            type: "object",
+            properties: {
+              selector: { type: "string", description: "CSS selector of the field" },
+              ref: { type: "string", description: "Element ref from accessibility/snapshot (e.g. 's1e5')" },
+              value: {
+                description: "Value to fill in",
+                anyOf: [{ type: "string" }, { type: "number" }, { type: "boolean" }, { type: "array", items: { type: "string" } }]
+              }
+            },
+            required: ["value"]
+          }
+        },
+        submit: { type: "boolean", description: "Submit the form of the last field after filling", default: false },
+        submit_selector: { type: "string", description: "CSS selector of a submit button to click after filling (optional)" },
+        submit_ref: { type: "string", description: "Ref of a submit button to click after filling (optional)" },
+        wait_for: { type: "string", description: "After submitting, wait until this condition is met (none|load|domcontentloaded|networkidle0|networkidle2)", default: "none" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds for finding each field and for the wait", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["fields"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        fields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              target: { type: "string" },
+              kind: { type: "string" },
+              status: { type: "string", enum: ["filled", "unchanged", "error"] },
+              error: { type: "string" }
+            }
+          }
+        },
+        submitted: { type: "boolean" },
+        message: { type: "string" }
+      }
+    },
+    handler: formFillHandler
+  },
+  {
+    name: "content/extract_text",
+    description: "Extract text content from the current page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector to extract text from (defaults to body)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: { type: "object", properties: { text: { type: "string" } } },
+    handler: extractTextHandler
+  },
+  {
+    name: "content/extract_hyperlinks",
+    description: "Extract hyperlinks from the current page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector to extract hyperlinks from (defaults to body)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        hyperlinks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              href: { type: "string" },
+              text: { type: "string" }
+            }
+          }
+        }
+      }
+    },
+    handler: extractHyperlinksHandler
+  },
+  {
+    name: "content/extract_tables",
+    description: "Extract tables from the current page as JSON rows keyed by column header. Row and column spans are expanded so every row has a value for every column.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of a table, or of an element whose tables to extract (defaults to all tables)" },
+        ref: { type: "string", description: "Ref of a table or containing element, as returned by accessibility/snapshot (e.g. s1e5)" },
+        csv: { type: "boolean", description: "Also return each table as CSV", default: false },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tables: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "integer" },
+              caption: { type: "string" },
+              headers: { type: "array", items: { type: "string" } },
+              rows: { type: "array", items: { type: "object" } },
+              row_count: { type: "integer" },
+              csv: { type: "string" }
+            }
+          }
+        },
+        message: { type: "string" }
+      }
+    },
+    handler: extractTablesHandler
+  },
+  {
+    name: "content/extract_metadata",
+    description: "Extract the title, canonical URL, meta description, OpenGraph and Twitter tags, JSON-LD blocks and microdata items of the current page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        url: { type: "string" },
+        canonical_url: { type: ["string", "null"] },
+        description: { type: ["string", "null"] },
+        language: { type: ["string", "null"] },
+        open_graph: { type: "object" },
+        twitter: { type: "object" },
+        json_ld: { type: "array" },
+        microdata: { type: "array" }
+      }
+    },
+    handler: extractMetadataHandler
+  },
+  {
+    name: "content/extract_structured",
+    description: "Extract typed JSON from the current page with a declarative spec of selectors, attributes and transforms, and validate it against a JSON Schema. " +
+      "Example: { \"selector\": \".product\", \"list\": true, \"fields\": { \"name\": \"h2\", \"price\": { \"selector\": \".price\", \"type\": \"number\" }, \"url\": \"a@href\" } }",
+    inputSchema: {
+      type: "object",
+      properties: {
+        spec: {
+          description: "Field spec: a selector string ('a@href' reads an attribute) or an object with selector, attribute ('text', 'html' or an attribute name), " +
+            "type (string|number|integer|boolean), transforms ('trim', 'lowercase', 'uppercase', {regex, group}, {replace, with}), list, limit, default, and fields for nested objects",
+          oneOf: [{ type: "string" }, { type: "object" }]
+        },
+        json_schema: { type: "object", description: "JSON Schema the extracted data must match (optional)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["spec"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        data: {},
+        valid: { type: "boolean" },
+        errors: {
+          type: "array",
+          items: { type: "object", properties: { path: { type: "string" }, message: { type: "string" } } }
+        },
+        message: { type: "string" }
+      }
+    },
+    handler: extractStructuredHandler
+  },
+  {
+    name: "content/extract_markdown",
+    description: "Extract the main content of the page as Markdown, leaving out navigation, headers, footers and banners. Keeps headings, lists, links, code blocks, tables and optionally images. Long content is returned in pages.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of the element to convert (defaults to the detected main content)" },
+        include_images: { type: "boolean", description: "Include images as Markdown images", default: true },
+        offset: { type: "integer", description: "Character offset to start at; pass next_offset of the previous call to read the next page", default: 0 },
+        max_chars: { type: "integer", description: "Maximum number of characters to return", default: 20000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        url: { type: "string" },
+        markdown: { type: "string" },
+        total_chars: { type: "integer" },
+        offset: { type: "integer" },
+        next_offset: { type: ["integer", "null"] },
+        has_more: { type: "boolean" }
+      }
+    },
+    handler: extractMarkdownHandler
+  },
+  {
+    name: "emulate/set",
+    description: "Emulate a device, viewport, locale, timezone, geolocation, CSS media type, color scheme, reduced motion, CPU or network conditions in a tab. Settings that are left out keep their current value.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        device: { type: "string", description: "Device name from Puppeteer's known devices, e.g. 'iPhone 13', 'Pixel 5' or 'iPad Pro landscape'; sets viewport, touch and user agent" },
+        viewport: {
+          type: "object",
+          description: "Viewport to set on top of the device, if any",
+          properties: {
+            width: { type: "integer" },
+            height: { type: "integer" },
+            device_scale_factor: { type: "number" },
+            is_mobile: { type: "boolean" },
+            has_touch: { type: "boolean", description: "Emulate a touch screen" },
+            is_landscape: { type: "boolean" }
+          }
+        },
+        user_agent: { type: "string", description: "User agent string" },
+        locale: { type: "string", description: "Locale for Intl formatting and Accept-Language, e.g. 'de-DE'" },
+        timezone: { type: "string", description: "IANA timezone, e.g. 'America/New_York'" },
+        geolocation: {
+          type: "object",
+          description: "Position to report; also grants the geolocation permission to the page's current origin",
+          properties: {
+            latitude: { type: "number" },
+            longitude: { type: "number" },
+            accuracy: { type: "number", description: "Accuracy in meters" }
+          },
+          required: ["latitude", "longitude"]
+        },
+        media_type: { type: "string", enum: ["screen", "print"], description: "CSS media type" },
+        color_scheme: { type: "string", enum: ["light", "dark", "no-preference"], description: "prefers-color-scheme media feature" },
+        reduced_motion: { type: "string", enum: ["reduce", "no-preference"], description: "prefers-reduced-motion media feature" },
+        cpu_throttling: { type: "number", description: "CPU slowdown factor, e.g. 4 for a mid-range phone; 1 turns throttling off" },
+        network: { type: "string", enum: NETWORK_PRESETS, description: "Network conditions; 'none' turns throttling and offline mode off" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string" },
+        emulation: { type: "object" },
+        message: { type: "string" }
+      }
+    },
+    handler: emulateHandler
+  },
+  {
+    name: "emulate/reset",
+    description: "Undo all emulation settings of a tab and restore the default viewport and user agent",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string" },
+        reset: { type: "array", items: { type: "string" } },
+        message: { type: "string" }
+      }
+    },
+    handler: resetEmulationHandler
+  },
+  {
+    name: "screenshot/take",
+    description: "Take a screenshot of the current page. The image is returned and kept as a screenshot:// resource until evicted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path to also save the screenshot to (optional)" },
+        fullPage: { type: "boolean", description: "Whether to take a screenshot of the full page or just the viewport", default: false },
+        quality: { type: "integer", description: "Quality of the screenshot (0-100, only for JPEG)", default: 80 },
+        type: { type: "string", description: "Image type (jpeg|png)", enum: ["jpeg", "png"], default: "png" },
+        selector: { type: "string", description: "CSS selector to take screenshot of (optional)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        uri: { type: "string" },
+        path: { type: "string" },
+        message: { type: "string" }
+      }
+    },
+    handler: takeScreenshotHandler
+  },
+  {
+    name: "screenshot/compare",
+    description: "Compare a screenshot of the page or an element with a named baseline image and return the mismatch and a diff image with changed pixels in red. The first run for a name saves the baseline.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Baseline name, used as file name (letters, digits, '_', '-' and '.')" },
+        baseline_dir: { type: "string", description: "Directory of the baseline images, relative to the baseline root (SCREENSHOT_BASELINE_ROOT, defaults to 'baselines' in the working directory)" },
+        selector: { type: "string", description: "CSS selector of an element to capture instead of the viewport" },
+        fullPage: { type: "boolean", description: "Capture the full page instead of the viewport", default: false },
+        threshold: { type: "number", description: "Color difference (0-1) above which a pixel counts as changed", default: 0.1 },
+        max_diff_percentage: { type: "number", description: "Percentage of changed pixels still reported as a match", default: 0 },
+        ignore_regions: {
+          type: "array",
+          description: "Areas to leave out of the comparison, as rectangles in screenshot pixels or CSS selectors",
+          items: {
+            type: "object",
+            properties: {
+              x: { type: "number" },
+              y: { type: "number" },
+              width: { type: "number" },
+              height: { type: "number" },
+              selector: { type: "string" }
+            }
+          }
+        },
+        update_baseline: { type: "boolean", description: "Replace the baseline with the new screenshot instead of comparing", default: false },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["name"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["match", "mismatch", "baseline_created", "baseline_updated"] },
+        mismatch_percentage: { type: "number" },
+        diff_pixels: { type: "integer" },
+        total_pixels: { type: "integer" },
+        size_changed: { type: "boolean" },
+        baseline_path: { type: "string" },
+        diff_path: { type: "string" },
+        uri: { type: "string" },
+        diff_uri: { type: "string" },
+        message: { type: "string" }
+      }
+    },
+    handler: compareScreenshotHandler
+  },
+  {
+    name: "page/pdf",
+    description: "Render the current page as a PDF",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path to save the PDF to (defaults to a file in the temp directory)" },
+        format: { type: "string", description: "Paper format", enum: ["letter", "legal", "tabloid", "ledger", "a0", "a1", "a2", "a3", "a4", "a5", "a6"], default: "a4" },
+        landscape: { type: "boolean", description: "Use landscape orientation", default: false },
+        margin: {
+          type: "object",
+          description: "Page margins with CSS units, e.g. '1cm' or '20px'",
+          properties: {
+            top: { type: "string" },
+            right: { type: "string" },
+            bottom: { type: "string" },
+            left: { type: "string" }
+          }
+        },
+        print_background: { type: "boolean", description: "Print background colors and images", default: true },
+        page_ranges: { type: "string", description: "Pages to print, e.g. '1-3, 5' (defaults to all)" },
+        header_template: { type: "string", description: "HTML template for the header; elements with class date, title, url, pageNumber or totalPages get the matching value" },
+        footer_template: { type: "string", description: "HTML template for the footer, like header_template" },
+        emulate_media: { type: "string", enum: ["screen", "print"], description: "CSS media type to render with (defaults to print)" },
+        scale: { type: "number", description: "Scale of the rendering, between 0.1 and 2", default: 1 },
+        return_base64: { type: "boolean", description: "Whether to return the PDF as a base64 string", default: false },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        base64: { type: "string" },
+        message: { type: "string" }
+      }
+    },
+    handler: pdfHandler
+  },
+  {
+    name: "script/execute",
+    description: "Executes JavaScript code in the context of the current page. Depending on the server's script policy, scripts run in the page, run in an isolated world that cannot change the DOM (read-only), or are rejected. Results are converted to JSON: DOM nodes are described, Maps and Sets are tagged objects, and cycles and oversized or deeply nested values are cut off.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        code: { type: "string", description: "The JavaScript code to execute." },
+        args: { type: "array", description: "Optional arguments to pass to the script.", default: [] },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds.", default: 30000 },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["code"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        result: {},
+        truncated: { type: "boolean" },
+        mode: { type: "string", enum: ["read-only", "full"] }
+      }
+    },
+    handler: executeScriptHandler
+  },
+  {
+    name: "accessibility/snapshot",
+    description: "Generates an accessibility snapshot (tree) of the current page content. Iframes are nested under their iframe node with their own ref prefix (s2, s3, ...).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        root_selector: { type: "string", description: "CSS selector of the element whose subtree to snapshot (optional)" },
+        root_ref: { type: "string", description: "Ref of the element whose subtree to snapshot (optional)" },
+        max_depth: { type: "integer", description: "Maximum depth of the returned tree; deeper nodes are counted but not listed (optional)" },
+        roles: { type: "array", items: { type: "string" }, description: "Only keep nodes with these roles; 'interactive' selects all interactive roles (optional)" },
+        interesting_only: { type: "boolean", description: "Prune unnamed grouping nodes and redundant text", default: true },
+        max_chars: { type: "integer", description: "Character budget; the snapshot is cut at a line boundary with a marker saying what was elided (optional)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object" },
+    handler: accessibilitySnapshotHandler
+  },
+  {
+    name: "accessibility/diff",
+    description: "Returns only the accessibility nodes that were added, removed or changed since the previous accessibility/snapshot or accessibility/diff of the page. Refs of unchanged nodes stay the same.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object" },
+    handler: accessibilityDiffHandler
+  },
+  {
+    name: "network/requests",
+    description: "List the network requests captured for the page, oldest first, with method, URL, status, resource type, timing and headers",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url_pattern: { type: "string", description: "Only requests whose URL contains this string, or matches it as a glob when it contains '*' (optional)" },
+        resource_types: { type: "array", items: { type: "string" }, description: "Only requests of these resource types, e.g. document, xhr, fetch, script, stylesheet, image (optional)" },
+        status_min: { type: "integer", description: "Only responses with at least this status code (optional)" },
+        status_max: { type: "integer", description: "Only responses with at most this status code (optional)" },
+        failed_only: { type: "boolean", description: "Only requests that failed or got a status of 400 or above", default: false },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" },
+        include_headers: { type: "boolean", description: "Include request and response headers", default: true },
+        include_body: { type: "boolean", description: "Include the request post data and a preview of text response bodies of documents, XHR and fetch requests", default: false },
+        limit: { type: "integer", description: "Return at most this many of the most recent matching requests", default: 100 }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        requests: { type: "array", items: { type: "object" } },
+        total: { type: "integer" },
+        returned: { type: "integer" },
+        dropped: { type: "integer" }
+      }
+    },
+    handler: networkRequestsHandler
+  },
+  {
+    name: "network/export_har",
+    description: "Write the network requests captured for the page to a HAR 1.2 file",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path to save the HAR to (defaults to a file in the temp directory)" },
+        url_pattern: { type: "string", description: "Only requests whose URL contains this string, or matches it as a glob when it contains '*' (optional)" },
+        resource_types: { type: "array", items: { type: "string" }, description: "Only requests of these resource types, e.g. document, xhr, fetch, script, stylesheet, image (optional)" },
+        status_min: { type: "integer", description: "Only responses with at least this status code (optional)" },
+        status_max: { type: "integer", description: "Only responses with at most this status code (optional)" },
+        failed_only: { type: "boolean", description: "Only requests that failed or got a status of 400 or above", default: false },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        entries: { type: "integer" },
+        message: { type: "string" }
+      }
+    },
+    handler: exportHarHandler
+  },
+  {
+    name: "network/route",
+    description: "Intercept the page's requests matching a URL glob or regex: abort them, continue them with a modified method, headers or body, or fulfill them with inline content or a local fixture file. Routes survive navigations; the most recently added matching route wins.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL glob ('*' matches anything); without '*' the URL only has to contain it" },
+        url_regex: { type: "string", description: "Regular expression tested against the URL, instead of url" },
+        method: { type: "string", description: "Only intercept requests with this HTTP method (optional)" },
+        action: { type: "string", enum: ["abort", "continue", "fulfill"], description: "What to do with matching requests" },
+        abort_reason: { type: "string", description: "Network error for abort, e.g. failed, blockedbyclient, connectionrefused, timedout", default: "failed" },
+        overrides: {
+          type: "object",
+          description: "Changes to the request for continue",
+          properties: {
+            method: { type: "string" },
+            headers: { type: "object", additionalProperties: { type: "string" }, description: "Headers to add or replace" },
+            post_data: { type: "string" }
+          }
+        },
+        response: {
+          type: "object",
+          description: "Response for fulfill",
+          properties: {
+            status: { type: "integer", default: 200 },
+            headers: { type: "object", additionalProperties: { type: "string" } },
+            content_type: { type: "string", description: "Defaults to a type derived from the fixture file extension" },
+            body: { type: "string", description: "Inline response body" },
+            path: { type: "string", description: "Fixture file to serve as the body, relative to the fixture root (ROUTE_FIXTURE_ROOT, defaults to 'fixtures' in the working directory); read on every request" }
+          }
+        },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["action"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        route_id: { type: "string" },
+        message: { type: "string" }
+      }
+    },
+    handler: routeHandler
+  },
+  {
+    name: "network/unroute",
+    description: "Remove an interception route, or all routes of the page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        route_id: { type: "string", description: "ID of the route to remove (removes all routes when omitted)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        removed: { type: "array", items: { type: "string" } },
+        message: { type: "string" }
+      }
+    },
+    handler: unrouteHandler
+  },
+  {
+    name: "network/routes",
+    description: "List the interception routes of the page with the number of requests each one handled",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { routes: { type: "array", items: { type: "object" } } } },
+    handler: routesHandler
+  },
+  {
+    name: "console/get_logs",
+    description: "Get console messages, uncaught page errors and failed requests logged by the page, oldest first. Pass the returned next_cursor on the next call to only get what was logged since.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        levels: { type: "array", items: { type: "string", enum: LOG_LEVELS }, description: "Only entries with these levels (optional)" },
+        text: { type: "string", description: "Only entries whose text contains this string, case-insensitive (optional)" },
+        cursor: { type: "integer", description: "Only entries logged after this cursor, as returned in next_cursor", default: 0 },
+        limit: { type: "integer", description: "Maximum number of entries to return", default: 100 },
+        all_tabs: { type: "boolean", description: "Read the logs of all open tabs instead of one", default: false },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        entries: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              seq: { type: "integer" },
+              timestamp: { type: "string" },
+              level: { type: "string" },
+              source: { type: "string" },
+              text: { type: "string" },
+              location: { type: "object" },
+              page_url: { type: "string" },
+              tab_id: { type: "string" }
+            }
+          }
+        },
+        next_cursor: { type: "integer" },
+        has_more: { type: "boolean" },
+        dropped: { type: "integer" }
+      }
+    },
+    handler: getLogsHandler
+  },
+  {
+    name: "storage/save_state",
+    description: "Save the session's cookies, the localStorage of every open origin and the sessionStorage of the page to a JSON file",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path to save the state to (defaults to a file in the temp directory)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        cookies: { type: "integer" },
+        origins: { type: "array", items: { type: "string" } },
+        message: { type: "string" }
+      }
+    },
+    handler: saveStateHandler
+  },
+  {
+    name: "storage/load_state",
+    description: "Load cookies, localStorage and sessionStorage from a JSON file written by storage/save_state (Playwright storage state files work too)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Path of the state file" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["path"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        cookies: { type: "integer" },
+        origins: { type: "array", items: { type: "string" } },
+        message: { type: "string" }
+      }
+    },
+    handler: loadStateHandler
+  },
+  {
+    name: "storage/get_cookies",
+    description: "Get the cookies of the session",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urls: { type: "array", items: { type: "string" }, description: "Only cookies that would be sent to these URLs (optional)" },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { cookies: { type: "array", items: { type: "object" } } } },
+    handler: getCookiesHandler
+  },
+  {
+    name: "storage/set_cookies",
+    description: "Set cookies in the session. Cookies without url or domain are set for the page's current URL.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cookies: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              value: { type: "string" },
+              url: { type: "string", description: "URL the cookie belongs to; used to derive domain and path" },
+              domain: { type: "string" },
+              path: { type: "string" },
+              expires: { type: "number", description: "Expiry as Unix time in seconds; omit for a session cookie" },
+              httpOnly: { type: "boolean" },
+              secure: { type: "boolean" },
+              sameSite: { type: "string", enum: ["Strict", "Lax", "None"] }
+            },
+            required: ["name", "value"]
+          }
+        },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      },
+      required: ["cookies"]
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: setCookiesHandler
+  },
+  {
+    name: "storage/clear",
+    description: "Clear the session's cookies and the localStorage and sessionStorage of the origins open in its tabs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cookies: { type: "boolean", description: "Clear cookies", default: true },
+        local_storage: { type: "boolean", description: "Clear localStorage", default: true },
+        session_storage: { type: "boolean", description: "Clear sessionStorage", default: true },
+        tab_id: { type: "string", description: "ID of the tab to operate on (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" } } },
+    handler: clearStorageHandler
+  },
+  {
+    name: "browser/new_tab",
+    description: `Open a new tab and make it the active one (at most ${MAX_PAGES} tabs)`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to open in the new tab (optional)" },
+        wait_for: { type: "string", description: "Wait until this condition is met (load|domcontentloaded|networkidle0|networkidle2)", default: "load" },
+        timeout_ms: { type: "integer", description: "Timeout in milliseconds", default: 30000 }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string" },
+        url: { type: "string" },
+        title: { type: "string" },
+        active: { type: "boolean" }
+      }
+    },
+    handler: newTabHandler
+  },
+  {
+    name: "browser/list_tabs",
+    description: "List all open tabs",
+    inputSchema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tabs: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              tab_id: { type: "string" },
+              url: { type: "string" },
+              title: { type: "string" },
+              active: { type: "boolean" }
+            }
+          }
+        },
+        active_tab_id: { type: ["string", "null"] },
+        max_tabs: { type: "integer" }
+      }
+    },
+    handler: listTabsHandler
+  },
+  {
+    name: "browser/switch_tab",
+    description: "Make a tab the active one",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "ID of the tab to activate" }
+      },
+      required: ["tab_id"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string" },
+        url: { type: "string" },
+        title: { type: "string" },
+        active: { type: "boolean" }
+      }
+    },
+    handler: switchTabHandler
+  },
+  {
+    name: "browser/close_tab",
+    description: "Close a tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "ID of the tab to close (defaults to the active tab)" }
+      }
+    },
+    outputSchema: { type: "object", properties: { message: { type: "string" }, active_tab_id: { type: ["string", "null"] } } },
+    handler: closeTabHandler
+  },
+  {
+    name: "recording/start",
+    description: "Start recording the tool calls of this session with their resolved selectors, timing and outcome",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Name of the recording (defaults to recording-<timestamp>)" }
+      },
+      required: []
+    },
+    outputSchema: { type: "object", properties: { name: { type: "string" }, message: { type: "string" } } },
+    handler: startRecordingHandler
+  },
+  {
+    name: "recording/stop",
+    description: "Stop recording and save the tool calls as a JSON trace for recording/replay and as a standalone Puppeteer script",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path for the JSON trace (defaults to a file in the temp directory)" },
+        script_path: { type: "string", description: "File path for the Puppeteer script (defaults to the trace path with the .mjs extension)" }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        steps: { type: "integer" },
+        failed_steps: { type: "integer" },
+        trace_path: { type: "string" },
+        script_path: { type: "string" },
+        message: { type: "string" }
+      }
+    },
+    handler: stopRecordingHandler
+  },
+  {
+    name: "recording/replay",
+    description: "Re-run the tool calls of a recorded trace and report the first step whose outcome or resulting URL differs from the recording",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Path of a trace file written by recording/stop" },
+        trace: { type: "object", description: "Trace to replay, instead of a file" },
+        stop_on_divergence: { type: "boolean", description: "Stop at the first step that diverges", default: true }
+      },
+      required: []
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        steps: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "integer" },
+              tool: { type: "string" },
+              status: { type: "string", enum: ["ok", "diverged", "skipped", "not_run"] },
+              duration_ms: { type: "integer" },
+              reason: { type: "string" }
+            }
+          }
+        },
+        diverged_at: { type: ["integer", "null"] },
+        message: { type: "string" }
+      }
+    },
+    handler: replayRecordingHandler
+  },
+  {
+    name: "browser/batch",
+    description: "Run a sequence of tool calls on the same tab in one request, optionally checking the page after each step",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "array",
+          description: "Tool calls to run in order",
+          items: {
+            type: "object",
+            properties: {
+              tool: { type: "string", description: "Name of the tool, e.g. browser/click" },
+              params: { type: "object", description: "Parameters of the tool" },
+              assert: {
+                type: "object",
+                description: "Conditions the page must meet after the step",
+                properties: {
+                  selector: { type: "string", description: "An element matching this selector exists" },
+                  text_contains: { type: "string", description: "The visible text of the page contains this text" }
+                }
+              }
+            },
+            required: ["tool"]
+          },
+          minItems: 1
+        },
+        on_error: { type: "string", enum: ["stop", "continue"], description: "Skip the remaining steps after a failed step or assertion, or continue with them", default: "stop" },
+        tab_id: { type: "string", description: "ID of the tab to run the steps on (defaults to the active tab); steps may still set their own tab_id" }
+      },
+      required: ["steps"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "integer" },
+              tool: { type: "string" },
+              status: { type: "string", enum: ["success", "error", "assertion_failed", "skipped"] },
+              duration_ms: { type: "integer" },
+              result: {},
+              error: { type: "string" },
+              error_code: { type: "string" },
+              blocked_navigation: {
+                type: "object",
+                properties: { url: { type: "string" }, reason: { type: "string" }, tab_id: { type: ["string", "null"] } }
+              },
+              assertion_failures: { type: "array", items: { type: "string" } }
+            }
+          }
+        },
+        succeeded: { type: "integer" },
+        failed: { type: "integer" },
+        skipped: { type: "integer" },
+        duration_ms: { type: "integer" },
+        message: { type: "string" }
+      }
+    },
+    handler: batchHandler
+  }
+];
+
+/**
+ * Run a tool and add the call to the session's recording, if one is running
+ * @param tool Tool to run
+ * @param params Tool parameters
+ * @param browserController Browser controller of the session
+ * @returns Result of the tool handler
+ */
+async function runTool(tool: ToolDefinition, params: Record<string, unknown>, browserController: BrowserController): Promise<unknown> {
+  const recorder = browserController.recorder;
+  // The steps of a batch are recorded one by one instead of the batch
+  if (!recorder.active || tool.name.startsWith('recording/') || tool.name === 'browser/batch') {
+    return callHandler(tool, params, browserController);
+  }
+
+  // Refs are resolved before the call because the action may remove the element
+  const resolvedSelectors = await browserController.resolveRefSelectors(params);
+  const startedAt = Date.now();
+  const record = (outcome: 'success' | 'error', error?: string) => {
+    const tab = browserController.getTab();
+    recorder.add({
+      tool: tool.name,
+      params,
+      resolved_selectors: resolvedSelectors,
+      duration_ms: Date.now() - startedAt,
+      outcome,
+      error,
+      tab_id: tab?.id ?? null,
+      url: tab?.page.url() ?? null
+    }, startedAt);
+  };
+
+  try {
+    const result = await callHandler(tool, params, browserController);
+    record('success');
+    return result;
+  } catch (error: any) {
+    record('error', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Call a tool handler. A call that caused a main-frame navigation blocked by the domain policy
+ * fails with a navigation_blocked error, even if the handler itself succeeded.
+ * @param tool Tool to run
+ * @param params Tool parameters
+ * @param browserController Browser controller of the session
+ * @returns Result of the tool handler
+ */
+async function callHandler(tool: ToolDefinition, params: Record<string, unknown>, browserController: BrowserController): Promise<unknown> {
+  const guard = browserController.domainGuard;
+  // Calls on other tabs may run at the same time, so only navigations of the tab this call acted on
+  // count. The tab is looked up again afterwards, because opening or switching tabs changes it.
+  const tabId = typeof params.tab_id === 'string' ? params.tab_id : undefined;
+  const initialPage = browserController.getTab(tabId)?.page;
+  const takeBlocked = () => [...new Set([initialPage, browserController.getTab(tabId)?.page])]
+    .flatMap(page => page ? guard.takeBlocked(page) : []);
+  // Navigations blocked between calls, such as scripted redirects, belong to no call
+  takeBlocked();
+
+  let result: unknown;
+  try {
+    result = await tool.handler(params, browserController);
+  } catch (error) {
+    const [blocked] = takeBlocked();
+    throw blocked ? new NavigationBlockedError(blocked) : error;
+  }
+  const [blocked] = takeBlocked();
+  if (blocked) {
+    throw new NavigationBlockedError(blocked);
+  }
+  return result;
+}
+
+/**
+ * Run the steps of a batch in order on one tab
+ * @param params Steps, error handling and tab
+ * @param browserController Browser controller of the session
+ * @returns Result of every step with its duration
+ */
+async function runBatch(params: BatchParams, browserController: BrowserController) {
+  if (!Array.isArray(params.steps) || params.steps.length === 0) {
+    throw new Error('steps must contain at least one step');
+  }
+  // Unknown tools are reported before anything runs
+  const stepTools = params.steps.map((step, index) => {
+    const tool = tools.find(t => t.name === step.tool);
+    if (!tool) {
+      throw new Error(`Step ${index + 1}: unknown tool "${step.tool}"`);
+    }
+    if (tool.name === 'browser/batch') {
+      throw new Error(`Step ${index + 1}: batches cannot be nested`);
+    }
+    return tool;
+  });
+
+  const tabId = params.tab_id ?? browserController.getTab()?.id;
+  const stopOnError = (params.on_error ?? 'stop') === 'stop';
+  const started = Date.now();
+  const results: BatchStepResult[] = [];
+  let stopped = false;
+
+  for (const [index, step] of params.steps.entries()) {
+    const tool = stepTools[index];
+    if (stopped) {
+      results.push({ index, tool: tool.name, status: 'skipped' });
+      continue;
+    }
+
+    const stepParams = { ...step.params };
+    if (tabId && stepParams.tab_id === undefined && tool.inputSchema.properties?.tab_id) {
+      stepParams.tab_id = tabId;
+    }
+    const stepStarted = Date.now();
+    let stepResult: BatchStepResult;
+    try {
+      let result = await runTool(tool, stepParams, browserController);
+      if (isImageResult(result)) {
+        // Images stay available as resources and would bloat the combined result
+        const { image, ...rest } = result;
+        result = rest;
+      }
+      stepResult = { index, tool: tool.name, status: 'success', result };
+
+      if (step.assert) {
+        const failures = await browserController.checkAssertion(
+          { selector: step.assert.selector, textContains: step.assert.text_contains },
+          typeof stepParams.tab_id === 'string' ? stepParams.tab_id : undefined
+        );
+        if (failures.length > 0) {
+          stepResult = { ...stepResult, status: 'assertion_failed', assertion_failures: failures };
+        }
+      }
+    } catch (error: any) {
+      stepResult = { index, tool: tool.name, status: 'error', error: error.message };
+      if (error instanceof NavigationBlockedError) {
+        const blockedTabId = typeof stepParams.tab_id === 'string' ? stepParams.tab_id : browserController.getTab()?.id ?? null;
+        stepResult.error_code = error.code;
+        stepResult.blocked_navigation = { url: error.url, reason: error.reason, tab_id: blockedTabId };
+      }
+    }
+
+    results.push({ ...stepResult, duration_ms: Date.now() - stepStarted });
+    if (stepResult.status !== 'success' && stopOnError) {
+      stopped = true;
+    }
+  }
+
+  const count = (status: BatchStepResult['status']) => results.filter(result => result.status === status).length;
+  const failedStep = results.find(result => result.status === 'error' || result.status === 'assertion_failed');
+  const duration = Date.now() - started;
+  return {
+    steps: results,
+    succeeded: count('success'),
+    failed: count('error') + count('assertion_failed'),
+    skipped: count('skipped'),
+    duration_ms: duration,
+    message: failedStep
+      ? `Step ${failedStep.index + 1} (${failedStep.tool}) ${failedStep.status === 'error' ? `failed: ${failedStep.error}` : `assertion failed: ${failedStep.assertion_failures?.join('; ')}`}`
+        + `; ${count('success')} of ${results.length} step(s) succeeded in ${duration}ms`
+      : `Ran ${results.length} step(s) in ${duration}ms`
+  };
+}
+
+/**
+ * Re-run the steps of a recording. A step diverges when it fails where the recording succeeded
+ * (or the other way round) or when it ends on a different URL.
+ * @param recording Recording to replay
+ * @param browserController Browser controller of the session
+ * @param stopOnDivergence Skip the remaining steps after the first divergence
+ * @returns Result of every step and the index of the first divergence
+ */
+async function replayRecording(recording: Recording, browserController: BrowserController, stopOnDivergence: boolean) {
+  // Tab IDs of the recording are mapped to the tabs opened during the replay
+  const tabIds = new Map<string, string>();
+  const initialTab = browserController.getTab();
+  if (recording.initial_tab_id && initialTab) {
+    tabIds.set(recording.initial_tab_id, initialTab.id);
+  }
+
+  const results: ReplayStepResult[] = [];
+  let divergedAt: number | null = null;
+  for (const step of recording.steps) {
+    const tool = tools.find(t => t.name === step.tool);
+    if (!tool || tool.name.startsWith('recording/')) {
+      results.push({ index: step.index, tool: step.tool, status: 'skipped', reason: tool ? 'Recording tools are not replayed' : 'Unknown tool' });
+      continue;
+    }
+    if (divergedAt !== null && stopOnDivergence) {
+      results.push({ index: step.index, tool: step.tool, status: 'not_run' });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    let error: string | undefined;
+    try {
+      await runTool(tool, toReplayParams(step, tabIds), browserController);
+    } catch (e: any) {
+      error = e.message;
+    }
+
+    const tab = browserController.getTab();
+    if (step.tab_id && tab) {
+      tabIds.set(step.tab_id, tab.id);
+    }
+    const url = tab?.page.url() ?? null;
+    const reasons: string[] = [];
+    if (error && step.outcome === 'success') {
+      reasons.push(`Failed: ${error}`);
+    } else if (!error && step.outcome === 'error') {
+      reasons.push(`Succeeded, but failed during recording: ${step.error}`);
+    }
+    if (step.url && url && url !== step.url) {
+      reasons.push(`Ended at ${url} instead of ${step.url}`);
+    }
+
+    if (reasons.length > 0 && divergedAt === null) {
+      divergedAt = step.index;
+    }
+    results.push({
+      index: step.index,
+      tool: step.tool,
+      status: reasons.length > 0 ? 'diverged' : 'ok',
+      duration_ms: Date.now() - startedAt,
+      ...(reasons.length > 0 && { reason: reasons.join('; ') })
+    });
+  }
+
+  const diverged = results.find(result => result.status === 'diverged');
+  return {
+    name: recording.name,
+    steps: results,
+    diverged_at: divergedAt,
+    message: diverged
+      ? `Replay diverged at step ${diverged.index + 1} (${diverged.tool}): ${diverged.reason}`
+      : `Replayed ${results.filter(result => result.status === 'ok').length} step(s) without divergence`
+  };
+}
+
+/**
+ * Convert a tool handler result into MCP content
+ * @param result Value returned by a tool handler
+ * @returns MCP tool result
+ */
+function toToolResult(result: unknown): CallToolResult {
+  if (isImageResult(result)) {
+    const { image, ...rest } = result;
+    return {
+      content: [
+        { type: "text", text: JSON.stringify(rest, null, 2) },
+        { type: "image", data: image.data, mimeType: image.mimeType }
+      ]
+    };
+  }
+  const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+  return { content: [{ type: "text", text: text ?? '' }] };
+}
+
+function isImageResult(result: unknown): result is { image: { data: string; mimeType: string } } {
+  const image = (result as { image?: { data?: unknown; mimeType?: unknown } } | null)?.image;
+  return typeof image?.data === 'string' && typeof image.mimeType === 'string';
+}
+
+/**
+ * Create an MCP server instance that exposes all tools.
+ * Each connected session needs its own instance.
+ * @param browserController Browser controller of the session that tool calls operate on
+ * @returns MCP server
+ */
+export function createMcpServer(browserController: BrowserController): Server {
+  const server = new Server(SERVER_INFO, { capabilities: { tools: {}, resources: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find(t => t.name === request.params.name);
+    if (!tool) {
+      return { isError: true, content: [{ type: "text", text: `Unknown tool: ${request.params.name}` }] };
+    }
+
+    try {
+      return toToolResult(await runTool(tool, request.params.arguments ?? {}, browserController));
+    } catch (error: any) {
+      if (error instanceof NavigationBlockedError) {
+        return { isError: true, content: [{ type: "text", text: JSON.stringify(error, null, 2) }] };
+      }
+      return { isError: true, content: [{ type: "text", text: error.message }] };
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: browserController.screenshots.list().map(screenshot => ({
+      uri: screenshot.uri,
+      name: screenshot.id,
+      mimeType: screenshot.mimeType,
+      description: `Screenshot of ${screenshot.pageUrl} taken at ${screenshot.createdAt}`
+    }))
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const screenshot = browserController.screenshots.get(request.params.uri);
+    if (!screenshot) {
+      throw new Error(`Resource not found: ${request.params.uri}. It may have been evicted; take the screenshot again.`);
+    }
+    return { contents: [{ uri: screenshot.uri, mimeType: screenshot.mimeType, blob: screenshot.data }] };
+  });
+
+  return server;
+}
+
+/**
+ * Start the MCP server on the given transport
+ * @param options Transport, address, browser and session options
+ */
+export async function startMcpServer(options: McpServerOptions = {}): Promise<void> {
+  const transport = options.transport ?? 'sse';
+  const limits: SessionLimits = {
+    maxSessions: options.maxSessions ?? DEFAULT_MAX_SESSIONS,
+    idleTimeoutMs: options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT
+  };
+
+  // Read once, so that an invalid policy stops the server instead of failing every session
+  const scriptPolicy = getScriptPolicy();
+
+  // Browser shared by all sessions; every session gets its own incognito context in it
+  const pool = new BrowserPool({ browserWSEndpoint: options.browserWSEndpoint });
+  const sessions = new Map<string, Session>();
+  let stdioController: BrowserController | null = null;
+
+  // Graceful shutdown handler
+  async function gracefulShutdown(signal: string) {
+    logServer(`Received ${signal}. Shutting down gracefully...`);
+    for (const { server, browserController } of sessions.values()) {
+      await server.close().catch(() => undefined);
+      await browserController.close().catch(() => undefined);
+    }
+    await stdioController?.close().catch(() => undefined);
+    logServer("Closing browser connection...");
+    await pool.close();
+    logServer("Browser connection closed.");
+    logServer("Exiting process.");
+    process.exit(0);
+  }
+
+  // Register signal handlers
+  process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+  process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+
+  if (transport === 'stdio') {
+    stdioController = new BrowserController({ maxPages: MAX_PAGES, maxScreenshots: MAX_SCREENSHOTS, pool, scriptPolicy });
+    const server = createMcpServer(stdioController);
+    await server.connect(new StdioServerTransport());
+    logServer('Server connected to client via stdio');
+    return;
+  }
+
+  const app = createHttpApp(sessions, pool, limits, scriptPolicy);
+  const port = options.port ?? 3000;
+  const host = options.host ?? 'localhost';
+
+  // Start Express server
+  // Errors such as EADDRINUSE are only reported as an event of the listening server
+  await new Promise<void>((resolve, reject) => {
+    const httpServer = app.listen(port, host);
+    httpServer.once('listening', () => resolve());
+    httpServer.once('error', error => reject(new Error(`Cannot listen on ${host}:${port}: ${error.message}`)));
+  });
+  logServer(`Express server listening on ${host}:${port}`);
+  logServer(`SSE endpoint available at http://${host}:${port}/sse`);
+  logServer(`Messages endpoint available at http://${host}:${port}/messages`);
+  logServer(`Streamable HTTP endpoint available at http://${host}:${port}/mcp`);
+  logServer('Allowing %d concurrent session(s), idle timeout %dms', limits.maxSessions, limits.idleTimeoutMs);
+
+  // Close sessions whose client has gone quiet, releasing their browser context
+  if (limits.idleTimeoutMs > 0) {
+    setInterval(() => closeIdleSessions(sessions, limits.idleTimeoutMs), Math.min(limits.idleTimeoutMs, IDLE_CHECK_INTERVAL)).unref();
+  }
+
+  // Keep-alive interval for debugging
+  setInterval(() => {
+    logServer("Server still running (keep-alive), %d active session(s)", sessions.size);
+  }, KEEP_ALIVE_INTERVAL).unref();
+}
+
+/**
+ * Close the sessions that have not had a request for longer than the idle timeout.
+ * Closing a session's server removes the session and closes its browser context.
+ * @param sessions Registry of active sessions
+ * @param idleTimeoutMs Idle timeout in milliseconds
+ * @param now Current time
+ */
+export function closeIdleSessions(sessions: Map<string, Session>, idleTimeoutMs: number, now = Date.now()): void {
+  for (const [sessionId, session] of sessions) {
+    if (now - session.lastActivity > idleTimeoutMs) {
+      logSession('Session %s idle for %dms, closing', sessionId, now - session.lastActivity);
+      session.server.close().catch(error => logError('Error closing idle session %s: %O', sessionId, error));
+    }
+  }
+}
+
+/**
+ * Create the Express app serving both the SSE and the Streamable HTTP transport.
+ * Every client connection gets its own session, keyed by its session ID, with its own
+ * browser context that is closed together with the session.
+ * @param sessions Registry of active sessions
+ * @param pool Browser pool that session contexts are created from
+ * @param limits Session limits
+ * @param scriptPolicy Script policy of every session
+ * @returns Express app
+ */
+export function createHttpApp(sessions: Map<string, Session>, pool: BrowserPool, limits: SessionLimits, scriptPolicy: ScriptPolicy) {
+  const app = express();
+
+  const createSession = () => {
+    const browserController = new BrowserController({ maxPages: MAX_PAGES, maxScreenshots: MAX_SCREENSHOTS, pool, scriptPolicy });
+    return { server: createMcpServer(browserController), browserController };
+  };
+
+  const openSession = async (transport: Session['transport'], sessionId: string, { server, browserController }: ReturnType<typeof createSession>) => {
+    server.onclose = () => {
+      sessions.delete(sessionId);
+      logSession('Session %s closed, %d active session(s)', sessionId, sessions.size);
+      browserController.close().catch(error => logError('Error closing browser context of session %s: %O', sessionId, error));
+    };
+    sessions.set(sessionId, { server, transport, browserController, lastActivity: Date.now() });
+    logSession('Session %s opened, %d active session(s)', sessionId, sessions.size);
+  };
+
+  const findSession = (sessionId: string | undefined) => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  };
+
+  const sendJsonRpcError = (res: Response, status: number, message: string) => {
+    res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+  };
+
+  // Slots of sessions that passed the limit check but are not registered yet, so that
+  // concurrent requests cannot all pass the check before the first one registers
+  let pendingSessions = 0;
+
+  const reserveSession = (res: Response) => {
+    if (sessions.size + pendingSessions >= limits.maxSessions) {
+      logError('Rejecting new session: %d session(s) already active, %d opening', sessions.size, pendingSessions);
+      sendJsonRpcError(res, 503, `Maximum number of concurrent sessions (${limits.maxSessions}) reached. Try again later.`);
+      return null;
+    }
+
+    pendingSessions++;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        pendingSessions--;
+      }
+    };
+  };
+
+  // Set up SSE endpoint
+  app.get('/sse', async (req: Request, res: Response) => {
+    logServer('Client connected to SSE endpoint');
+
+    const release = reserveSession(res);
+    if (!release) {
+      return;
+    }
+
+    try {
+      const transport = new SSEServerTransport('/messages', res);
+      const session = createSession();
+      await openSession(transport, transport.sessionId, session);
+      release();
+      await session.server.connect(transport);
+      logServer('Server connected to client via SSE');
+    } catch (error) {
+      logError('Error connecting server to SSE transport: %O', error);
+      if (!res.headersSent) {
+        res.status(500).end();
+      }
+    } finally {
+      release();
+    }
+  });
+
+  // Set up message endpoint for receiving client messages, routed by session ID
+  app.post('/messages', express.json(), async (req: Request, res: Response) => {
+    const sessionId = String(req.query.sessionId ?? '');
+    const session = findSession(sessionId);
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      logError('Message for unknown SSE session: %s', sessionId);
+      sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error: any) {
+      logError('Error processing message: %O', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  });
+
+  // Streamable HTTP transport: a POST without session ID must initialize a new session
+  app.post('/mcp', express.json(), async (req: Request, res: Response) => {
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      const session = findSession(sessionId);
+      if (session) {
+        if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 400, 'Session belongs to a different transport');
+          return;
+        }
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Unknown session: ${sessionId}` : 'No valid session ID provided');
+        return;
+      }
+
+      const release = reserveSession(res);
+      if (!release) {
+        return;
+      }
+
+      try {
+        const created = createSession();
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: async id => {
+            await openSession(transport, id, created);
+            release();
+          }
+        });
+        await created.server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+      } finally {
+        // Frees the slot when the request did not initialize a session
+        release();
+      }
+    } catch (error: any) {
+      logError('Error handling Streamable HTTP request: %O', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, error.message);
+      }
+    }
+  });
+
+  // Streamable HTTP transport: server-to-client stream and session termination
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.header('mcp-session-id');
+    const session = findSession(sessionId);
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 404, `Unknown session: ${sessionId ?? ''}`);
+      return;
+    }
+
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (error: any) {
+      logError('Error handling Streamable HTTP request: %O', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, error.message);
+      }
+    }
+  };
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
+
+  // Add a simple status endpoint
+  app.get('/', (req: Request, res: Response) => {
+    res.send('MCP Puppeteer Server is running. Connect to /sse for Server-Sent Events or /mcp for Streamable HTTP.');
+  });
+
+  return app;
+}
@@ -1,4 +1,8 @@
-import { Page, ElementHandle } from 'puppeteer';
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+import debug from 'debug';
+import { getRefRegistry, lookupElementRef, openFrameSession, ElementRefRegistry, FrameTarget } from './elementRefs.js';
+import { INTERACTIVE_ROLES } from '../browser/elementLocator.js';
+import { diffAccessibilityTrees, formatDiff } from './snapshotDiff.js';
 
 /**
  * Represents a node in the accessibility tree
@@ -17,61 +21,373 @@ export interface AccessibilityNode {
   level?: number;
   ref: string;
   children?: AccessibilityNode[];
+  elided?: number;
+}
+
+type RawAXNode = Protocol.Accessibility.AXNode;
+
+const logError = debug('mcp-puppeteer:error');
+
+// Roles that only group other content and are dropped from the tree when they carry no name
+const TRANSPARENT_ROLES = ['generic', 'none', 'presentation', 'LineBreak'];
+
+// Last tree handed out per page, used as the baseline for diffs
+const baselines = new WeakMap<Page, { tree: AccessibilityNode; generation: number }>();
+
+/**
+ * Options that scope and limit an accessibility snapshot
+ */
+export interface SnapshotOptions {
+  rootSelector?: string;
+  rootRef?: string;
+  maxDepth?: number;
+  roles?: string[];
+  interestingOnly?: boolean;
+  maxChars?: number;
+}
+
+/**
+ * Raw accessibility tree of one frame, with the trees of its iframes keyed by
+ * the backend node ID of their owner element
+ */
+interface FrameTree {
+  prefix: string;
+  byId: Map<string, RawAXNode>;
+  root?: RawAXNode;
+  childFrames: Map<number, FrameTree>;
+}
+
+interface ProcessContext {
+  registry: ElementRefRegistry;
+  rootId: string;
+  maxDepth?: number;
+  roles?: Set<string>;
+  interestingOnly: boolean;
 }
 
 /**
  * Generate a YAML-formatted accessibility snapshot from the current page
  * @param page Puppeteer page
+ * @param options Scope and limits of the snapshot
  * @returns YAML string representation of the accessibility tree
  */
-export async function generateAccessibilitySnapshot(page: Page): Promise<string> {
-  const snapshot = await page.accessibility.snapshot();
+export async function generateAccessibilitySnapshot(page: Page, options: SnapshotOptions = {}): Promise<string> {
+  const snapshot = await captureAccessibilityTree(page, options);
   if (!snapshot) {
     return "- document [ref=s1e1]: No accessibility data available";
   }
 
-  const processedSnapshot = processSnapshot(snapshot, 's1');
-  return formatAsYaml(processedSnapshot);
+  // Only complete trees can serve as the baseline for accessibility/diff
+  if (isFullTree(options)) {
+    rememberBaseline(page, snapshot);
+  }
+  return truncateToBudget(formatAsYaml(snapshot), options.maxChars);
 }
 
 /**
- * Process a raw accessibility node into a structured node with references
- * @param node Raw accessibility node from Puppeteer
- * @param refPrefix Reference prefix for this node
- * @param index Index for generating unique references
- * @returns Processed accessibility node
+ * Generate only the changes since the previous snapshot or diff of the page.
+ * Falls back to a full snapshot when there is no baseline or the page has navigated.
+ * @param page Puppeteer page
+ * @returns Text listing added, removed and changed nodes with their refs
  */
-function processSnapshot(node: any, refPrefix: string, index: number = 0): AccessibilityNode {
-  // Process node and its children
-  const ref = `${refPrefix}e${index + 1}`;
+export async function generateAccessibilityDiff(page: Page): Promise<string> {
+  const registry = getRefRegistry(page);
+  const baseline = baselines.get(page);
+  const snapshot = await captureAccessibilityTree(page);
+  if (!snapshot) {
+    return "- document [ref=s1e1]: No accessibility data available";
+  }
+
+  rememberBaseline(page, snapshot);
+  if (!baseline) {
+    return `# No previous snapshot of this page, returning the full snapshot\n${formatAsYaml(snapshot)}`;
+  }
+  if (baseline.generation !== registry.currentGeneration) {
+    return `# The page has navigated since the previous snapshot, returning the full snapshot\n${formatAsYaml(snapshot)}`;
+  }
+
+  return formatDiff(diffAccessibilityTrees(baseline.tree, snapshot), formatAsYaml);
+}
+
+function rememberBaseline(page: Page, tree: AccessibilityNode): void {
+  baselines.set(page, { tree, generation: getRefRegistry(page).currentGeneration });
+}
+
+function isFullTree(options: SnapshotOptions): boolean {
+  return !options.rootSelector && !options.rootRef && options.maxDepth === undefined &&
+    !options.roles?.length && options.interestingOnly !== false;
+}
+
+/**
+ * Capture the accessibility tree of the page through CDP, with the tree of every iframe
+ * (including out-of-process ones) nested under its iframe node.
+ * Every node gets a ref derived from its backend DOM node ID and prefixed per frame
+ * ('s1' for the main frame, 's2', 's3', ... for iframes), so refs can be resolved
+ * back to elements in the right frame with resolveElementRef.
+ * @param page Puppeteer page
+ * @param options Scope and limits of the snapshot (maxChars is applied when formatting)
+ * @returns Root of the processed tree, or null if the page has no accessibility data
+ */
+export async function captureAccessibilityTree(page: Page, options: SnapshotOptions = {}): Promise<AccessibilityNode | null> {
+  const registry = getRefRegistry(page);
+  const session = await page.createCDPSession();
+  let mainFrame: FrameTree;
+  let rootBackendNodeId: number | undefined;
+  let rootPrefix = registry.prefixFor({});
+  try {
+    if (options.rootRef) {
+      const target = lookupElementRef(page, options.rootRef);
+      rootBackendNodeId = target.backendNodeId;
+      rootPrefix = target.prefix;
+    } else if (options.rootSelector) {
+      rootBackendNodeId = await findBackendNodeId(session, options.rootSelector);
+    }
+    mainFrame = await captureFrameTree(page, session, registry, {});
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+
+  let frame: FrameTree | undefined = mainFrame;
+  let root = mainFrame.root;
+  if (rootBackendNodeId !== undefined) {
+    frame = findFrameTree(mainFrame, rootPrefix);
+    root = frame && [...frame.byId.values()].find(node => node.backendDOMNodeId === rootBackendNodeId);
+    if (!frame || !root) {
+      throw new Error(`Element ${options.rootRef ?? options.rootSelector} is not part of the accessibility tree`);
+    }
+  }
+
+  registry.markSnapshot();
+  if (!frame || !root) {
+    return null;
+  }
+
+  const [processed] = processSnapshot(root, frame, {
+    registry,
+    rootId: root.nodeId,
+    maxDepth: options.maxDepth,
+    roles: options.roles?.length ? expandRoles(options.roles) : undefined,
+    interestingOnly: options.interestingOnly ?? true
+  });
+  return processed ?? null;
+}
+
+/**
+ * Fetch the raw accessibility tree of a frame and, recursively, of its iframes
+ * @param page Puppeteer page
+ * @param session CDP session of the target the frame lives in
+ * @param registry Ref registry of the page
+ * @param frame Frame to capture
+ * @param targetRoot Whether the frame is the root frame of the session's target
+ * @returns Raw frame tree
+ */
+async function captureFrameTree(
+  page: Page,
+  session: CDPSession,
+  registry: ElementRefRegistry,
+  frame: FrameTarget,
+  targetRoot: boolean = true
+): Promise<FrameTree> {
+  const { nodes } = await session.send('Accessibility.getFullAXTree', targetRoot ? {} : { frameId: frame.frameId });
+  const tree: FrameTree = {
+    prefix: registry.prefixFor(frame),
+    byId: new Map(nodes.map(node => [node.nodeId, node])),
+    root: nodes.find(node => !node.parentId) ?? nodes[0],
+    childFrames: new Map()
+  };
+
+  for (const node of nodes) {
+    if (node.role?.value !== 'Iframe' || node.backendDOMNodeId === undefined || node.ignored) continue;
+
+    try {
+      const { node: owner } = await session.send('DOM.describeNode', { backendNodeId: node.backendDOMNodeId });
+      if (!owner.frameId) continue;
+      tree.childFrames.set(node.backendDOMNodeId, await captureChildFrameTree(page, session, registry, owner.frameId, frame.targetId));
+    } catch (error: any) {
+      logError('Could not capture accessibility tree of iframe: %s', error.message);
+    }
+  }
+
+  return tree;
+}
+
+/**
+ * Capture an iframe, first as a frame of the parent's target and, if it is not found
+ * there, as an out-of-process iframe with a target of its own
+ */
+async function captureChildFrameTree(
+  page: Page,
+  session: CDPSession,
+  registry: ElementRefRegistry,
+  frameId: string,
+  parentTargetId?: string
+): Promise<FrameTree> {
+  try {
+    return await captureFrameTree(page, session, registry, { frameId, targetId: parentTargetId }, false);
+  } catch (error) {
+    // Out-of-process iframes are targets whose ID is the frame ID
+    const frame = { frameId, targetId: frameId };
+    const frameSession = await openFrameSession(page, frame);
+    try {
+      return await captureFrameTree(page, frameSession, registry, frame);
+    } finally {
+      await frameSession.detach().catch(() => undefined);
+    }
+  }
+}
+
+function findFrameTree(frame: FrameTree, prefix: string): FrameTree | undefined {
+  if (frame.prefix === prefix) return frame;
+  for (const child of frame.childFrames.values()) {
+    const found = findFrameTree(child, prefix);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Find the backend node ID of the first element matching a selector in the main frame
+ * @param session CDP session of the page
+ * @param selector CSS selector
+ * @returns Backend node ID
+ */
+async function findBackendNodeId(session: CDPSession, selector: string): Promise<number> {
+  const { result, exceptionDetails } = await session.send('Runtime.evaluate', {
+    expression: `document.querySelector(${JSON.stringify(selector)})`
+  });
+  if (exceptionDetails) {
+    // e.g. "SyntaxError: Failed to execute 'querySelector' on 'Document': '##' is not a valid selector."
+    const message = exceptionDetails.exception?.description?.split('\n')[0] ?? exceptionDetails.text;
+    throw new Error(`Invalid selector ${selector}: ${message}`);
+  }
+  if (!result.objectId) {
+    throw new Error(`Element not found: ${selector}`);
+  }
+
+  const { node } = await session.send('DOM.describeNode', { objectId: result.objectId });
+  return node.backendNodeId;
+}
+
+/**
+ * Expand role filters. The pseudo role 'interactive' stands for all interactive roles.
+ * @param roles Roles to keep
+ * @returns Lower-cased set of roles
+ */
+function expandRoles(roles: string[]): Set<string> {
+  return new Set(roles.flatMap(role =>
+    role.toLowerCase() === 'interactive' ? INTERACTIVE_ROLES : [role.toLowerCase()]
+  ));
+}
+
+/**
+ * Process a raw CDP accessibility node into structured nodes with references.
+ * Ignored and unnamed grouping nodes, as well as nodes filtered out by role,
+ * are replaced by their children. Iframe nodes get the tree of their frame as child.
+ * @param node Raw accessibility node from CDP
+ * @param frame Frame tree the node belongs to
+ * @param context Shared processing state and options
+ * @param depth Depth of the node in the processed tree
+ * @returns Processed accessibility nodes
+ */
+function processSnapshot(node: RawAXNode, frame: FrameTree, context: ProcessContext, depth: number = 0): AccessibilityNode[] {
+  const { registry, maxDepth, roles, interestingOnly } = context;
+  const role = String(node.role?.value ?? '');
+  const name = String(node.name?.value ?? '');
+  const isRoot = node.nodeId === context.rootId;
+  const childFrame = node.backendDOMNodeId !== undefined ? frame.childFrames.get(node.backendDOMNodeId) : undefined;
+  const processChildren = (childDepth: number) => {
+    if (childFrame?.root) {
+      return processSnapshot(childFrame.root, childFrame, context, childDepth);
+    }
+    return (node.childIds ?? [])
+      .map(id => frame.byId.get(id))
+      .filter((child): child is RawAXNode => child !== undefined)
+      .flatMap(child => processSnapshot(child, frame, context, childDepth));
+  };
+
+  const uninteresting = node.ignored || role === 'InlineTextBox' ||
+    (interestingOnly && TRANSPARENT_ROLES.includes(role) && !name);
+  const filteredOut = roles !== undefined && !roles.has(role.toLowerCase());
+  if (!isRoot && (uninteresting || filteredOut)) {
+    return processChildren(depth);
+  }
+
+  // Assign the ref before visiting children so that refs read top-down
   const result: AccessibilityNode = {
-    role: node.role || 'unknown',
-    ref
+    role: role || 'unknown',
+    ref: registry.refFor(frame.prefix, node.backendDOMNodeId)
   };
+  const children = processChildren(depth + 1);
 
   // Add properties if they exist
-  if (node.name) result.name = node.name;
-  if (node.value) result.value = node.value;
-  if (node.description) result.description = node.description;
-  if (node.selected) result.selected = node.selected;
-  if (node.checked) result.checked = node.checked;
-  if (node.disabled) result.disabled = node.disabled;
-  if (node.required) result.required = node.required;
-  if (node.focused) result.focused = node.focused;
+  if (name) result.name = name;
+  if (node.value?.value !== undefined && node.value.value !== '') result.value = String(node.value.value);
+  if (node.description?.value) result.description = String(node.description.value);
 
-  // Handle heading level as a special case
-  if (node.role === 'heading' && node.level) {
-    result.level = node.level;
+  for (const property of node.properties ?? []) {
+    const value = property.value.value;
+    switch (property.name) {
+      case 'selected':
+      case 'disabled':
+      case 'required':
+      case 'focused':
+        if (value === true) result[property.name] = true;
+        break;
+      case 'checked':
+        if (value === 'true' || value === true) result.checked = true;
+        break;
+      case 'level':
+        // Handle heading level as a special case
+        if (role === 'heading' && typeof value === 'number') result.level = value;
+        break;
+    }
   }
 
-  // Process children recursively with increased indentation
-  if (node.children && node.children.length > 0) {
-    result.children = node.children.map((child: any, idx: number) =>
-      processSnapshot(child, ref, idx)
-    );
+  // Text that only repeats the name of its parent adds nothing
+  const meaningfulChildren = interestingOnly
+    ? children.filter(child => !(child.role === 'StaticText' && child.name === result.name && !child.children))
+    : children;
+
+  if (maxDepth !== undefined && depth >= maxDepth) {
+    const elided = countNodes(meaningfulChildren);
+    if (elided > 0) result.elided = elided;
+  } else if (meaningfulChildren.length > 0) {
+    result.children = meaningfulChildren;
+  }
+
+  return [result];
+}
+
+function countNodes(nodes: AccessibilityNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countNodes(node.children ?? []) + (node.elided ?? 0), 0);
+}
+
+/**
+ * Cut a formatted snapshot down to a character budget at a line boundary.
+ * The result ends with a comment saying how much was elided.
+ * @param yaml Formatted snapshot
+ * @param maxChars Character budget
+ * @returns Snapshot that fits within the budget
+ */
+export function truncateToBudget(yaml: string, maxChars?: number): string {
+  if (maxChars === undefined || yaml.length <= maxChars) {
+    return yaml;
   }
 
-  return result;
+  const lines = yaml.split('\n');
+  const marker = (elided: number) =>
+    `# [truncated] ${elided} of ${lines.length} lines elided to fit max_chars=${maxChars}`;
+
+  const kept: string[] = [];
+  let length = 0;
+  for (const line of lines) {
+    const next = length + line.length + 1;
+    if (next + marker(lines.length - kept.length - 1).length > maxChars) break;
+    kept.push(line);
+    length = next;
+  }
+
+  return [...kept, marker(lines.length - kept.length)].join('\n');
 }
 
 /**
@@ -80,7 +396,7 @@ function processSnapshot(node: any, refPrefix: string, index: number = 0): Acces
  * @param indent Current indentation level
  * @returns YAML string representation
  */
-function formatAsYaml(node: AccessibilityNode, indent: number = 0): string {
+export function formatAsYaml(node: AccessibilityNode, indent: number = 0): string {
   const indentStr = '  '.repeat(indent);
   const lines: string[] = [];
 
@@ -110,7 +426,7 @@ function formatAsYaml(node: AccessibilityNode, indent: number = 0): string {
   }
 
   // Add colon if there are children
-  if (node.children && node.children.length > 0) {
+  if ((node.children && node.children.length > 0) || node.elided) {
     line += ':';
   }
 
@@ -123,6 +439,11 @@ function formatAsYaml(node: AccessibilityNode, indent: number = 0): string {
     }
   }
 
+  // Mark descendants cut off by max_depth
+  if (node.elided) {
+    lines.push(`${indentStr}  # ${node.elided} descendant${node.elided === 1 ? '' : 's'} below max_depth`);
+  }
+
   return lines.join('\n');
 }
 
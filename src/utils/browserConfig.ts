@@ -1,5 +1,6 @@
 import type { ConnectOptions, LaunchOptions, Viewport } from 'puppeteer';
 import debug from 'debug';
+import { matchesDomain } from './domainPolicy.js';
 
 const logError = debug('mcp-puppeteer:error');
 const logBrowser = debug('mcp-puppeteer:browser');
@@ -88,46 +89,26 @@ export function isAllowedDomain(url: string): boolean {
 
   try {
     const urlObj = new URL(url);
-    return allowedDomains.some(domain => {
-      // Support wildcards (e.g., *.example.com)
-      if (domain.startsWith('*.')) {
-        const baseDomain = domain.substring(2);
-        return urlObj.hostname.endsWith(baseDomain);
-      }
-      return urlObj.hostname === domain;
-    });
+    // Supports wildcards (e.g., *.example.com)
+    return allowedDomains.some(domain => matchesDomain(urlObj.hostname, domain));
   } catch (e) {
     logError('Invalid URL in isAllowedDomain check: %s', url);
     return false; // Invalid URL
   }
 }
 
-export function sanitizeScript(script: string): string {
-  // Basic sanitization - more advanced approaches could be implemented
-  const disallowedPatterns = [
-    /process\s*\.\s*env/i,
-    /require\s*\(/i,
-    /eval\s*\(/i,
-    /Function\s*\(/i,
-    /document\.cookie/i
-  ];
-
-  const containsDisallowed = disallowedPatterns.some(pattern => pattern.test(script));
-  if (containsDisallowed) {
-    logError('Script contains potentially unsafe operations: %s', script.substring(0, 100) + (script.length > 100 ? '...' : ''));
-    throw new Error("Script contains potentially unsafe operations");
-  }
-
-  return script;
-}
-
 export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
+    timer = setTimeout(() => {
       logError('Operation timed out: %s (%dms)', operation, timeoutMs);
       reject(new Error(`Operation "${operation}" timed out after ${timeoutMs}ms`));
     }, timeoutMs);
   });
 
-  return Promise.race([promise, timeoutPromise]);
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
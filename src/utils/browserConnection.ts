@@ -1,5 +1,6 @@
-import puppeteer, { Browser, Page, ConsoleMessage } from 'puppeteer';
+import puppeteer, { Browser, BrowserContext, Page, ConsoleMessage } from 'puppeteer';
 import { getBrowserConfig } from './browserConfig.js';
+import { ConsoleLog, toLogLevel } from './consoleLog.js';
 import debug from 'debug';
 
 const logConnection = debug('mcp-puppeteer:connection');
@@ -45,13 +46,19 @@ export async function connectWithRetry(endpoint: string, maxRetries = 3): Promis
 /**
  * Set up event handlers for a page to capture errors and logs
  * @param page Puppeteer page
- * @param logs Array to store logs
+ * @param logs Log to record entries in
  */
-export function setupPageErrorHandlers(page: Page, logs: string[]): void {
+export function setupPageErrorHandlers(page: Page, logs: ConsoleLog): void {
   // Console messages
   page.on('console', (msg: ConsoleMessage) => {
-    const logEntry = `[${msg.type()}] ${msg.text()}`;
-    logs.push(logEntry);
+    const { url, lineNumber, columnNumber } = msg.location();
+    logs.add({
+      level: toLogLevel(msg.type()),
+      source: 'console',
+      text: msg.text(),
+      location: url ? { url, line: lineNumber, column: columnNumber } : undefined,
+      page_url: page.url()
+    });
 
     // Forward to appropriate debug logger
     if (msg.type() === 'error') {
@@ -65,15 +72,26 @@ export function setupPageErrorHandlers(page: Page, logs: string[]): void {
 
   // Page errors
   page.on('pageerror', error => {
-    const logEntry = `[ERROR] Page error: ${error.message}`;
-    logs.push(logEntry);
-    logError('Page JavaScript error: %s', error.message);
+    const message = error instanceof Error ? error.message : String(error);
+    logs.add({
+      level: 'error',
+      source: 'exception',
+      text: `Page error: ${message}`,
+      stack: error instanceof Error ? error.stack : undefined,
+      page_url: page.url()
+    });
+    logError('Page JavaScript error: %s', message);
   });
 
   // Request failures
   page.on('requestfailed', request => {
-    const logEntry = `[NETWORK] Request failed: ${request.url()} - ${request.failure()?.errorText || 'Unknown error'}`;
-    logs.push(logEntry);
+    logs.add({
+      level: 'error',
+      source: 'network',
+      text: `Request failed: ${request.url()} - ${request.failure()?.errorText || 'Unknown error'}`,
+      location: { url: request.url() },
+      page_url: page.url()
+    });
     logError('Network request failed: %s - %s', request.url(), request.failure()?.errorText || 'Unknown error');
   });
 
@@ -81,8 +99,13 @@ export function setupPageErrorHandlers(page: Page, logs: string[]): void {
   page.on('response', response => {
     const status = response.status();
     if (status >= 400) {
-      const logEntry = `[NETWORK] Response error: ${response.url()} - Status ${status}`;
-      logs.push(logEntry);
+      logs.add({
+        level: 'error',
+        source: 'network',
+        text: `Response error: ${response.url()} - Status ${status}`,
+        location: { url: response.url() },
+        page_url: page.url()
+      });
       logError('Network response error: %s - Status %d', response.url(), status);
     }
   });
@@ -90,10 +113,10 @@ export function setupPageErrorHandlers(page: Page, logs: string[]): void {
 
 /**
  * Create a new page with default configuration
- * @param browser Browser instance
+ * @param browser Browser or browser context to open the page in
  * @returns Configured page
  */
-export async function createPage(browser: Browser): Promise<Page> {
+export async function createPage(browser: Browser | BrowserContext): Promise<Page> {
   const page = await browser.newPage();
   const config = getBrowserConfig();
 
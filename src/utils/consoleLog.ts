@@ -0,0 +1,131 @@
+const MAX_ENTRIES_PER_PAGE = 500;
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Severity of a log entry. Console message types are folded into these levels.
+ */
+export type LogLevel = 'debug' | 'info' | 'log' | 'warning' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'log', 'warning', 'error'];
+
+/**
+ * Serializable record of a console message, uncaught page error or network failure
+ */
+export interface LogEntry {
+  seq: number;
+  timestamp: string;
+  level: LogLevel;
+  source: 'console' | 'exception' | 'network';
+  text: string;
+  location?: { url: string; line?: number; column?: number };
+  stack?: string;
+  page_url: string;
+  tab_id: string;
+}
+
+/**
+ * Filter and cursor for reading logs
+ */
+export interface LogQuery {
+  levels?: LogLevel[];
+  text?: string;
+  cursor?: number;
+  limit?: number;
+}
+
+/**
+ * Bounded log of one page. Entries are numbered from a sequence shared by all pages
+ * of a controller, so that one cursor can be used across tabs.
+ */
+export class ConsoleLog {
+  private entries: LogEntry[] = [];
+  private dropped = 0;
+
+  constructor(
+    private readonly tabId: string,
+    private readonly nextSeq: () => number,
+    private readonly maxEntries = MAX_ENTRIES_PER_PAGE
+  ) {}
+
+  /**
+   * Record an entry, discarding the oldest one if the page is at its cap
+   * @param entry Entry without sequence number, timestamp and tab
+   */
+  add(entry: Omit<LogEntry, 'seq' | 'timestamp' | 'tab_id'>): void {
+    this.entries.push({ seq: this.nextSeq(), timestamp: new Date().toISOString(), ...entry, tab_id: this.tabId });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+      this.dropped++;
+    }
+  }
+
+  /**
+   * All retained entries, oldest first
+   */
+  list(): LogEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Number of entries discarded because the page reached its cap
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+}
+
+/**
+ * Map a console message type to a log level
+ * @param type Console message type reported by Puppeteer
+ * @returns Log level
+ */
+export function toLogLevel(type: string): LogLevel {
+  switch (type) {
+    case 'error':
+    case 'assert':
+      return 'error';
+    case 'warn':
+    case 'warning':
+      return 'warning';
+    case 'info':
+      return 'info';
+    case 'debug':
+    case 'verbose':
+    case 'trace':
+      return 'debug';
+    default:
+      return 'log';
+  }
+}
+
+/**
+ * Read the entries of one or more page logs after a cursor
+ * @param logs Page logs to read
+ * @param query Levels, text, cursor and page size
+ * @returns Matching entries oldest first, and the cursor to pass on the next call
+ */
+export function queryLogs(logs: ConsoleLog[], query: LogQuery = {}) {
+  const { levels, text, cursor = 0, limit = DEFAULT_LIMIT } = query;
+  const needle = text?.toLowerCase();
+
+  const unread = logs
+    .flatMap(log => log.list())
+    .filter(entry => entry.seq > cursor)
+    .sort((a, b) => a.seq - b.seq);
+  const matching = unread.filter(entry =>
+    (!levels?.length || levels.includes(entry.level)) &&
+    (!needle || entry.text.toLowerCase().includes(needle))
+  );
+
+  const entries = matching.slice(0, Math.max(limit, 1));
+  const hasMore = matching.length > entries.length;
+  // Without more matches the cursor moves past every scanned entry, so filtered-out ones are not rescanned
+  const lastSeq = hasMore ? entries[entries.length - 1].seq : unread[unread.length - 1]?.seq ?? cursor;
+
+  return {
+    entries,
+    next_cursor: lastSeq,
+    has_more: hasMore,
+    dropped: logs.reduce((sum, log) => sum + log.droppedCount, 0)
+  };
+}
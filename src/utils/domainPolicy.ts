@@ -0,0 +1,243 @@
+import type { HTTPRequest, Page } from 'puppeteer';
+import dns from 'dns/promises';
+import net from 'net';
+import debug from 'debug';
+import { LRUCache } from './LRUCache.js';
+
+const logNavigation = debug('mcp-puppeteer:navigation');
+
+// Schemes that never reach the network or only carry content the page already has
+const LOCAL_SCHEMES = ['about:', 'data:', 'blob:'];
+const NETWORK_SCHEMES = ['http:', 'https:'];
+const DNS_CACHE_TTL_MS = 30000;
+
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses such as ::ffff:7f00:1 are checked against the IPv4 subnets
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Which hosts pages may load from
+ */
+export interface DomainPolicy {
+  /** Hosts that may be loaded, e.g. "example.com" or "*.example.com"; empty allows every host */
+  allowedDomains: string[];
+  /** Hosts that may never be loaded; takes precedence over the allowlist */
+  deniedDomains: string[];
+  /** Block hosts that resolve to private, loopback, link-local or other non-public addresses */
+  blockPrivateNetworks: boolean;
+}
+
+/**
+ * Main-frame navigation or popup that the policy blocked
+ */
+export interface BlockedNavigation {
+  url: string;
+  reason: string;
+}
+
+/**
+ * Resolves a host name to its IP addresses
+ */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Error for a tool call whose navigation was blocked by the domain policy
+ */
+export class NavigationBlockedError extends Error {
+  readonly code = 'navigation_blocked';
+  readonly url: string;
+  readonly reason: string;
+
+  constructor({ url, reason }: BlockedNavigation) {
+    super(`Navigation to ${url} blocked: ${reason}`);
+    this.name = 'NavigationBlockedError';
+    this.url = url;
+    this.reason = reason;
+  }
+
+  toJSON() {
+    return { error: this.code, url: this.url, reason: this.reason, message: this.message };
+  }
+}
+
+/**
+ * Read the domain policy from ALLOWED_DOMAINS, DENIED_DOMAINS (comma-separated) and BLOCK_PRIVATE_NETWORKS
+ */
+export function getDomainPolicy(): DomainPolicy {
+  const list = (value?: string) => (value || '').split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean);
+  return {
+    allowedDomains: list(process.env.ALLOWED_DOMAINS),
+    deniedDomains: list(process.env.DENIED_DOMAINS),
+    blockPrivateNetworks: process.env.BLOCK_PRIVATE_NETWORKS === 'true'
+  };
+}
+
+/**
+ * Check whether a host name matches a domain pattern. "*.example.com" matches example.com
+ * and its subdomains, but not hosts that merely end in "example.com" such as evilexample.com.
+ * @param hostname Host name or IP address
+ * @param pattern Domain, "*." wildcard or IP address
+ */
+export function matchesDomain(hostname: string, pattern: string): boolean {
+  const host = normalizeHost(hostname);
+  const domain = normalizeHost(pattern);
+  if (domain.startsWith('*.')) {
+    const base = domain.slice(2);
+    return host === base || host.endsWith(`.${base}`);
+  }
+  return host === domain;
+}
+
+/**
+ * Check whether an IP address is not publicly routable: private, loopback, link-local,
+ * carrier-grade NAT, multicast or reserved
+ * @param address IPv4 or IPv6 address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const type = net.isIP(address);
+  if (type === 0) return false;
+  return PRIVATE_NETWORKS.check(address, type === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Decides which requests pages may make. Host names are checked against the deny- and allowlist,
+ * then, if private networks are blocked, resolved to check every address they point to.
+ * Chrome resolves the host again when it connects, so a DNS server answering differently the second
+ * time can still reach a private address. Only requests of pages and their frames are intercepted;
+ * WebSocket connections and requests made by workers bypass the guard. Run the browser behind a
+ * firewall for complete isolation.
+ */
+export class DomainGuard {
+  private readonly addresses = new LRUCache<string, { addresses: Promise<string[]>; expires: number }>(500);
+  private blocked = new WeakMap<Page, BlockedNavigation[]>();
+
+  constructor(
+    private readonly policy: DomainPolicy = getDomainPolicy(),
+    private readonly resolve: HostResolver = lookupHost
+  ) {}
+
+  /**
+   * Whether the policy restricts anything; without restrictions requests are not intercepted
+   */
+  get active(): boolean {
+    return this.policy.allowedDomains.length > 0 || this.policy.deniedDomains.length > 0 || this.policy.blockPrivateNetworks;
+  }
+
+  /**
+   * Check a URL against the policy
+   * @param url URL to check
+   * @returns Why the URL is blocked, or null if it is allowed
+   */
+  async check(url: string): Promise<string | null> {
+    if (!this.active) return null;
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'invalid URL';
+    }
+    if (LOCAL_SCHEMES.includes(parsed.protocol)) return null;
+    if (!NETWORK_SCHEMES.includes(parsed.protocol)) {
+      return `${parsed.protocol} URLs are not allowed`;
+    }
+
+    const host = normalizeHost(parsed.hostname);
+    const denied = this.policy.deniedDomains.find(pattern => matchesDomain(host, pattern));
+    if (denied) {
+      return `${host} matches the denylist entry ${denied}`;
+    }
+    if (this.policy.allowedDomains.length > 0 && !this.policy.allowedDomains.some(pattern => matchesDomain(host, pattern))) {
+      return `${host} is not in the allowlist`;
+    }
+
+    if (this.policy.blockPrivateNetworks) {
+      let addresses: string[];
+      try {
+        addresses = net.isIP(host) ? [host] : await this.lookup(host);
+      } catch (error: any) {
+        return `${host} could not be resolved (${error.code ?? error.message})`;
+      }
+      const privateAddress = addresses.find(isPrivateAddress);
+      if (privateAddress) {
+        return `${host} resolves to the non-public address ${privateAddress}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check an intercepted request. Blocked main-frame navigations are remembered for the tab,
+   * so that the tool call that caused them can report them.
+   * @param request Intercepted request
+   * @param tabPage Page of the tab the request belongs to; for popups, the page that opened them
+   * @returns Whether the request may continue
+   */
+  async allows(request: HTTPRequest, tabPage: Page): Promise<boolean> {
+    const reason = await this.check(request.url());
+    if (!reason) return true;
+
+    logNavigation('Blocked %s request to %s: %s', request.resourceType(), request.url(), reason);
+    if (request.isNavigationRequest() && !request.frame()?.parentFrame()) {
+      this.block(tabPage, { url: request.url(), reason });
+    }
+    return false;
+  }
+
+  /**
+   * Remember a blocked navigation of a tab
+   * @param tabPage Page of the tab
+   * @param navigation Blocked URL and reason
+   */
+  block(tabPage: Page, navigation: BlockedNavigation): void {
+    const blocked = this.blocked.get(tabPage);
+    if (blocked) {
+      blocked.push(navigation);
+    } else {
+      this.blocked.set(tabPage, [navigation]);
+    }
+  }
+
+  /**
+   * Return the navigations of a tab blocked since the last call and forget them.
+   * Tool calls on other tabs may run at the same time, so entries are kept per tab.
+   * @param tabPage Page of the tab
+   */
+  takeBlocked(tabPage: Page): BlockedNavigation[] {
+    const blocked = this.blocked.get(tabPage) ?? [];
+    this.blocked.delete(tabPage);
+    return blocked;
+  }
+
+  private lookup(host: string): Promise<string[]> {
+    const cached = this.addresses.get(host);
+    if (cached && cached.expires > Date.now()) {
+      return cached.addresses;
+    }
+    const addresses = this.resolve(host);
+    this.addresses.set(host, { addresses, expires: Date.now() + DNS_CACHE_TTL_MS });
+    // Failed lookups are retried next time
+    addresses.catch(() => this.addresses.set(host, { addresses, expires: 0 }));
+    return addresses;
+  }
+}
+
+async function lookupHost(hostname: string): Promise<string[]> {
+  const results = await dns.lookup(hostname, { all: true, verbatim: true });
+  return results.map(result => result.address);
+}
+
+function normalizeHost(hostname: string): string {
+  // URL host names of IPv6 addresses are bracketed, and a trailing dot names the same host
+  return hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+}
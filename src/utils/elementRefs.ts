@@ -0,0 +1,259 @@
+import type { CDPSession, ElementHandle, JSHandle, Page } from 'puppeteer';
+import debug from 'debug';
+import { parseElementRefId } from '../browser/elementLocator.js';
+
+const logNavigation = debug('mcp-puppeteer:navigation');
+
+/**
+ * Frame a snapshot was taken from. Frames without a frame ID are the main frame,
+ * frames with a target ID live in an out-of-process iframe target.
+ */
+export interface FrameTarget {
+  frameId?: string;
+  targetId?: string;
+}
+
+/**
+ * DOM node that a snapshot ref points at
+ */
+export interface RefTarget {
+  backendNodeId: number;
+  prefix: string;
+  frame: FrameTarget;
+}
+
+/**
+ * Maps snapshot refs to CDP backend node IDs for one page.
+ * Each frame gets its own ref prefix ('s1' for the main frame, then 's2', 's3', ...).
+ * A backend node ID always receives the same ref for as long as the document lives,
+ * so refs stay stable across snapshots. The registry is reset when the main frame navigates.
+ */
+export class ElementRefRegistry {
+  private refsByNode = new Map<string, string>();
+  private targets = new Map<string, RefTarget>();
+  private nextIndex = new Map<string, number>();
+  private prefixesByFrame = new Map<string, string>();
+  private frames = new Map<string, FrameTarget>();
+  private nextFrameIndex = 2;
+  private generation = 0;
+  private snapshotGeneration = -1;
+
+  /**
+   * Get the ref prefix of a frame, assigning the next free one if needed
+   * @param frame Frame the snapshot is taken from
+   * @returns Ref prefix (e.g. 's2')
+   */
+  prefixFor(frame: FrameTarget): string {
+    const key = frame.frameId ?? 'main';
+    let prefix = this.prefixesByFrame.get(key);
+    if (!prefix) {
+      prefix = frame.frameId ? `s${this.nextFrameIndex++}` : 's1';
+      this.prefixesByFrame.set(key, prefix);
+      this.frames.set(prefix, frame);
+    }
+    return prefix;
+  }
+
+  /**
+   * Get the ref for a node, assigning the next free one for its prefix if needed
+   * @param prefix Ref prefix (e.g. 's1')
+   * @param backendNodeId CDP backend node ID, if the node has one
+   * @returns Element reference ID
+   */
+  refFor(prefix: string, backendNodeId?: number): string {
+    const key = backendNodeId !== undefined ? `${prefix}:${backendNodeId}` : undefined;
+    const existing = key ? this.refsByNode.get(key) : undefined;
+    if (existing) return existing;
+
+    const index = this.nextIndex.get(prefix) ?? 1;
+    this.nextIndex.set(prefix, index + 1);
+    const ref = `${prefix}e${index}`;
+
+    if (key && backendNodeId !== undefined) {
+      this.refsByNode.set(key, ref);
+      this.targets.set(ref, { backendNodeId, prefix, frame: this.frames.get(prefix) ?? {} });
+    }
+    return ref;
+  }
+
+  /**
+   * Record that a snapshot of the current document was handed out
+   */
+  markSnapshot(): void {
+    this.snapshotGeneration = this.generation;
+  }
+
+  /**
+   * Whether a snapshot has been taken since the last navigation
+   */
+  hasSnapshot(): boolean {
+    return this.snapshotGeneration === this.generation;
+  }
+
+  /**
+   * Whether any snapshot has ever been taken of this page
+   */
+  hasAnySnapshot(): boolean {
+    return this.snapshotGeneration >= 0;
+  }
+
+  /**
+   * Counter that changes whenever the registry is reset
+   */
+  get currentGeneration(): number {
+    return this.generation;
+  }
+
+  lookup(ref: string): RefTarget | undefined {
+    return this.targets.get(ref);
+  }
+
+  /**
+   * Forget every ref, e.g. because the document was replaced
+   */
+  reset(): void {
+    this.refsByNode.clear();
+    this.targets.clear();
+    this.nextIndex.clear();
+    this.prefixesByFrame.clear();
+    this.frames.clear();
+    this.nextFrameIndex = 2;
+    this.generation++;
+  }
+}
+
+const registries = new WeakMap<Page, ElementRefRegistry>();
+
+/**
+ * Get the ref registry for a page, creating it on first use
+ * @param page Puppeteer page
+ * @returns Registry for the page
+ */
+export function getRefRegistry(page: Page): ElementRefRegistry {
+  let registry = registries.get(page);
+  if (!registry) {
+    const created = new ElementRefRegistry();
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame()) {
+        logNavigation('Main frame navigated, invalidating element refs');
+        created.reset();
+      }
+    });
+    registries.set(page, created);
+    registry = created;
+  }
+  return registry;
+}
+
+/**
+ * Open a CDP session that can address the DOM of a frame.
+ * Same-process frames share the page session; out-of-process iframes need a session
+ * attached to their own target. Detach the session when done.
+ * @param page Puppeteer page
+ * @param frame Frame to address
+ * @returns CDP session
+ */
+export async function openFrameSession(page: Page, frame: FrameTarget = {}): Promise<CDPSession> {
+  const pageSession = await page.createCDPSession();
+  if (!frame.targetId) {
+    return pageSession;
+  }
+
+  const connection = pageSession.connection();
+  await pageSession.detach().catch(() => undefined);
+  if (!connection) {
+    throw new Error(`Cannot attach to out-of-process frame ${frame.targetId}: no browser connection`);
+  }
+
+  const { sessionId } = await connection.send('Target.attachToTarget', { targetId: frame.targetId, flatten: true });
+  const session = connection.session(sessionId);
+  if (!session) {
+    throw new Error(`Cannot attach to out-of-process frame ${frame.targetId}`);
+  }
+  return session;
+}
+
+/**
+ * Build the error thrown when a ref no longer points at a live element
+ * @param ref Element reference ID
+ * @param reason Why the ref is stale
+ * @returns Error to throw
+ */
+export function staleRefError(ref: string, reason: string): Error {
+  return new Error(`Stale ref "${ref}": ${reason}. Take a new accessibility/snapshot and use the refs it returns.`);
+}
+
+/**
+ * Look up the DOM node behind a snapshot ref without touching the page
+ * @param page Puppeteer page
+ * @param ref Element reference ID from accessibility/snapshot (e.g. 's1e5')
+ * @returns Target of the ref
+ * @throws {Error} If the ref is malformed, unknown or belongs to an earlier document
+ */
+export function lookupElementRef(page: Page, ref: string): RefTarget {
+  const { snapshotIndex } = parseElementRefId(ref);
+
+  const registry = getRefRegistry(page);
+  if (!registry.hasAnySnapshot()) {
+    throw new Error(`Unknown ref "${ref}": no accessibility/snapshot has been taken on this page yet`);
+  }
+  if (!registry.hasSnapshot()) {
+    throw staleRefError(ref, 'the page has navigated since the snapshot was taken');
+  }
+
+  const target = registry.lookup(ref);
+  if (!target || target.prefix !== `s${snapshotIndex}`) {
+    throw staleRefError(ref, 'it does not belong to the current document');
+  }
+  return target;
+}
+
+/**
+ * Members Puppeteer's frames use internally to turn a backend node ID into a handle.
+ * They are not part of Puppeteer's public types, so the Puppeteer version is pinned
+ * and test/elementRefs.test.js checks that a real CdpFrame still has them.
+ */
+interface NodeAdoptingFrame {
+  _id: string;
+  mainRealm(): { adoptBackendNode(backendNodeId: number): Promise<JSHandle<Node>> };
+}
+
+/**
+ * Resolve a snapshot ref to the DOM element it was taken from, via its CDP backend node ID.
+ * The node is adopted straight into Puppeteer's realm of its frame, so nothing is exposed to page scripts.
+ * @param page Puppeteer page
+ * @param ref Element reference ID from accessibility/snapshot (e.g. 's1e5')
+ * @returns Handle to the element
+ * @throws {Error} If the ref is malformed, unknown or stale
+ */
+export async function resolveElementRef(page: Page, ref: string): Promise<ElementHandle<Element>> {
+  const target = lookupElementRef(page, ref);
+
+  const frame = target.frame.frameId
+    ? page.frames().find(candidate => (candidate as unknown as NodeAdoptingFrame)._id === target.frame.frameId)
+    : page.mainFrame();
+  if (!frame) {
+    throw staleRefError(ref, 'its frame has been removed from the page');
+  }
+
+  let node: JSHandle<Node>;
+  try {
+    node = await (frame as unknown as NodeAdoptingFrame).mainRealm().adoptBackendNode(target.backendNodeId);
+  } catch {
+    throw staleRefError(ref, 'the element has been removed from the page');
+  }
+
+  // Refs of text nodes act on the element that contains them
+  const handle = await node.evaluateHandle(value => {
+    const element = value.nodeType === Node.ELEMENT_NODE ? value as Element : value.parentElement;
+    return element?.isConnected ? element : null;
+  });
+  await node.dispose();
+
+  const element = handle.asElement();
+  if (!element) {
+    await handle.dispose();
+    throw staleRefError(ref, 'the element is no longer attached to the document');
+  }
+  return element as ElementHandle<Element>;
+}
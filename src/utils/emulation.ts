@@ -0,0 +1,242 @@
+import { CDPSession, KnownDevices, MediaFeature, Page, PredefinedNetworkConditions } from 'puppeteer';
+import debug from 'debug';
+import { getBrowserConfig } from './browserConfig.js';
+
+const logNavigation = debug('mcp-puppeteer:navigation');
+
+/**
+ * Network throttling presets; 'none' turns throttling off
+ */
+export type NetworkPreset = 'none' | 'offline' | 'slow_3g' | 'fast_3g' | 'slow_4g' | 'fast_4g';
+
+/**
+ * Emulated device and environment of a page. Settings that are left out keep their current value.
+ */
+export interface EmulationSettings {
+  /** Name from Puppeteer's known devices, e.g. 'iPhone 13' or 'Pixel 5'; sets viewport, touch and user agent */
+  device?: string;
+  viewport?: {
+    width?: number;
+    height?: number;
+    device_scale_factor?: number;
+    is_mobile?: boolean;
+    has_touch?: boolean;
+    is_landscape?: boolean;
+  };
+  user_agent?: string;
+  locale?: string;
+  timezone?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  /** CSS media type, e.g. 'print' to render print styles on screen */
+  media_type?: 'screen' | 'print';
+  color_scheme?: 'light' | 'dark' | 'no-preference';
+  reduced_motion?: 'reduce' | 'no-preference';
+  /** CPU slowdown factor; 1 turns throttling off */
+  cpu_throttling?: number;
+  network?: NetworkPreset;
+}
+
+const NETWORK_CONDITIONS = {
+  slow_3g: PredefinedNetworkConditions['Slow 3G'],
+  fast_3g: PredefinedNetworkConditions['Fast 3G'],
+  slow_4g: PredefinedNetworkConditions['Slow 4G'],
+  fast_4g: PredefinedNetworkConditions['Fast 4G']
+};
+
+export const NETWORK_PRESETS: NetworkPreset[] = ['none', 'offline', ...Object.keys(NETWORK_CONDITIONS) as NetworkPreset[]];
+
+// Puppeteer has no locale API, so the override lives on a CDP session of our own. Chrome drops
+// the override when that session is detached.
+const localeSessions = new WeakMap<Page, CDPSession>();
+// Origins the geolocation permission was granted to, so that a reset revokes only those grants
+const geolocationOrigins = new WeakMap<Page, Set<string>>();
+
+/**
+ * Check emulation settings before applying any of them
+ * @param settings Settings to check
+ * @throws {Error} If a setting is invalid
+ */
+export function validateEmulation(settings: EmulationSettings): void {
+  if (settings.device !== undefined && !(settings.device in KnownDevices)) {
+    const lower = settings.device.toLowerCase();
+    const similar = Object.keys(KnownDevices).filter(name => name.toLowerCase().includes(lower)).slice(0, 5);
+    throw new Error(`Unknown device "${settings.device}"${similar.length > 0 ? `. Did you mean: ${similar.join(', ')}?` : ''}`);
+  }
+  if (settings.locale !== undefined) {
+    try {
+      Intl.getCanonicalLocales(settings.locale);
+    } catch {
+      throw new Error(`Invalid locale "${settings.locale}"`);
+    }
+  }
+  if (settings.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+    } catch {
+      throw new Error(`Invalid timezone "${settings.timezone}"; use an IANA name such as "Europe/Berlin"`);
+    }
+  }
+  const geolocation = settings.geolocation;
+  if (geolocation && (Math.abs(geolocation.latitude) > 90 || Math.abs(geolocation.longitude) > 180 || (geolocation.accuracy ?? 0) < 0)) {
+    throw new Error('Invalid geolocation: latitude must be within ±90, longitude within ±180 and accuracy not negative');
+  }
+  if (settings.media_type !== undefined && !['screen', 'print'].includes(settings.media_type)) {
+    throw new Error(`Invalid media_type "${settings.media_type}"; use screen or print`);
+  }
+  if (settings.cpu_throttling !== undefined && !(settings.cpu_throttling >= 1)) {
+    throw new Error('cpu_throttling must be 1 (no throttling) or more');
+  }
+  if (settings.network !== undefined && !NETWORK_PRESETS.includes(settings.network)) {
+    throw new Error(`Unknown network preset "${settings.network}". Use one of: ${NETWORK_PRESETS.join(', ')}`);
+  }
+}
+
+/**
+ * Apply emulation settings to a page
+ * @param page Puppeteer page
+ * @param current Settings applied so far
+ * @param changes Settings to change
+ * @returns All settings now in effect
+ */
+export async function applyEmulation(page: Page, current: EmulationSettings, changes: EmulationSettings): Promise<EmulationSettings> {
+  validateEmulation(changes);
+  const origin = new URL(page.url()).origin;
+  if (changes.geolocation && !origin.startsWith('http')) {
+    throw new Error(`Geolocation is granted per origin; navigate to an http(s) page first (the page is at ${page.url()})`);
+  }
+  const settings = { ...current, ...changes };
+
+  // A device sets viewport and user agent, so it goes first and explicit values are applied on top
+  if (changes.device) {
+    await page.emulate(KnownDevices[changes.device as keyof typeof KnownDevices]);
+    logNavigation('Emulating device %s', changes.device);
+  }
+  if (changes.viewport) {
+    const viewport = page.viewport() ?? { width: 1280, height: 800 };
+    await page.setViewport({
+      width: changes.viewport.width ?? viewport.width,
+      height: changes.viewport.height ?? viewport.height,
+      deviceScaleFactor: changes.viewport.device_scale_factor ?? viewport.deviceScaleFactor,
+      isMobile: changes.viewport.is_mobile ?? viewport.isMobile,
+      hasTouch: changes.viewport.has_touch ?? viewport.hasTouch,
+      isLandscape: changes.viewport.is_landscape ?? viewport.isLandscape
+    });
+    settings.viewport = { ...current.viewport, ...changes.viewport };
+  }
+  if (changes.user_agent) {
+    await page.setUserAgent(changes.user_agent);
+  }
+
+  if (changes.locale) {
+    let session = localeSessions.get(page);
+    if (!session) {
+      session = await page.createCDPSession();
+      localeSessions.set(page, session);
+    }
+    await session.send('Emulation.setLocaleOverride', { locale: changes.locale });
+    await page.setExtraHTTPHeaders({ 'Accept-Language': changes.locale });
+  }
+  if (changes.timezone) {
+    await page.emulateTimezone(changes.timezone);
+  }
+
+  if (changes.geolocation) {
+    await setGeolocationPermission(page, origin, 'granted');
+    geolocationOrigins.set(page, new Set(geolocationOrigins.get(page)).add(origin));
+    await page.setGeolocation(changes.geolocation);
+  }
+
+  if (changes.media_type) {
+    await page.emulateMediaType(changes.media_type);
+  }
+  if (changes.color_scheme || changes.reduced_motion) {
+    // Media features replace each other, so both are set from the combined settings
+    await page.emulateMediaFeatures(toMediaFeatures(settings));
+  }
+
+  if (changes.cpu_throttling !== undefined) {
+    await page.emulateCPUThrottling(changes.cpu_throttling > 1 ? changes.cpu_throttling : null);
+  }
+  if (changes.network) {
+    await page.setOfflineMode(changes.network === 'offline');
+    await page.emulateNetworkConditions(changes.network in NETWORK_CONDITIONS ? NETWORK_CONDITIONS[changes.network as keyof typeof NETWORK_CONDITIONS] : null);
+  }
+
+  return settings;
+}
+
+/**
+ * Undo emulation settings, restoring the defaults pages are created with
+ * @param page Puppeteer page
+ * @param current Settings applied so far
+ */
+export async function resetEmulation(page: Page, current: EmulationSettings): Promise<void> {
+  const config = getBrowserConfig();
+
+  if (current.device || current.viewport) {
+    await page.setViewport(config.defaultViewport ?? { width: 1280, height: 800 });
+  }
+  if (current.device || current.user_agent) {
+    await page.setUserAgent(config.userAgent ?? await page.browser().userAgent());
+  }
+  if (current.locale) {
+    await localeSessions.get(page)?.detach().catch(() => undefined);
+    localeSessions.delete(page);
+    await page.setExtraHTTPHeaders({});
+  }
+  if (current.timezone) {
+    await page.emulateTimezone();
+  }
+  if (current.geolocation) {
+    // Puppeteer cannot clear a geolocation override, so the permission to read it is revoked instead
+    for (const origin of geolocationOrigins.get(page) ?? []) {
+      await setGeolocationPermission(page, origin, 'prompt');
+    }
+    geolocationOrigins.delete(page);
+  }
+  if (current.media_type) {
+    await page.emulateMediaType();
+  }
+  if (current.color_scheme || current.reduced_motion) {
+    await page.emulateMediaFeatures();
+  }
+  if (current.cpu_throttling !== undefined) {
+    await page.emulateCPUThrottling(null);
+  }
+  if (current.network) {
+    await page.setOfflineMode(false);
+    await page.emulateNetworkConditions(null);
+  }
+}
+
+/**
+ * Set the geolocation permission of one origin. Unlike BrowserContext.overridePermissions, which
+ * replaces every permission override of the origin, this leaves other permissions alone.
+ * @param page Puppeteer page
+ * @param origin Origin the permission applies to
+ * @param setting 'granted', or 'prompt' to return to the default
+ */
+async function setGeolocationPermission(page: Page, origin: string, setting: 'granted' | 'prompt'): Promise<void> {
+  const session = await page.browser().target().createCDPSession();
+  try {
+    await session.send('Browser.setPermission', {
+      permission: { name: 'geolocation' },
+      setting,
+      origin,
+      browserContextId: page.browserContext().id
+    });
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
+
+function toMediaFeatures(settings: EmulationSettings): MediaFeature[] {
+  const features: MediaFeature[] = [];
+  if (settings.color_scheme) {
+    features.push({ name: 'prefers-color-scheme', value: settings.color_scheme });
+  }
+  if (settings.reduced_motion) {
+    features.push({ name: 'prefers-reduced-motion', value: settings.reduced_motion });
+  }
+  return features;
+}
@@ -0,0 +1,168 @@
+import type { ElementHandle } from 'puppeteer';
+
+/**
+ * Value for a form field: text for text-like inputs, a boolean for checkboxes and radios,
+ * or an option value or label (or several for multi-selects)
+ */
+export type FieldValue = string | number | boolean | string[];
+
+/**
+ * How a field is filled, derived from the element
+ */
+export type FieldKind = 'text' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'contenteditable' | 'date';
+
+/**
+ * Outcome of filling one field
+ */
+export interface FieldResult {
+  target: string;
+  kind?: FieldKind;
+  status: 'filled' | 'unchanged' | 'error';
+  value?: FieldValue;
+  error?: string;
+}
+
+// Inputs whose value is set directly because typing into them depends on the browser locale
+const VALUE_INPUT_TYPES = ['date', 'datetime-local', 'month', 'week', 'time', 'color', 'range'];
+
+/**
+ * Determine how an element is filled
+ * @param element Form control
+ * @returns Field kind
+ * @throws {Error} If the element cannot be filled
+ */
+export async function detectFieldKind(element: ElementHandle<Element>): Promise<FieldKind> {
+  const { tag, type, editable } = await element.evaluate(el => ({
+    tag: el.tagName.toLowerCase(),
+    type: (el.getAttribute('type') ?? 'text').toLowerCase(),
+    editable: (el as HTMLElement).isContentEditable
+  }));
+
+  if (tag === 'select') return 'select';
+  if (tag === 'textarea') return 'textarea';
+  if (tag === 'input') {
+    if (type === 'checkbox') return 'checkbox';
+    if (type === 'radio') return 'radio';
+    if (VALUE_INPUT_TYPES.includes(type)) return 'date';
+    // File inputs are left out, so that pages cannot get an agent to upload local files
+    if (['button', 'submit', 'reset', 'image', 'hidden', 'file'].includes(type)) {
+      throw new Error(`Cannot fill an input of type "${type}"`);
+    }
+    return 'text';
+  }
+  if (editable) return 'contenteditable';
+  throw new Error(`Cannot fill a <${tag}> element`);
+}
+
+/**
+ * Fill one form control according to its kind, replacing any existing value
+ * @param element Form control
+ * @param value Value to fill in
+ * @returns Field kind and whether the value changed
+ */
+export async function fillField(element: ElementHandle<Element>, value: FieldValue): Promise<{ kind: FieldKind; changed: boolean }> {
+  const kind = await detectFieldKind(element);
+
+  switch (kind) {
+    case 'select': {
+      const wanted = (Array.isArray(value) ? value : [value]).map(String);
+      // Options can be given by value or by visible label
+      const values = await element.evaluate((el, items) => {
+        const options = Array.from((el as HTMLSelectElement).options);
+        return items.map(item => {
+          const option = options.find(o => o.value === item) ?? options.find(o => o.label.trim() === item.trim());
+          if (!option) throw new Error(`No option "${item}"`);
+          return option.value;
+        });
+      }, wanted);
+      await (element as ElementHandle<HTMLSelectElement>).select(...values);
+      return { kind, changed: true };
+    }
+
+    case 'checkbox': {
+      const checked = toBoolean(value);
+      const current = await element.evaluate(el => (el as HTMLInputElement).checked);
+      if (current === checked) return { kind, changed: false };
+      await element.click();
+      return { kind, changed: true };
+    }
+
+    case 'radio': {
+      // true checks the radio itself; any other value picks the radio of the same group with that value or label
+      if (value === false || value === 'false') {
+        throw new Error('A radio button cannot be unchecked; check another radio of the group instead');
+      }
+      const radio = value === true || value === 'true' ? element : await findRadio(element, String(value));
+      if (await radio.evaluate(el => (el as HTMLInputElement).checked)) return { kind, changed: false };
+      await radio.click();
+      return { kind, changed: true };
+    }
+
+    case 'date': {
+      await element.evaluate((el, text) => {
+        const input = el as HTMLInputElement;
+        // Use the native setter so that frameworks tracking the value property notice the change
+        Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set?.call(input, text);
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+        input.dispatchEvent(new Event('change', { bubbles: true }));
+      }, String(value));
+      return { kind, changed: true };
+    }
+
+    case 'contenteditable': {
+      await element.focus();
+      await element.evaluate(el => {
+        const selection = el.ownerDocument.getSelection();
+        const range = el.ownerDocument.createRange();
+        range.selectNodeContents(el);
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+      });
+      await element.press('Backspace');
+      await element.type(String(value));
+      return { kind, changed: true };
+    }
+
+    default: {
+      // Clear through the native setter (selection APIs are not available on all input types), then type
+      await element.evaluate(el => {
+        const prototype = el instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+        Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(el, '');
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        (el as HTMLElement).focus();
+      });
+      await element.type(String(value));
+      return { kind, changed: true };
+    }
+  }
+}
+
+/**
+ * Parse a checkbox value
+ * @param value Field value
+ * @returns Whether the box should be checked
+ */
+export function toBoolean(value: FieldValue): boolean {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'on', 'yes', '1', 'checked'].includes(text)) return true;
+  if (['false', 'off', 'no', '0', 'unchecked', ''].includes(text)) return false;
+  throw new Error(`Expected true or false for a checkbox, got "${value}"`);
+}
+
+async function findRadio(element: ElementHandle<Element>, value: string): Promise<ElementHandle<Element>> {
+  const handle = await element.evaluateHandle((el, wanted) => {
+    const input = el as HTMLInputElement;
+    const scope = input.form ?? input.ownerDocument;
+    const group = Array.from(scope.querySelectorAll<HTMLInputElement>('input[type="radio"]')).filter(r => r.name === input.name);
+    const labelOf = (radio: HTMLInputElement) => Array.from(radio.labels ?? []).map(l => l.textContent?.trim()).join(' ');
+    return group.find(r => r.value === wanted) ?? group.find(r => labelOf(r) === wanted.trim()) ?? null;
+  }, value);
+
+  const radio = handle.asElement();
+  if (!radio) {
+    await handle.dispose();
+    throw new Error(`No radio button with value or label "${value}" in this group`);
+  }
+  return radio as ElementHandle<Element>;
+}
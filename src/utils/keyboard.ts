@@ -0,0 +1,90 @@
+import type { KeyInput } from 'puppeteer';
+
+const MODIFIERS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+// Common spellings that differ from the key names Puppeteer expects
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: 'Control',
+  control: 'Control',
+  shift: 'Shift',
+  alt: 'Alt',
+  option: 'Alt',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  super: 'Meta',
+  esc: 'Escape',
+  escape: 'Escape',
+  return: 'Enter',
+  enter: 'Enter',
+  del: 'Delete',
+  delete: 'Delete',
+  backspace: 'Backspace',
+  tab: 'Tab',
+  space: ' ',
+  spacebar: ' ',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  home: 'Home',
+  end: 'End',
+  insert: 'Insert'
+};
+
+/**
+ * A key press with the modifiers held while pressing it
+ */
+export interface KeyChord {
+  modifiers: KeyInput[];
+  key: KeyInput;
+}
+
+/**
+ * Parse a key or chord such as 'Escape', 'Control+A' or 'Shift+Tab'
+ * @param chord Keys joined by '+'; the last one is pressed, the others are held
+ * @returns Modifiers and key in Puppeteer's key names
+ * @throws {Error} If the chord is empty or holds a non-modifier before the last key
+ */
+export function parseKeyChord(chord: string): KeyChord {
+  // A literal '+' key is written on its own or as the last part, e.g. 'Shift++'
+  const parts = chord === '+' ? ['+'] : chord.endsWith('++') ? [...chord.slice(0, -2).split('+'), '+'] : chord.split('+');
+  const keys = parts.map(part => normalizeKey(part.trim()));
+  if (keys.some(key => key === '')) {
+    throw new Error(`Invalid key: "${chord}"`);
+  }
+
+  const key = keys[keys.length - 1];
+  const modifiers = keys.slice(0, -1);
+  const invalid = modifiers.find(modifier => !MODIFIERS.includes(modifier));
+  if (invalid) {
+    throw new Error(`"${invalid}" in "${chord}" is not a modifier. Use Control, Shift, Alt or Meta before the last key.`);
+  }
+
+  return { modifiers: modifiers as KeyInput[], key: key as KeyInput };
+}
+
+/**
+ * Parse a list of modifier names
+ * @param modifiers Modifier names, e.g. ['Shift', 'Ctrl']
+ * @returns Modifiers in Puppeteer's key names
+ * @throws {Error} If a name is not a modifier
+ */
+export function parseModifiers(modifiers: string[] = []): KeyInput[] {
+  return modifiers.map(modifier => {
+    const key = normalizeKey(modifier);
+    if (!MODIFIERS.includes(key)) {
+      throw new Error(`"${modifier}" is not a modifier. Use Control, Shift, Alt or Meta.`);
+    }
+    return key as KeyInput;
+  });
+}
+
+function normalizeKey(key: string): string {
+  if (key.length === 1) {
+    return key;
+  }
+  return KEY_ALIASES[key.toLowerCase()] ?? key;
+}
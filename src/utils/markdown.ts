@@ -0,0 +1,282 @@
+/**
+ * Options of the Markdown conversion
+ */
+export interface MarkdownOptions {
+  /** Convert this element instead of the detected main content */
+  selector?: string;
+  includeImages?: boolean;
+}
+
+/**
+ * Main content of a page as Markdown
+ */
+export interface PageMarkdown {
+  title: string;
+  url: string;
+  markdown: string;
+}
+
+/**
+ * One page of a long text
+ */
+export interface TextPage {
+  text: string;
+  total_chars: number;
+  offset: number;
+  next_offset: number | null;
+  has_more: boolean;
+}
+
+/**
+ * Find the main content of the document, Readability-style, and convert it to Markdown.
+ * Runs in the page, so everything it uses is defined inside the function.
+ * @param options Root selector and whether to include images
+ * @returns Title, URL and Markdown of the main content
+ * @throws {Error} If the selector matches no element
+ */
+export function pageToMarkdown(options: MarkdownOptions = {}): PageMarkdown {
+  const includeImages = options.includeImages ?? true;
+  const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE',
+    'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION',
+    'SUMMARY', 'TABLE', 'UL'
+  ]);
+  const SKIPPED_TAGS = new Set([
+    'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'OBJECT', 'EMBED', 'CANVAS', 'BUTTON', 'INPUT', 'SELECT',
+    'TEXTAREA', 'FORM', 'NAV', 'ASIDE', 'DIALOG'
+  ]);
+  const SKIPPED_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'search', 'menu', 'menubar'];
+  const UNLIKELY = /cookie|consent|gdpr|banner|breadcrumb|comment|footer|header|masthead|menu|nav|sidebar|social|share|popup|modal|subscribe|newsletter|advert|sponsor|promo|related|skip-link/i;
+  const LIKELY = /article|body|content|entry|main|post|story|text|blog/i;
+
+  // Assigned before use: isSkipped() reads it while the main content is being detected
+  let root: Element | null = null;
+  root = options.selector ? document.querySelector(options.selector) : findMainContent();
+  if (!root) {
+    throw new Error(`Element not found: ${options.selector}`);
+  }
+
+  const markdown = blocks(root).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  return { title: document.title, url: location.href, markdown };
+
+  function isSkipped(el: Element): boolean {
+    if (el === root) return false;
+    if (SKIPPED_TAGS.has(el.tagName) || el.localName === 'svg' || el.localName === 'math') return true;
+    if ((el.tagName === 'HEADER' || el.tagName === 'FOOTER') && !el.closest('article')) return true;
+    if (el.hasAttribute('hidden') || el.getAttribute('aria-hidden') === 'true') return true;
+    if (SKIPPED_ROLES.includes(el.getAttribute('role') ?? '')) return true;
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return true;
+    const names = `${el.id} ${typeof el.className === 'string' ? el.className : ''}`;
+    return UNLIKELY.test(names) && !LIKELY.test(names) && !['BODY', 'ARTICLE', 'MAIN'].includes(el.tagName);
+  }
+
+  function isExcluded(el: Element): boolean {
+    for (let current: Element | null = el; current && current !== document.body; current = current.parentElement) {
+      if (isSkipped(current)) return true;
+    }
+    return false;
+  }
+
+  function findMainContent(): Element {
+    const scores = new Map<Element, number>();
+    const initialScore = (el: Element) => {
+      const names = `${el.id} ${typeof el.className === 'string' ? el.className : ''}`;
+      let score = ({ ARTICLE: 10, MAIN: 10, DIV: 5, SECTION: 5, PRE: 3, TD: 3, BLOCKQUOTE: 3 } as Record<string, number>)[el.tagName] ?? 0;
+      if (LIKELY.test(names)) score += 25;
+      if (UNLIKELY.test(names)) score -= 25;
+      return score;
+    };
+    const addScore = (el: Element | null, score: number) => {
+      if (!el || el === document.documentElement) return;
+      scores.set(el, (scores.get(el) ?? initialScore(el)) + score);
+    };
+
+    for (const paragraph of Array.from(document.body.querySelectorAll('p, pre, td, blockquote'))) {
+      const text = (paragraph.textContent ?? '').trim();
+      if (text.length < 25 || isExcluded(paragraph)) continue;
+      const score = 1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+      addScore(paragraph.parentElement, score);
+      addScore(paragraph.parentElement?.parentElement ?? null, score / 2);
+    }
+
+    let top: Element | null = null;
+    let topScore = 0;
+    for (const [el, score] of scores) {
+      const adjusted = score * (1 - linkDensity(el));
+      scores.set(el, adjusted);
+      if (adjusted > topScore) {
+        top = el;
+        topScore = adjusted;
+      }
+    }
+    if (!top) {
+      return document.querySelector('main, [role="main"], article') ?? document.body;
+    }
+
+    // Content split over sibling containers: take their common parent
+    const parent = top.parentElement;
+    if (parent && parent !== document.documentElement) {
+      const siblings = Array.from(parent.children).filter(sibling => sibling !== top && (scores.get(sibling) ?? 0) >= Math.max(10, topScore * 0.2));
+      if (siblings.length > 0) return parent;
+    }
+    return top;
+  }
+
+  function linkDensity(el: Element): number {
+    const length = (el.textContent ?? '').trim().length;
+    if (length === 0) return 0;
+    const links = Array.from(el.querySelectorAll('a')).reduce((sum, a) => sum + (a.textContent ?? '').trim().length, 0);
+    return links / length;
+  }
+
+  function blocks(el: Element): string[] {
+    const result: string[] = [];
+    let run = '';
+    const flush = () => {
+      const text = run.replace(/ {2,}/g, ' ').replace(/ *\n */g, '\n').trim();
+      if (text) result.push(text);
+      run = '';
+    };
+
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName)) {
+        flush();
+        if (!isSkipped(child as Element)) result.push(...block(child as Element));
+      } else {
+        run += inline(child);
+      }
+    }
+    flush();
+    return result;
+  }
+
+  function block(el: Element): string[] {
+    switch (el.tagName) {
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+        const text = inline(el).replace(/\s+/g, ' ').trim();
+        return text ? [`${'#'.repeat(Number(el.tagName[1]))} ${text}`] : [];
+      }
+      case 'PRE': {
+        const code = (el.textContent ?? '').replace(/\n$/, '');
+        const language = /language-(\S+)/.exec(`${el.className} ${el.querySelector('code')?.className ?? ''}`)?.[1] ?? '';
+        const fence = code.includes('```') ? '````' : '```';
+        return [`${fence}${language}\n${code}\n${fence}`];
+      }
+      case 'UL': case 'OL':
+        return list(el);
+      case 'BLOCKQUOTE': {
+        const content = blocks(el).join('\n\n');
+        return content ? [content.split('\n').map(line => line ? `> ${line}` : '>').join('\n')] : [];
+      }
+      case 'TABLE':
+        return table(el as HTMLTableElement);
+      case 'HR':
+        return ['---'];
+      default:
+        return blocks(el);
+    }
+  }
+
+  function list(el: Element): string[] {
+    const ordered = el.tagName === 'OL';
+    let number = ordered ? (el as HTMLOListElement).start || 1 : 0;
+    const items: string[] = [];
+    for (const item of Array.from(el.children)) {
+      if (item.tagName !== 'LI' || isSkipped(item)) continue;
+      const marker = ordered ? `${number++}. ` : '- ';
+      const content = blocks(item).join('\n');
+      if (!content) continue;
+      const indent = ' '.repeat(marker.length);
+      items.push(marker + content.split('\n').map((line, i) => i === 0 || !line ? line : indent + line).join('\n'));
+    }
+    return items.length > 0 ? [items.join('\n')] : [];
+  }
+
+  function table(el: HTMLTableElement): string[] {
+    const rows = Array.from(el.rows)
+      .filter(row => !isSkipped(row))
+      .map(row => Array.from(row.cells).map(cell => inline(cell).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()));
+    if (rows.length === 0) return [];
+    const columns = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+    return [[line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n')];
+  }
+
+  function inline(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return (node.textContent ?? '').replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    if (isSkipped(el)) return '';
+
+    const content = () => Array.from(el.childNodes).map(inline).join('');
+    switch (el.tagName) {
+      case 'BR':
+        return '\n';
+      case 'STRONG': case 'B':
+        return wrap(content(), '**');
+      case 'EM': case 'I':
+        return wrap(content(), '*');
+      case 'DEL': case 'S':
+        return wrap(content(), '~~');
+      case 'CODE': {
+        const text = el.textContent ?? '';
+        const fence = text.includes('`') ? '``' : '`';
+        return text ? `${fence}${text}${fence}` : '';
+      }
+      case 'A': {
+        const text = content().replace(/\s+/g, ' ').trim();
+        const href = (el as HTMLAnchorElement).href;
+        const samePage = href.split('#')[0] === location.href.split('#')[0] && href.includes('#');
+        if (!text || !/^(https?|mailto):/.test(href) || samePage) return text;
+        return `[${text}](${href})`;
+      }
+      case 'IMG': {
+        const image = el as HTMLImageElement;
+        const src = image.currentSrc || image.src;
+        if (!includeImages || !/^https?:/.test(src)) return '';
+        return `![${image.alt.replace(/[[\]]/g, '')}](${src})`;
+      }
+      default:
+        // Block elements nested in inline ones are flattened
+        return BLOCK_TAGS.has(el.tagName) ? ` ${content()} ` : content();
+    }
+  }
+
+  // Markers must touch the text, so surrounding whitespace is moved outside of them
+  function wrap(text: string, marker: string): string {
+    const trimmed = text.trim();
+    if (!trimmed) return text;
+    return `${text.startsWith(' ') ? ' ' : ''}${marker}${trimmed}${marker}${text.endsWith(' ') ? ' ' : ''}`;
+  }
+}
+
+/**
+ * Cut a long text into pages, preferring to break between paragraphs
+ * @param text Full text
+ * @param offset Character offset to start at
+ * @param maxChars Maximum length of the page
+ * @returns Page of text and the offset of the next page
+ */
+export function paginateText(text: string, offset = 0, maxChars = 20000): TextPage {
+  const start = Math.max(0, Math.min(offset, text.length));
+  let end = Math.min(start + maxChars, text.length);
+  if (end < text.length) {
+    const paragraphBreak = text.lastIndexOf('\n\n', end);
+    const breakAt = paragraphBreak > start + maxChars / 2 ? paragraphBreak : text.lastIndexOf('\n', end);
+    if (breakAt > start + maxChars / 2) {
+      end = breakAt;
+    }
+  }
+
+  const hasMore = end < text.length;
+  return {
+    text: text.slice(start, end).trim(),
+    total_chars: text.length,
+    offset: start,
+    next_offset: hasMore ? end : null,
+    has_more: hasMore
+  };
+}
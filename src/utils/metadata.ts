@@ -0,0 +1,105 @@
+type MetaValue = string | string[];
+
+/**
+ * Item found through microdata attributes (itemscope, itemtype, itemprop)
+ */
+export interface MicrodataItem {
+  type?: string;
+  id?: string;
+  properties: Record<string, (string | MicrodataItem)[]>;
+}
+
+/**
+ * Metadata of a page
+ */
+export interface PageMetadata {
+  title: string;
+  url: string;
+  canonical_url: string | null;
+  description: string | null;
+  language: string | null;
+  open_graph: Record<string, MetaValue>;
+  twitter: Record<string, MetaValue>;
+  json_ld: unknown[];
+  microdata: MicrodataItem[];
+}
+
+/**
+ * Read the title, canonical URL, description, OpenGraph and Twitter tags, JSON-LD and microdata of the document.
+ * Tags that occur several times, such as og:image, have an array of values.
+ * JSON-LD blocks that fail to parse are returned as { error, source }.
+ * Runs in the page, so everything it uses is defined inside the function.
+ * @returns Page metadata
+ */
+export function extractMetadata(): PageMetadata {
+  const meta = (prefix: string, attribute: string) => {
+    const values: Record<string, MetaValue> = {};
+    for (const tag of Array.from(document.querySelectorAll<HTMLMetaElement>(`meta[${attribute}^="${prefix}"]`))) {
+      const key = (tag.getAttribute(attribute) ?? '').slice(prefix.length);
+      const existing = values[key];
+      values[key] = existing === undefined ? tag.content : [...(Array.isArray(existing) ? existing : [existing]), tag.content];
+    }
+    return values;
+  };
+
+  const jsonLd: unknown[] = [];
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    const source = script.textContent ?? '';
+    try {
+      const parsed = JSON.parse(source);
+      jsonLd.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    } catch (error) {
+      jsonLd.push({ error: `Invalid JSON-LD: ${(error as Error).message}`, source: source.slice(0, 500) });
+    }
+  }
+
+  const propertyValue = (el: Element): string | MicrodataItem => {
+    if (el.hasAttribute('itemscope')) return readItem(el);
+    if (el.hasAttribute('content')) return el.getAttribute('content') ?? '';
+    switch (el.tagName) {
+      case 'A': case 'AREA': case 'LINK':
+        return (el as HTMLAnchorElement).href;
+      case 'IMG': case 'AUDIO': case 'VIDEO': case 'SOURCE': case 'EMBED': case 'IFRAME': case 'TRACK':
+        return (el as HTMLImageElement).src;
+      case 'OBJECT':
+        return (el as HTMLObjectElement).data;
+      case 'TIME':
+        return el.getAttribute('datetime') ?? (el.textContent ?? '').trim();
+      case 'DATA': case 'METER':
+        return el.getAttribute('value') ?? '';
+      default:
+        return (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+    }
+  };
+
+  function readItem(item: Element): MicrodataItem {
+    const properties: Record<string, (string | MicrodataItem)[]> = {};
+    for (const prop of Array.from(item.querySelectorAll('[itemprop]'))) {
+      // Properties of nested items belong to those items
+      if (prop.parentElement?.closest('[itemscope]') !== item) continue;
+      const value = propertyValue(prop);
+      for (const name of (prop.getAttribute('itemprop') ?? '').split(/\s+/).filter(Boolean)) {
+        (properties[name] ??= []).push(value);
+      }
+    }
+    return {
+      ...(item.getAttribute('itemtype') && { type: item.getAttribute('itemtype') as string }),
+      ...(item.getAttribute('itemid') && { id: item.getAttribute('itemid') as string }),
+      properties
+    };
+  }
+
+  const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  return {
+    title: document.title,
+    url: location.href,
+    canonical_url: canonical ? canonical.href : null,
+    description: document.querySelector<HTMLMetaElement>('meta[name="description"]')?.content ?? null,
+    language: document.documentElement.lang || null,
+    open_graph: meta('og:', 'property'),
+    // Twitter cards are specified with name, but many sites use property
+    twitter: { ...meta('twitter:', 'property'), ...meta('twitter:', 'name') },
+    json_ld: jsonLd,
+    microdata: Array.from(document.querySelectorAll('[itemscope]:not([itemprop])')).map(readItem)
+  };
+}
@@ -0,0 +1,355 @@
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import debug from 'debug';
+
+const logNavigation = debug('mcp-puppeteer:navigation');
+
+const MAX_ENTRIES = 1000;
+const BODY_PREVIEW_LIMIT = 4096;
+// Only bodies of these resource types are read back from the browser
+const BODY_RESOURCE_TYPES = ['document', 'xhr', 'fetch', 'other'];
+const TEXT_MIME_TYPE = /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|x-www-form-urlencoded|graphql))/i;
+
+/**
+ * Phase durations of a request in milliseconds, -1 when a phase did not happen
+ */
+export interface NetworkTiming {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+/**
+ * Serializable record of one request and its response
+ */
+export interface NetworkEntry {
+  id: number;
+  method: string;
+  url: string;
+  resource_type: string;
+  status: number | null;
+  status_text: string;
+  mime_type: string;
+  started_at: string;
+  duration_ms: number | null;
+  timing: NetworkTiming | null;
+  request_headers: Record<string, string>;
+  response_headers: Record<string, string>;
+  post_data?: string;
+  body_size: number | null;
+  body_preview?: string;
+  body_truncated?: boolean;
+  from_cache: boolean;
+  remote_address?: string;
+  failure?: string;
+  page_url: string;
+}
+
+/**
+ * Filter for captured requests. All given conditions must match.
+ */
+export interface NetworkFilter {
+  urlPattern?: string;
+  resourceTypes?: string[];
+  statusMin?: number;
+  statusMax?: number;
+  failedOnly?: boolean;
+}
+
+/**
+ * Records the requests made by one page, keeping the most recent MAX_ENTRIES
+ */
+export class NetworkLog {
+  private entries: NetworkEntry[] = [];
+  private pending = new Map<HTTPRequest, { entry: NetworkEntry; startedAt: number }>();
+  private nextId = 1;
+  private dropped = 0;
+
+  /**
+   * Start recording the requests of a page
+   * @param page Puppeteer page
+   */
+  attach(page: Page): void {
+    page.on('request', request => this.onRequest(request, page));
+    page.on('response', response => this.onResponse(response));
+    page.on('requestfinished', request => this.onFinished(request));
+    page.on('requestfailed', request => this.onFailed(request));
+  }
+
+  /**
+   * Get the captured requests in the order they were made
+   * @param filter Conditions the requests must match
+   * @returns Matching entries
+   */
+  list(filter: NetworkFilter = {}): NetworkEntry[] {
+    return filterNetworkEntries(this.entries, filter);
+  }
+
+  /**
+   * Number of entries discarded because the log was full
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Forget all captured requests
+   */
+  clear(): void {
+    this.entries = [];
+    this.pending.clear();
+    this.dropped = 0;
+  }
+
+  private onRequest(request: HTTPRequest, page: Page): void {
+    const entry: NetworkEntry = {
+      id: this.nextId++,
+      method: request.method(),
+      url: request.url(),
+      resource_type: request.resourceType(),
+      status: null,
+      status_text: '',
+      mime_type: '',
+      started_at: new Date().toISOString(),
+      duration_ms: null,
+      timing: null,
+      request_headers: request.headers(),
+      response_headers: {},
+      post_data: request.postData(),
+      body_size: null,
+      from_cache: false,
+      page_url: page.url()
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      const removed = this.entries.shift();
+      this.dropped++;
+      for (const [key, value] of this.pending) {
+        if (value.entry === removed) this.pending.delete(key);
+      }
+    }
+    this.pending.set(request, { entry, startedAt: Date.now() });
+  }
+
+  private onResponse(response: HTTPResponse): void {
+    const record = this.pending.get(response.request());
+    if (!record) return;
+
+    const { entry } = record;
+    const headers = response.headers();
+    entry.status = response.status();
+    entry.status_text = response.statusText();
+    entry.response_headers = headers;
+    entry.mime_type = (headers['content-type'] ?? '').split(';')[0].trim();
+    entry.from_cache = response.fromCache() || response.fromServiceWorker();
+    entry.timing = toNetworkTiming(response.timing());
+
+    const contentLength = parseInt(headers['content-length'] ?? '', 10);
+    entry.body_size = Number.isNaN(contentLength) ? null : contentLength;
+
+    const { ip, port } = response.remoteAddress();
+    if (ip) {
+      entry.remote_address = port ? `${ip}:${port}` : ip;
+    }
+  }
+
+  private async onFinished(request: HTTPRequest): Promise<void> {
+    const record = this.pending.get(request);
+    if (!record) return;
+    this.pending.delete(request);
+
+    const { entry, startedAt } = record;
+    entry.duration_ms = Date.now() - startedAt;
+    completeTiming(entry);
+
+    const response = request.response();
+    if (!response || !BODY_RESOURCE_TYPES.includes(entry.resource_type) || !TEXT_MIME_TYPE.test(entry.mime_type)) {
+      return;
+    }
+
+    // Redirects and some cached responses have no body available
+    try {
+      const body = await response.buffer();
+      entry.body_size = body.length;
+      const text = body.toString('utf8');
+      entry.body_preview = text.slice(0, BODY_PREVIEW_LIMIT);
+      entry.body_truncated = text.length > BODY_PREVIEW_LIMIT;
+    } catch (error: any) {
+      logNavigation('No body available for %s: %s', entry.url, error.message);
+    }
+  }
+
+  private onFailed(request: HTTPRequest): void {
+    const record = this.pending.get(request);
+    if (!record) return;
+    this.pending.delete(request);
+
+    record.entry.duration_ms = Date.now() - record.startedAt;
+    record.entry.failure = request.failure()?.errorText ?? 'Unknown error';
+  }
+}
+
+/**
+ * Convert a CDP resource timing into phase durations
+ * @param timing Timing reported with the response
+ * @returns Phase durations, or null if the browser reported none
+ */
+function toNetworkTiming(timing: ReturnType<HTTPResponse['timing']>): NetworkTiming | null {
+  if (!timing) return null;
+
+  const span = (start: number, end: number) => (start >= 0 && end >= 0 ? round(end - start) : -1);
+  const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find(value => value >= 0);
+
+  return {
+    blocked: firstStart !== undefined ? round(firstStart) : -1,
+    dns: span(timing.dnsStart, timing.dnsEnd),
+    // HAR counts the TLS handshake as part of connecting
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.sslStart, timing.sslEnd),
+    send: span(timing.sendStart, timing.sendEnd),
+    wait: span(timing.sendEnd, timing.receiveHeadersEnd),
+    receive: -1
+  };
+}
+
+/**
+ * Derive the receive phase once the total duration of a request is known
+ * @param entry Finished entry
+ */
+function completeTiming(entry: NetworkEntry): void {
+  if (!entry.timing || entry.duration_ms === null) return;
+  const { blocked, dns, connect, send, wait } = entry.timing;
+  const elapsed = [blocked, dns, connect, send, wait].reduce((sum, value) => sum + Math.max(value, 0), 0);
+  entry.timing.receive = round(Math.max(entry.duration_ms - elapsed, 0));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Check whether a URL matches a pattern. Patterns containing '*' are globs matched against
+ * the whole URL; any other pattern matches as a substring.
+ * @param url URL to check
+ * @param pattern Glob or substring
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return url.includes(pattern);
+  }
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * Select the entries matching a filter
+ * @param entries Captured entries
+ * @param filter Conditions the entries must match
+ * @returns Matching entries
+ */
+export function filterNetworkEntries(entries: NetworkEntry[], filter: NetworkFilter): NetworkEntry[] {
+  return entries.filter(entry => {
+    if (filter.urlPattern && !matchesUrlPattern(entry.url, filter.urlPattern)) return false;
+    if (filter.resourceTypes?.length && !filter.resourceTypes.includes(entry.resource_type)) return false;
+    if (filter.failedOnly && !entry.failure && (entry.status === null || entry.status < 400)) return false;
+    if (filter.statusMin !== undefined && (entry.status === null || entry.status < filter.statusMin)) return false;
+    if (filter.statusMax !== undefined && (entry.status === null || entry.status > filter.statusMax)) return false;
+    return true;
+  });
+}
+
+/**
+ * Build a HAR 1.2 log from captured entries
+ * @param entries Captured entries
+ * @param creator Name and version of the creating application
+ * @returns HAR document
+ */
+export function toHar(entries: NetworkEntry[], creator: { name: string; version: string }) {
+  const pages = new Map<string, { id: string; startedDateTime: string; title: string; pageTimings: Record<string, number> }>();
+  for (const entry of entries) {
+    if (!pages.has(entry.page_url)) {
+      pages.set(entry.page_url, {
+        id: `page_${pages.size + 1}`,
+        startedDateTime: entry.started_at,
+        title: entry.page_url,
+        pageTimings: { onContentLoad: -1, onLoad: -1 }
+      });
+    }
+  }
+
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      pages: [...pages.values()],
+      entries: entries.map(entry => {
+        const timing = entry.timing ?? { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: entry.duration_ms ?? 0, receive: 0 };
+        const url = safeUrl(entry.url);
+        return {
+          pageref: pages.get(entry.page_url)?.id,
+          startedDateTime: entry.started_at,
+          time: entry.duration_ms ?? -1,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.request_headers),
+            queryString: url ? [...url.searchParams].map(([name, value]) => ({ name, value })) : [],
+            ...(entry.post_data !== undefined && {
+              postData: { mimeType: entry.request_headers['content-type'] ?? '', text: entry.post_data }
+            }),
+            headersSize: -1,
+            bodySize: entry.post_data !== undefined ? Buffer.byteLength(entry.post_data) : 0
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.status_text,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.response_headers),
+            content: {
+              size: entry.body_size ?? -1,
+              mimeType: entry.mime_type || 'x-unknown',
+              ...(entry.body_preview !== undefined && { text: entry.body_preview }),
+              ...(entry.body_truncated && { comment: `Body truncated to ${BODY_PREVIEW_LIMIT} characters` })
+            },
+            redirectURL: entry.response_headers['location'] ?? '',
+            headersSize: -1,
+            bodySize: entry.body_size ?? -1
+          },
+          cache: {},
+          timings: {
+            blocked: timing.blocked,
+            dns: timing.dns,
+            connect: timing.connect,
+            ssl: timing.ssl,
+            send: Math.max(timing.send, 0),
+            wait: Math.max(timing.wait, 0),
+            receive: Math.max(timing.receive, 0)
+          },
+          ...(entry.remote_address && { serverIPAddress: entry.remote_address.replace(/:\d+$/, '').replace(/^\[|\]$/g, '') }),
+          _resourceType: entry.resource_type,
+          ...(entry.failure && { _error: entry.failure })
+        };
+      })
+    }
+  };
+}
+
+function toHarHeaders(headers: Record<string, string>) {
+  // Puppeteer joins repeated headers with newlines
+  return Object.entries(headers).flatMap(([name, value]) => value.split('\n').map(part => ({ name, value: part })));
+}
+
+function safeUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+
+/**
+ * One tool call of a recording
+ */
+export interface RecordedStep {
+  index: number;
+  tool: string;
+  params: Record<string, unknown>;
+  /** CSS selectors for the refs in params, by parameter path such as "ref" or "fields.0.ref" */
+  resolved_selectors?: Record<string, string>;
+  started_at: string;
+  /** Milliseconds since the recording started */
+  offset_ms: number;
+  duration_ms: number;
+  outcome: 'success' | 'error';
+  error?: string;
+  /** Active tab and its URL after the call */
+  tab_id: string | null;
+  url: string | null;
+}
+
+/**
+ * Recorded tool calls of a session, as written to a trace file
+ */
+export interface Recording {
+  version: 1;
+  name: string;
+  started_at: string;
+  stopped_at?: string;
+  /** Active tab when the recording started */
+  initial_tab_id: string | null;
+  steps: RecordedStep[];
+}
+
+/**
+ * Records the tool calls of a session
+ */
+export class SessionRecorder {
+  private recording: Recording | null = null;
+  private startedAt = 0;
+
+  get active(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Start recording
+   * @param name Name of the recording
+   * @param initialTabId Active tab when the recording starts
+   * @throws {Error} If a recording is already running
+   */
+  start(name: string, initialTabId: string | null): void {
+    if (this.recording) {
+      throw new Error(`Already recording "${this.recording.name}"; stop it first`);
+    }
+    this.startedAt = Date.now();
+    this.recording = { version: 1, name, started_at: new Date(this.startedAt).toISOString(), initial_tab_id: initialTabId, steps: [] };
+  }
+
+  /**
+   * Add a tool call to the recording
+   * @param step Tool call without its index and timing relative to the start
+   * @param startedAt Time the call started, in milliseconds since the epoch
+   */
+  add(step: Omit<RecordedStep, 'index' | 'started_at' | 'offset_ms'>, startedAt: number): void {
+    if (!this.recording) return;
+    this.recording.steps.push({
+      index: this.recording.steps.length,
+      tool: step.tool,
+      params: step.params,
+      ...(step.resolved_selectors && Object.keys(step.resolved_selectors).length > 0 && { resolved_selectors: step.resolved_selectors }),
+      started_at: new Date(startedAt).toISOString(),
+      offset_ms: startedAt - this.startedAt,
+      duration_ms: step.duration_ms,
+      outcome: step.outcome,
+      ...(step.error && { error: step.error }),
+      tab_id: step.tab_id,
+      url: step.url
+    });
+  }
+
+  /**
+   * Stop recording
+   * @returns The finished recording
+   * @throws {Error} If no recording is running
+   */
+  stop(): Recording {
+    if (!this.recording) {
+      throw new Error('Not recording; start a recording with recording/start first');
+    }
+    const recording = { ...this.recording, stopped_at: new Date().toISOString() };
+    this.recording = null;
+    return recording;
+  }
+}
+
+/**
+ * Find the element refs in tool parameters: keys named "ref" or ending in "_ref", at the top
+ * level and in objects of arrays such as form/fill fields
+ * @param params Tool parameters
+ * @returns Refs by parameter path
+ */
+export function findRefs(params: Record<string, unknown>): Record<string, string> {
+  const refs: Record<string, string> = {};
+  const visit = (value: Record<string, unknown>, prefix: string) => {
+    for (const [key, item] of Object.entries(value)) {
+      if (isRefKey(key) && typeof item === 'string') {
+        refs[prefix + key] = item;
+      } else if (Array.isArray(item)) {
+        item.forEach((entry, i) => {
+          if (entry && typeof entry === 'object') visit(entry as Record<string, unknown>, `${prefix}${key}.${i}.`);
+        });
+      }
+    }
+  };
+  visit(params, '');
+  return refs;
+}
+
+/**
+ * Parameters to replay a step with: refs, which only exist in the recorded session, are
+ * replaced by the selectors they were resolved to, and tab IDs are mapped to the replay's tabs
+ * @param step Recorded step
+ * @param tabIds Replay tab ID for each recorded tab ID
+ * @returns Parameters for the tool
+ */
+export function toReplayParams(step: RecordedStep, tabIds: Map<string, string> = new Map()): Record<string, unknown> {
+  // Tool parameters come from JSON, so a JSON round trip copies them
+  const params = JSON.parse(JSON.stringify(step.params));
+  for (const [path, selector] of Object.entries(step.resolved_selectors ?? {})) {
+    const keys = path.split('.');
+    const key = keys.pop() as string;
+    const owner = keys.reduce<any>((value, part) => value?.[part], params);
+    if (!owner) continue;
+    delete owner[key];
+    owner[key === 'ref' ? 'selector' : key.replace(/_ref$/, '_selector')] = selector;
+  }
+  if (typeof params.tab_id === 'string' && tabIds.has(params.tab_id)) {
+    params.tab_id = tabIds.get(params.tab_id);
+  }
+  return params;
+}
+
+/**
+ * Build a CSS selector that matches only the given element, preferring IDs, test IDs and names
+ * over positional paths. Runs in the page, so everything it uses is defined inside the function.
+ * @param element Element
+ * @returns CSS selector
+ */
+export function uniqueSelector(element: Element): string {
+  const doc = element.ownerDocument;
+  const escape = (value: string) => typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value.replace(/[^\w-]/g, char => `\\${char}`);
+  const isUnique = (selector: string) => {
+    try {
+      return doc.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+
+  if (element.id && isUnique(`#${escape(element.id)}`)) {
+    return `#${escape(element.id)}`;
+  }
+  for (const attribute of ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label']) {
+    const value = element.getAttribute(attribute);
+    const selector = `${element.localName}[${attribute}="${value?.replace(/["\\]/g, '\\$&')}"]`;
+    if (value && isUnique(selector)) return selector;
+  }
+
+  const parts: string[] = [];
+  for (let current: Element | null = element; current && current !== doc.documentElement; current = current.parentElement) {
+    if (current !== element && current.id && isUnique(`#${escape(current.id)}`)) {
+      parts.unshift(`#${escape(current.id)}`);
+      break;
+    }
+    const name = current.localName;
+    const siblings = current.parentElement ? Array.from(current.parentElement.children).filter(sibling => sibling.localName === name) : [];
+    parts.unshift(siblings.length > 1 ? `${name}:nth-of-type(${siblings.indexOf(current) + 1})` : name);
+  }
+  return parts.join(' > ');
+}
+
+/**
+ * Check that a parsed trace file has the expected shape
+ * @param recording Parsed trace
+ * @throws {Error} If the trace is malformed
+ */
+export function validateRecording(recording: unknown): asserts recording is Recording {
+  const candidate = recording as Recording;
+  if (!candidate || candidate.version !== 1 || !Array.isArray(candidate.steps)) {
+    throw new Error('Invalid recording: expected a version 1 trace with a "steps" array');
+  }
+  for (const step of candidate.steps) {
+    if (typeof step?.tool !== 'string' || !step.params || typeof step.params !== 'object') {
+      throw new Error('Invalid recording: every step needs a "tool" name and a "params" object');
+    }
+  }
+}
+
+/**
+ * Read a trace file written by recording/stop
+ * @param filePath Path of the trace file
+ * @returns Recording
+ * @throws {Error} If the file is not a valid trace
+ */
+export async function readRecording(filePath: string): Promise<Recording> {
+  const recording: unknown = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  validateRecording(recording);
+  return recording;
+}
+
+function isRefKey(key: string): boolean {
+  return key === 'ref' || key.endsWith('_ref');
+}
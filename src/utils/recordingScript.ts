@@ -0,0 +1,260 @@
+import { parseKeyChord, parseModifiers } from './keyboard.js';
+import { Recording, RecordedStep, toReplayParams } from './recording.js';
+
+// Helpers added to the script when a step needs them
+const HELPERS = {
+  fill: `async function fill(page, selector, value) {
+  const element = await page.waitForSelector(selector, { visible: true });
+  const kind = await element.evaluate(el => el.tagName === 'INPUT' ? el.type : el.tagName.toLowerCase());
+  if (kind === 'select') {
+    await element.select(...[].concat(value).map(String));
+  } else if (kind === 'checkbox' || kind === 'radio') {
+    const checked = await element.evaluate(el => el.checked);
+    if (checked !== (value === true || value === 'true')) await element.click();
+  } else {
+    await element.evaluate(el => { if ('value' in el) el.value = ''; });
+    await element.type(String(value));
+  }
+}`,
+  drag: `async function drag(page, source, target) {
+  const from = await (await page.waitForSelector(source, { visible: true })).clickablePoint();
+  const to = await (await page.waitForSelector(target, { visible: true })).clickablePoint();
+  await page.mouse.move(from.x, from.y);
+  await page.mouse.down();
+  await page.mouse.move(to.x, to.y, { steps: 10 });
+  await page.mouse.up();
+}`
+};
+
+type Helper = keyof typeof HELPERS;
+
+const MOUSE_BUTTONS: Record<string, { button?: string; clickCount?: number }> = {
+  click: {},
+  double_click: { clickCount: 2 },
+  right_click: { button: 'right' }
+};
+
+/**
+ * Generate a standalone Puppeteer script (ES module) that repeats the browser actions of a recording.
+ * Steps that only read from the page or failed during recording are kept as comments. Every
+ * parameter is written as a JSON literal, so recorded values cannot add code to the script.
+ * @param recording Recording to convert
+ * @returns Script source
+ */
+export function toPuppeteerScript(recording: Recording): string {
+  const helpers = new Set<Helper>();
+  const imports = new Set<string>(['puppeteer']);
+  const firstTab = recording.initial_tab_id ?? recording.steps[0]?.tab_id ?? 'tab-1';
+
+  const body: string[] = [];
+  for (const step of recording.steps) {
+    if (step.outcome === 'error') {
+      body.push('', `  // ${step.index + 1}. ${step.tool} failed during recording and is not exported: ${oneLine(step.error ?? '')}`);
+      continue;
+    }
+    body.push('', `  // ${step.index + 1}. ${step.tool}`);
+    const lines = stepToCode(step, helpers, imports);
+    body.push(...lines.map(line => `  ${line}`));
+  }
+
+  const named = [...imports].filter(name => name !== 'puppeteer');
+  return [
+    `// Recording "${oneLine(recording.name)}" started at ${recording.started_at}`,
+    '// Generated by mcp-puppeteer; run with: node <file>.mjs',
+    `import puppeteer${named.length > 0 ? `, { ${named.join(', ')} }` : ''} from 'puppeteer';`,
+    '',
+    ...[...helpers].flatMap(helper => [HELPERS[helper], '']),
+    "const browser = await puppeteer.launch({ headless: process.env.HEADLESS !== 'false' });",
+    'const tabs = {};',
+    'let page = await browser.newPage();',
+    `tabs[${JSON.stringify(firstTab)}] = page;`,
+    '',
+    'try {',
+    ...body.slice(1),
+    '} finally {',
+    '  await browser.close();',
+    '}',
+    ''
+  ].join('\n');
+}
+
+function stepToCode(step: RecordedStep, helpers: Set<Helper>, imports: Set<string>): string[] {
+  const params = toReplayParams(step) as Record<string, any>;
+  const page = typeof params.tab_id === 'string' ? `tabs[${JSON.stringify(params.tab_id)}]` : 'page';
+  const json = (value: unknown) => JSON.stringify(value);
+  const waitUntil = params.wait_for && params.wait_for !== 'none' ? params.wait_for : null;
+  const withNavigation = (action: string) => waitUntil
+    ? [`await Promise.all([${page}.waitForNavigation({ waitUntil: ${json(waitUntil)} }), ${action}]);`]
+    : [`await ${action};`];
+
+  switch (step.tool) {
+    case 'browser/navigate':
+      return [`await ${page}.goto(${json(params.url)}, { waitUntil: ${json(waitUntil ?? 'load')} });`];
+    case 'browser/back':
+      return [`await ${page}.goBack();`];
+    case 'browser/forward':
+      return [`await ${page}.goForward();`];
+    case 'browser/scroll': {
+      const pixels = Number(params.pixels ?? 500);
+      const dx = params.direction === 'left' ? -pixels : params.direction === 'right' ? pixels : 0;
+      const dy = params.direction === 'up' ? -pixels : params.direction === 'down' ? pixels : 0;
+      return params.selector
+        ? [`await ${page}.$eval(${json(params.selector)}, el => el.scrollBy(${json(dx)}, ${json(dy)}));`]
+        : [`await ${page}.evaluate(() => window.scrollBy(${json(dx)}, ${json(dy)}));`];
+    }
+    case 'browser/click':
+      return withNavigation(`${page}.click(${json(params.selector)})`);
+    case 'browser/type':
+      return withNavigation(`${page}.type(${json(params.selector)}, ${json(params.text)}${params.delay ? `, { delay: ${json(params.delay)} }` : ''})`);
+    case 'input/hover':
+      return [`await ${page}.hover(${json(params.selector)});`];
+    case 'input/press_key': {
+      const chord = parseKeyChord(params.key);
+      const press = [
+        ...chord.modifiers.map(modifier => `await ${page}.keyboard.down(${json(modifier)});`),
+        `await ${page}.keyboard.press(${json(chord.key)});`,
+        ...[...chord.modifiers].reverse().map(modifier => `await ${page}.keyboard.up(${json(modifier)});`)
+      ];
+      const count = Number(params.count ?? 1);
+      return [
+        ...(params.selector ? [`await ${page}.focus(${json(params.selector)});`] : []),
+        ...(count > 1 ? [`for (let i = 0; i < ${json(count)}; i++) {`, ...press.map(line => `  ${line}`), '}'] : press)
+      ];
+    }
+    case 'input/drag':
+      helpers.add('drag');
+      return [`await drag(${page}, ${json(params.source_selector)}, ${json(params.target_selector)});`];
+    case 'input/mouse': {
+      const modifiers = parseModifiers(params.modifiers);
+      const options = MOUSE_BUTTONS[params.action];
+      if (!options && !['move', 'down', 'up'].includes(params.action)) {
+        return [`// Not exported, unknown mouse action: ${oneLine(json(params.action) ?? '')}`];
+      }
+      let action: string;
+      if (params.selector) {
+        action = options
+          ? `await ${page}.click(${json(params.selector)}${Object.keys(options).length > 0 ? `, ${json(options)}` : ''});`
+          : `await ${page}.hover(${json(params.selector)});${params.action === 'move' ? '' : ` await ${page}.mouse.${params.action}();`}`;
+      } else if (options) {
+        action = `await ${page}.mouse.click(${json(params.x)}, ${json(params.y)}${Object.keys(options).length > 0 ? `, ${json(options)}` : ''});`;
+      } else {
+        action = params.action === 'move' ? `await ${page}.mouse.move(${json(params.x)}, ${json(params.y)});` : `await ${page}.mouse.${params.action}();`;
+      }
+      return [
+        ...modifiers.map(modifier => `await ${page}.keyboard.down(${json(modifier)});`),
+        action,
+        ...[...modifiers].reverse().map(modifier => `await ${page}.keyboard.up(${json(modifier)});`)
+      ];
+    }
+    case 'wait/for': {
+      const timeout = `timeout: ${json(params.timeout_ms ?? 30000)}`;
+      const lines: string[] = [];
+      if (params.selector) {
+        const state = params.state ?? 'visible';
+        const option = state === 'visible' ? 'visible: true, ' : state === 'hidden' || state === 'detached' ? 'hidden: true, ' : '';
+        lines.push(`await ${page}.waitForSelector(${json(params.selector)}, { ${option}${timeout} });`);
+      }
+      if (params.text) {
+        lines.push(`await ${page}.waitForFunction(text => document.body?.innerText.includes(text), { ${timeout} }, ${json(params.text)});`);
+      }
+      if (params.url) {
+        lines.push(`await ${page}.waitForFunction(url => location.href.includes(url), { ${timeout} }, ${json(params.url)});`);
+      }
+      if (params.url_regex) {
+        lines.push(`await ${page}.waitForFunction(source => new RegExp(source).test(location.href), { ${timeout} }, ${json(params.url_regex)});`);
+      }
+      if (params.predicate) {
+        lines.push(`await ${page}.waitForFunction(${json(params.predicate)}, { ${timeout} });`);
+      }
+      if (params.network_idle) {
+        lines.push(`await ${page}.waitForNetworkIdle({ idleTime: ${json(params.idle_time_ms ?? 500)}, ${timeout} });`);
+      }
+      return lines;
+    }
+    case 'form/fill': {
+      helpers.add('fill');
+      const lines = (params.fields as { selector?: string; value: unknown }[]).map(field => `await fill(${page}, ${json(field.selector)}, ${json(field.value)});`);
+      if (params.submit) {
+        const last = params.fields[params.fields.length - 1]?.selector;
+        lines.push(...(params.submit_selector
+          ? withNavigation(`${page}.click(${json(params.submit_selector)})`)
+          : withNavigation(`${page}.focus(${json(last)}).then(() => ${page}.keyboard.press('Enter'))`)));
+      }
+      return lines;
+    }
+    case 'script/execute':
+      // The code stays a string literal and is compiled in the page, never in the script itself
+      return [`await ${page}.evaluate((source, args) => new (Object.getPrototypeOf(async function () {}).constructor)('args', source)(args), ${json(String(params.code))}, ${json(params.args ?? [])});`];
+    case 'screenshot/take':
+      return [`await ${page}.screenshot({ path: ${json(`step-${step.index + 1}.${params.type ?? 'png'}`)}, fullPage: ${Boolean(params.fullPage)} });`];
+    case 'emulate/set':
+      return emulationCode(page, params, imports);
+    case 'emulate/reset':
+      return [
+        `await ${page}.emulateMediaType();`,
+        `await ${page}.emulateMediaFeatures();`,
+        `await ${page}.emulateTimezone();`,
+        `await ${page}.emulateCPUThrottling(null);`,
+        `await ${page}.emulateNetworkConditions(null);`,
+        `await ${page}.setOfflineMode(false);`
+      ];
+    case 'browser/new_tab':
+      return [
+        'page = await browser.newPage();',
+        ...(step.tab_id ? [`tabs[${JSON.stringify(step.tab_id)}] = page;`] : []),
+        ...(params.url ? [`await page.goto(${json(params.url)}, { waitUntil: ${json(waitUntil ?? 'load')} });`] : [])
+      ];
+    case 'browser/switch_tab':
+      return [`page = ${page};`, 'await page.bringToFront();'];
+    case 'browser/close_tab':
+      return [`await ${page}.close();`];
+    default:
+      return [`// Not exported, parameters: ${oneLine(JSON.stringify(params))}`];
+  }
+}
+
+function emulationCode(page: string, params: Record<string, any>, imports: Set<string>): string[] {
+  const json = (value: unknown) => JSON.stringify(value);
+  const lines: string[] = [];
+  if (params.device) {
+    imports.add('KnownDevices');
+    lines.push(`await ${page}.emulate(KnownDevices[${json(params.device)}]);`);
+  }
+  if (params.viewport) {
+    const { width, height, device_scale_factor, is_mobile, has_touch, is_landscape } = params.viewport;
+    const viewport = { width, height, deviceScaleFactor: device_scale_factor, isMobile: is_mobile, hasTouch: has_touch, isLandscape: is_landscape };
+    lines.push(`await ${page}.setViewport({ ...${page}.viewport(), ...${json(viewport)} });`);
+  }
+  if (params.user_agent) lines.push(`await ${page}.setUserAgent(${json(params.user_agent)});`);
+  if (params.locale) {
+    lines.push(`await (await ${page}.createCDPSession()).send('Emulation.setLocaleOverride', { locale: ${json(params.locale)} });`);
+    lines.push(`await ${page}.setExtraHTTPHeaders({ 'Accept-Language': ${json(params.locale)} });`);
+  }
+  if (params.timezone) lines.push(`await ${page}.emulateTimezone(${json(params.timezone)});`);
+  if (params.geolocation) {
+    lines.push(`await ${page}.browserContext().overridePermissions(new URL(${page}.url()).origin, ['geolocation']);`);
+    lines.push(`await ${page}.setGeolocation(${json(params.geolocation)});`);
+  }
+  if (params.media_type) lines.push(`await ${page}.emulateMediaType(${json(params.media_type)});`);
+  const features = [
+    ...(params.color_scheme ? [{ name: 'prefers-color-scheme', value: params.color_scheme }] : []),
+    ...(params.reduced_motion ? [{ name: 'prefers-reduced-motion', value: params.reduced_motion }] : [])
+  ];
+  if (features.length > 0) lines.push(`await ${page}.emulateMediaFeatures(${json(features)});`);
+  if (params.cpu_throttling !== undefined) lines.push(`await ${page}.emulateCPUThrottling(${json(params.cpu_throttling > 1 ? params.cpu_throttling : null)});`);
+  if (params.network) {
+    const presets: Record<string, string> = { slow_3g: 'Slow 3G', fast_3g: 'Fast 3G', slow_4g: 'Slow 4G', fast_4g: 'Fast 4G' };
+    lines.push(`await ${page}.setOfflineMode(${params.network === 'offline'});`);
+    if (presets[params.network]) {
+      imports.add('PredefinedNetworkConditions');
+      lines.push(`await ${page}.emulateNetworkConditions(PredefinedNetworkConditions[${json(presets[params.network])}]);`);
+    } else {
+      lines.push(`await ${page}.emulateNetworkConditions(null);`);
+    }
+  }
+  return lines;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
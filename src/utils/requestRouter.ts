@@ -0,0 +1,284 @@
+import { InterceptResolutionAction } from 'puppeteer';
+import type { ErrorCode, HTTPRequest, Page } from 'puppeteer';
+import fs from 'fs/promises';
+import path from 'path';
+import debug from 'debug';
+import { matchesUrlPattern } from './networkLog.js';
+
+const logNavigation = debug('mcp-puppeteer:navigation');
+const logError = debug('mcp-puppeteer:error');
+
+const DEFAULT_FIXTURE_DIR = 'fixtures';
+
+const ABORT_REASONS: ErrorCode[] = [
+  'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse',
+  'connectionaborted', 'connectionclosed', 'connectionfailed', 'connectionrefused',
+  'connectionreset', 'internetdisconnected', 'namenotresolved', 'timedout', 'failed'
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * What to do with a request matched by a route
+ */
+export type RouteAction =
+  | { type: 'abort'; reason?: ErrorCode }
+  | { type: 'continue'; method?: string; headers?: Record<string, string>; postData?: string }
+  | { type: 'fulfill'; status?: number; headers?: Record<string, string>; contentType?: string; body?: string; path?: string };
+
+/**
+ * Rule deciding which requests a route applies to and what happens to them
+ */
+export interface RouteRule {
+  url?: string;
+  urlRegex?: string;
+  method?: string;
+  action: RouteAction;
+}
+
+/**
+ * Serializable description of a registered route
+ */
+export interface RouteInfo {
+  route_id: string;
+  url?: string;
+  url_regex?: string;
+  method?: string;
+  action: RouteAction;
+  hits: number;
+}
+
+interface Route extends RouteInfo {
+  regex?: RegExp;
+}
+
+/**
+ * Decides whether an intercepted request may be made at all, before any route applies
+ */
+export type RequestGuard = (request: HTTPRequest) => Promise<boolean>;
+
+/**
+ * Intercepts the requests of one page and aborts, modifies or fulfills those matching a route.
+ * Routes live on the page, so they survive navigations. When several routes match,
+ * the most recently added one wins. Interception is only enabled while routes exist or a guard is set.
+ * Requests the guard rejects are aborted as blocked by the client, whatever the routes say.
+ * Fixture files are only served from below the fixture root.
+ */
+export class RequestRouter {
+  private page: Page | null = null;
+  private guard: RequestGuard | null = null;
+  private routes: Route[] = [];
+  private nextId = 1;
+
+  /**
+   * @param fixtureRoot Directory that fixture paths are relative to
+   */
+  constructor(private readonly fixtureRoot = DEFAULT_FIXTURE_DIR) {}
+
+  /**
+   * Start handling the intercepted requests of a page
+   * @param page Puppeteer page
+   * @param guard Check every request must pass (optional)
+   */
+  async attach(page: Page, guard?: RequestGuard): Promise<void> {
+    this.page = page;
+    this.guard = guard ?? null;
+    page.on('request', request => {
+      this.handle(request).catch(error => logError('Request routing failed for %s: %O', request.url(), error));
+    });
+    await this.updateInterception();
+  }
+
+  /**
+   * Add a route
+   * @param rule URL pattern, optional method and action
+   * @returns Description of the new route
+   * @throws {Error} If the rule is invalid or its fixture file cannot be read
+   */
+  async add(rule: RouteRule): Promise<RouteInfo> {
+    const route = await createRoute(rule, `route-${this.nextId++}`, this.fixtureRoot);
+    this.routes.push(route);
+    await this.updateInterception();
+    logNavigation('Added %s for %s (%s)', route.route_id, route.url ?? `/${route.url_regex}/`, route.action.type);
+    return describeRoute(route);
+  }
+
+  /**
+   * Remove one route, or all of them
+   * @param routeId ID of the route to remove (removes every route when omitted)
+   * @returns IDs of the removed routes
+   */
+  async remove(routeId?: string): Promise<string[]> {
+    const removed = this.routes.filter(route => !routeId || route.route_id === routeId);
+    if (routeId && removed.length === 0) {
+      throw new Error(`Unknown route: ${routeId}`);
+    }
+    this.routes = this.routes.filter(route => !removed.includes(route));
+    await this.updateInterception();
+    return removed.map(route => route.route_id);
+  }
+
+  /**
+   * List the registered routes in the order they were added
+   */
+  list(): RouteInfo[] {
+    return this.routes.map(describeRoute);
+  }
+
+  /**
+   * Find the route that applies to a request
+   * @param url Request URL
+   * @param method Request method
+   * @returns Most recently added matching route
+   */
+  match(url: string, method: string): RouteInfo | undefined {
+    return this.findRoute(url, method);
+  }
+
+  private findRoute(url: string, method: string): Route | undefined {
+    for (let i = this.routes.length - 1; i >= 0; i--) {
+      const route = this.routes[i];
+      if (route.method && route.method !== method.toUpperCase()) continue;
+      if (route.regex ? route.regex.test(url) : matchesUrlPattern(url, route.url ?? '')) {
+        return route;
+      }
+    }
+    return undefined;
+  }
+
+  private async updateInterception(): Promise<void> {
+    if (!this.page || this.page.isClosed()) return;
+    await this.page.setRequestInterception(this.routes.length > 0 || this.guard !== null);
+  }
+
+  private async handle(request: HTTPRequest): Promise<void> {
+    // Interception is switched off while there are no routes
+    if (request.interceptResolutionState().action === InterceptResolutionAction.Disabled || request.isInterceptResolutionHandled()) {
+      return;
+    }
+
+    if (this.guard && !await this.guard(request)) {
+      await request.abort('blockedbyclient');
+      return;
+    }
+
+    const route = this.findRoute(request.url(), request.method());
+    if (!route) {
+      await request.continue();
+      return;
+    }
+
+    route.hits++;
+    const { action } = route;
+    logNavigation('%s %s %s', route.route_id, action.type, request.url());
+
+    try {
+      if (action.type === 'abort') {
+        await request.abort(action.reason ?? 'failed');
+      } else if (action.type === 'continue') {
+        await request.continue({
+          method: action.method,
+          headers: action.headers ? { ...request.headers(), ...action.headers } : undefined,
+          postData: action.postData
+        });
+      } else {
+        const body = action.path ? await fs.readFile(action.path) : action.body ?? '';
+        await request.respond({
+          status: action.status ?? 200,
+          headers: action.headers,
+          contentType: action.contentType ?? (action.path ? CONTENT_TYPES[path.extname(action.path).toLowerCase()] : undefined),
+          body
+        });
+      }
+    } catch (error) {
+      logError('%s could not handle %s, continuing the request: %O', route.route_id, request.url(), error);
+      if (!request.isInterceptResolutionHandled()) {
+        await request.continue().catch(() => undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Resolve a fixture path against the fixture root
+ * @param root Fixture root directory
+ * @param file Fixture path relative to the root
+ * @returns Absolute file path
+ * @throws {Error} If the path is absolute or outside the root
+ */
+export function resolveFixturePath(root: string, file: string): string {
+  const rootDir = path.resolve(root);
+  const resolved = path.resolve(rootDir, file);
+  const relative = path.relative(rootDir, resolved);
+  if (path.isAbsolute(file) || !relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Invalid fixture path "${file}": use a file relative to the fixture root ${rootDir}`);
+  }
+  return resolved;
+}
+
+/**
+ * Validate a rule and turn it into a route
+ * @param rule Rule to validate
+ * @param routeId ID for the new route
+ * @param fixtureRoot Directory that fixture paths are relative to
+ * @returns Route
+ * @throws {Error} If the rule is invalid
+ */
+async function createRoute(rule: RouteRule, routeId: string, fixtureRoot: string): Promise<Route> {
+  if (!rule.url === !rule.urlRegex) {
+    throw new Error('Provide exactly one of url (glob) or url_regex');
+  }
+
+  let regex: RegExp | undefined;
+  if (rule.urlRegex) {
+    try {
+      regex = new RegExp(rule.urlRegex);
+    } catch (error: any) {
+      throw new Error(`Invalid url_regex: ${error.message}`);
+    }
+  }
+
+  const action = { ...rule.action };
+  if (action.type === 'abort' && action.reason && !ABORT_REASONS.includes(action.reason)) {
+    throw new Error(`Invalid abort reason "${action.reason}". Use one of: ${ABORT_REASONS.join(', ')}`);
+  }
+  if (action.type === 'fulfill') {
+    if (action.path !== undefined && action.body !== undefined) {
+      throw new Error('Provide either body or path for fulfill, not both');
+    }
+    if (action.path) {
+      action.path = resolveFixturePath(fixtureRoot, action.path);
+      await fs.access(action.path).catch(() => {
+        throw new Error(`Fixture file not found: ${action.path}`);
+      });
+    }
+  }
+
+  return {
+    route_id: routeId,
+    url: rule.url,
+    url_regex: rule.urlRegex,
+    method: rule.method?.toUpperCase(),
+    action,
+    hits: 0,
+    regex
+  };
+}
+
+function describeRoute({ regex, ...info }: Route): RouteInfo {
+  return { ...info, action: { ...info.action } };
+}
@@ -0,0 +1,86 @@
+import { LRUCache } from './LRUCache.js';
+
+const DEFAULT_CAPACITY = 50;
+
+/**
+ * Screenshot kept in memory and addressable as an MCP resource
+ */
+export interface StoredScreenshot {
+  id: string;
+  uri: string;
+  mimeType: string;
+  data: string;
+  size: number;
+  pageUrl: string;
+  createdAt: string;
+}
+
+/**
+ * Bounded in-memory store of screenshots. When full, the least recently used screenshot is evicted.
+ */
+export class ScreenshotStore {
+  private cache: LRUCache<string, StoredScreenshot>;
+  private nextId = 1;
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.cache = new LRUCache(capacity);
+  }
+
+  /**
+   * Store a screenshot
+   * @param image Encoded image
+   * @param mimeType MIME type of the image
+   * @param pageUrl URL of the page the screenshot was taken of
+   * @returns Stored screenshot
+   */
+  add(image: Uint8Array, mimeType: string, pageUrl: string): StoredScreenshot {
+    const id = `shot-${this.nextId++}`;
+    const screenshot: StoredScreenshot = {
+      id,
+      uri: toScreenshotUri(id),
+      mimeType,
+      data: Buffer.from(image).toString('base64'),
+      size: image.length,
+      pageUrl,
+      createdAt: new Date().toISOString()
+    };
+    this.cache.set(id, screenshot);
+    return screenshot;
+  }
+
+  /**
+   * Get a screenshot by ID or screenshot:// URI
+   * @param idOrUri Screenshot ID or URI
+   * @returns Screenshot, or undefined if it does not exist or was evicted
+   */
+  get(idOrUri: string): StoredScreenshot | undefined {
+    return this.cache.get(fromScreenshotUri(idOrUri));
+  }
+
+  /**
+   * All stored screenshots, oldest first
+   */
+  list(): StoredScreenshot[] {
+    return [...this.cache.values()];
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Build the resource URI of a screenshot
+ * @param id Screenshot ID
+ */
+export function toScreenshotUri(id: string): string {
+  return `screenshot://${id}`;
+}
+
+/**
+ * Get the screenshot ID from a resource URI; IDs are returned unchanged
+ * @param idOrUri Screenshot ID or URI
+ */
+export function fromScreenshotUri(idOrUri: string): string {
+  return idOrUri.startsWith('screenshot://') ? idOrUri.slice('screenshot://'.length) : idOrUri;
+}
@@ -0,0 +1,514 @@
+import type { CDPSession, JSHandle, Page, Protocol } from 'puppeteer';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import debug from 'debug';
+
+const logAudit = debug('mcp-puppeteer:audit');
+const logError = debug('mcp-puppeteer:error');
+
+const DEFAULT_MAX_RESULT_BYTES = 100000;
+const DEFAULT_MAX_RESULT_DEPTH = 10;
+const MAX_AUDIT_CODE_CHARS = 10000;
+const READ_ONLY_WORLD = 'mcp-puppeteer-read-only';
+// Error of a call into an execution context whose document has been replaced
+const MISSING_CONTEXT = /Cannot find context with specified id/;
+
+/**
+ * How scripts may run: not at all, in an isolated world without DOM mutation, or in the page itself
+ */
+export type ScriptMode = 'disabled' | 'read-only' | 'full';
+
+export const SCRIPT_MODES: ScriptMode[] = ['disabled', 'read-only', 'full'];
+
+/**
+ * Execution policy for caller-provided JavaScript
+ */
+export interface ScriptPolicy {
+  mode: ScriptMode;
+  /** Maximum size of a script result as JSON; larger results are cut off */
+  maxResultBytes: number;
+  /** Maximum nesting depth of a script result; deeper values are replaced by their type */
+  maxResultDepth: number;
+  /** File that audit entries are appended to as JSON lines (optional) */
+  auditLog?: string;
+}
+
+/**
+ * Limits applied when a script result is converted to JSON
+ */
+export interface SerializeLimits {
+  maxBytes: number;
+  maxDepth: number;
+}
+
+/**
+ * Script result converted to JSON-compatible values
+ */
+export interface ScriptOutput {
+  value: unknown;
+  truncated: boolean;
+}
+
+/**
+ * Audit record of a script that was run or rejected
+ */
+export interface ScriptAuditEntry {
+  timestamp: string;
+  tool: string;
+  mode: ScriptMode;
+  tab_id: string | null;
+  url: string | null;
+  code_sha256: string;
+  /** Script source, cut off after 10000 characters */
+  code: string;
+  outcome: 'success' | 'error' | 'rejected';
+  duration_ms: number;
+  result_bytes?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * Read the script policy from SCRIPT_EXECUTION (disabled, read-only or full; defaults to full),
+ * SCRIPT_MAX_RESULT_BYTES, SCRIPT_MAX_RESULT_DEPTH and SCRIPT_AUDIT_LOG
+ * @throws {Error} If SCRIPT_EXECUTION names an unknown mode
+ */
+export function getScriptPolicy(): ScriptPolicy {
+  const mode = (process.env.SCRIPT_EXECUTION || 'full') as ScriptMode;
+  if (!SCRIPT_MODES.includes(mode)) {
+    throw new Error(`Invalid SCRIPT_EXECUTION "${mode}". Use one of: ${SCRIPT_MODES.join(', ')}`);
+  }
+  const positive = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value || '', 10);
+    return parsed > 0 ? parsed : fallback;
+  };
+  return {
+    mode,
+    maxResultBytes: positive(process.env.SCRIPT_MAX_RESULT_BYTES, DEFAULT_MAX_RESULT_BYTES),
+    maxResultDepth: positive(process.env.SCRIPT_MAX_RESULT_DEPTH, DEFAULT_MAX_RESULT_DEPTH),
+    auditLog: process.env.SCRIPT_AUDIT_LOG || undefined
+  };
+}
+
+/**
+ * Build an audit entry for a script
+ * @param entry Everything but the timestamp and the code digest
+ * @returns Audit entry
+ */
+export function createAuditEntry(entry: Omit<ScriptAuditEntry, 'timestamp' | 'code_sha256'>): ScriptAuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    ...entry,
+    code_sha256: crypto.createHash('sha256').update(entry.code).digest('hex'),
+    code: entry.code.length > MAX_AUDIT_CODE_CHARS ? `${entry.code.slice(0, MAX_AUDIT_CODE_CHARS)}…` : entry.code
+  };
+}
+
+/**
+ * Log an audit entry, and append it to the audit log file if one is configured.
+ * Failing to write the file does not fail the script.
+ * @param policy Script policy
+ * @param entry Audit entry
+ */
+export async function writeAuditEntry(policy: ScriptPolicy, entry: ScriptAuditEntry): Promise<void> {
+  logAudit('%j', entry);
+  if (!policy.auditLog) return;
+  try {
+    await fs.appendFile(policy.auditLog, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    logError('Could not write audit log %s: %O', policy.auditLog, error);
+  }
+}
+
+/**
+ * Isolated world in which read-only scripts run, reached through a CDP session of its own.
+ * The world has a context in every frame, which is created and locked down once per document.
+ */
+interface ReadOnlyWorld {
+  session: CDPSession;
+  /** Locked-down execution context of the world by frame ID */
+  contexts: Map<string, Promise<number>>;
+}
+
+const readOnlyWorlds = new WeakMap<Page, Promise<ReadOnlyWorld>>();
+
+/**
+ * Run a script in the isolated world of the page's main frame, where changing the DOM, making
+ * network requests, navigating and reaching other windows is blocked, in the main frame and in the
+ * frames the script can reach. The world shares the DOM with the page but none of its JavaScript,
+ * so page scripts cannot see or tamper with the script either.
+ * The members of location cannot be replaced from JavaScript, so navigations requested while the
+ * script runs are stopped and fail the script.
+ * @param page Puppeteer page
+ * @param code Body of an async function that receives args
+ * @param args Arguments for the script
+ * @param limits Serialization limits for the result
+ * @returns Serialized result
+ * @throws {Error} If the script throws, or requests a navigation
+ */
+export async function runReadOnlyScript(page: Page, code: string, args: unknown[], limits: SerializeLimits): Promise<ScriptOutput> {
+  const world = await getReadOnlyWorld(page);
+  const navigations: string[] = [];
+  const onNavigation = (event: Protocol.Page.FrameRequestedNavigationEvent) => navigations.push(event.url);
+  world.session.on('Page.frameRequestedNavigation', onNavigation);
+
+  let output: ScriptOutput;
+  try {
+    const { result, executionContextId } = await callInWorld(world, scriptFunction(code), [{ value: args }], false);
+    try {
+      const serialized = await callFunction(world.session, executionContextId, serializeResult.toString(), [toCallArgument(result), { value: limits }], true);
+      output = serialized.value as ScriptOutput;
+    } finally {
+      if (result.objectId) {
+        await world.session.send('Runtime.releaseObject', { objectId: result.objectId }).catch(() => undefined);
+      }
+    }
+  } finally {
+    world.session.off('Page.frameRequestedNavigation', onNavigation);
+    if (navigations.length > 0) {
+      await world.session.send('Page.stopLoading').catch(error => logError('Could not stop navigation: %O', error));
+    }
+  }
+  if (navigations.length > 0) {
+    throw new Error(`Navigation to ${navigations[0]} is not allowed in read-only mode`);
+  }
+  return output;
+}
+
+function getReadOnlyWorld(page: Page): Promise<ReadOnlyWorld> {
+  let world = readOnlyWorlds.get(page);
+  if (!world) {
+    world = (async () => {
+      const session = await page.createCDPSession();
+      const contexts = new Map<string, Promise<number>>();
+      // A frame's context goes away with its document
+      session.on('Page.frameNavigated', ({ frame }: Protocol.Page.FrameNavigatedEvent) => contexts.delete(frame.id));
+      session.on('Page.frameDetached', ({ frameId }: Protocol.Page.FrameDetachedEvent) => contexts.delete(frameId));
+      // Reports navigations and frame changes
+      await session.send('Page.enable');
+      return { session, contexts };
+    })();
+    world.catch(() => readOnlyWorlds.delete(page));
+    readOnlyWorlds.set(page, world);
+  }
+  return world;
+}
+
+/**
+ * Call a function in the read-only world, creating the world first if the current document has none
+ * @param world Read-only world of the page
+ * @param declaration Source of the function to call; runs in the page
+ * @param args Arguments for the function
+ * @param returnByValue Whether to return the result as JSON instead of a remote object
+ * @returns Result of the function and the execution context it ran in
+ */
+async function callInWorld(world: ReadOnlyWorld, declaration: string, args: Protocol.Runtime.CallArgument[], returnByValue: boolean) {
+  for (let attempt = 1; ; attempt++) {
+    const { frameId, executionContextId } = await lockDownFrames(world);
+    try {
+      const result = await callFunction(world.session, executionContextId, declaration, args, returnByValue);
+      return { result, executionContextId };
+    } catch (error: any) {
+      // The world went away with the document it was created in
+      if (attempt > 1 || !MISSING_CONTEXT.test(error.message)) throw error;
+      world.contexts.delete(frameId);
+    }
+  }
+}
+
+/**
+ * Lock down the world in every frame that has no locked-down context yet. Scripts reach same-origin
+ * frames through frames, contentWindow or window[0], which gives them the frame's context of the
+ * same world, so locking down the main frame alone is not enough.
+ * @param world Read-only world of the page
+ * @returns Main frame and its execution context
+ */
+async function lockDownFrames(world: ReadOnlyWorld): Promise<{ frameId: string; executionContextId: number }> {
+  const { frameTree } = await world.session.send('Page.getFrameTree');
+  const frameIds: string[] = [];
+  const collect = (tree: Protocol.Page.FrameTree) => {
+    frameIds.push(tree.frame.id);
+    tree.childFrames?.forEach(collect);
+  };
+  collect(frameTree);
+
+  const [main, ...children] = frameIds.map(frameId => lockedContext(world, frameId));
+  // Frames that cannot be locked down run in another process, and are cross-origin to the main frame
+  await Promise.all(children.map(context => context.catch(error => logError('Could not lock down frame: %O', error))));
+  return { frameId: frameTree.frame.id, executionContextId: await main };
+}
+
+function lockedContext(world: ReadOnlyWorld, frameId: string): Promise<number> {
+  let context = world.contexts.get(frameId);
+  if (!context) {
+    const created = createReadOnlyContext(world.session, frameId);
+    created.catch(() => {
+      if (world.contexts.get(frameId) === created) world.contexts.delete(frameId);
+    });
+    world.contexts.set(frameId, created);
+    context = created;
+  }
+  return context;
+}
+
+async function createReadOnlyContext(session: CDPSession, frameId: string): Promise<number> {
+  const { executionContextId } = await session.send('Page.createIsolatedWorld', { frameId, worldName: READ_ONLY_WORLD });
+  await callFunction(session, executionContextId, lockDownDom.toString(), [], true);
+  return executionContextId;
+}
+
+async function callFunction(
+  session: CDPSession,
+  executionContextId: number,
+  declaration: string,
+  args: Protocol.Runtime.CallArgument[],
+  returnByValue: boolean
+): Promise<Protocol.Runtime.RemoteObject> {
+  const { result, exceptionDetails } = await session.send('Runtime.callFunctionOn', {
+    functionDeclaration: declaration,
+    executionContextId,
+    arguments: args,
+    awaitPromise: true,
+    returnByValue
+  });
+  if (exceptionDetails) {
+    const exception = exceptionDetails.exception;
+    throw new Error((exception?.description ?? String(exception?.value ?? exceptionDetails.text)).split('\n')[0]);
+  }
+  return result;
+}
+
+function toCallArgument(object: Protocol.Runtime.RemoteObject): Protocol.Runtime.CallArgument {
+  return object.objectId ? { objectId: object.objectId } : { value: object.value, unserializableValue: object.unserializableValue };
+}
+
+/**
+ * Source of the async function that runs a caller's script. It reaches the browser as a function
+ * declaration, which DevTools compiles itself, so scripts run on pages whose CSP forbids eval.
+ * @param code Body of an async function that receives args
+ */
+export function scriptFunction(code: string): string {
+  return `async function (args) {\n${code}\n}`;
+}
+
+/**
+ * Run a script in the page's own JavaScript world
+ * @param page Puppeteer page
+ * @param code Body of an async function that receives args
+ * @param args Arguments for the script
+ * @param limits Serialization limits for the result
+ * @returns Serialized result
+ */
+export async function runPageScript(page: Page, code: string, args: unknown[], limits: SerializeLimits): Promise<ScriptOutput> {
+  const script = await page.evaluateHandle(`(${scriptFunction(code)})`) as JSHandle<(args: unknown[]) => unknown>;
+  let result: JSHandle | undefined;
+  try {
+    result = await page.evaluateHandle((fn, values) => fn(values), script, args);
+    return await page.evaluate(serializeResult, result, limits);
+  } finally {
+    await script.dispose();
+    await result?.dispose();
+  }
+}
+
+/**
+ * Make the page read-only for scripts of the current JavaScript world: methods that change the DOM,
+ * storage, history, style sheets, canvases or animations, dispatch events, make network requests,
+ * navigate, or open or message other windows throw, as do all property setters of DOM interfaces.
+ * Prototypes and globals belong to a world, so the page's own scripts are not affected.
+ * The members of location are unforgeable and cannot be replaced; see runReadOnlyScript.
+ * Runs in the page, so everything it uses is defined inside the function.
+ */
+export function lockDownDom(): void {
+  const mutators = new Set([
+    'appendChild', 'insertBefore', 'removeChild', 'replaceChild', 'normalize', 'setAttribute', 'setAttributeNS',
+    'removeAttribute', 'removeAttributeNS', 'toggleAttribute', 'setAttributeNode', 'setAttributeNodeNS',
+    'removeAttributeNode', 'append', 'prepend', 'after', 'before', 'replaceWith', 'remove', 'replaceChildren',
+    'insertAdjacentElement', 'insertAdjacentHTML', 'insertAdjacentText', 'attachShadow', 'setHTMLUnsafe', 'moveBefore',
+    'appendData', 'deleteData', 'insertData', 'replaceData', 'splitText', 'write', 'writeln', 'open', 'close',
+    'execCommand', 'adoptNode', 'click', 'submit', 'requestSubmit', 'reset', 'show', 'showModal', 'showPopover',
+    'hidePopover', 'togglePopover', 'setRangeText', 'stepUp', 'stepDown', 'setCustomValidity', 'add', 'toggle',
+    'replace', 'setProperty', 'removeProperty', 'setNamedItem', 'setNamedItemNS', 'removeNamedItem',
+    'removeNamedItemNS', 'setItem', 'removeItem', 'clear', 'deleteContents', 'extractContents', 'insertNode',
+    'surroundContents', 'deleteFromDocument', 'pushState', 'replaceState', 'back', 'forward', 'go',
+    'dispatchEvent', 'play', 'pause', 'load', 'requestFullscreen', 'insertRule', 'deleteRule', 'addRule',
+    'removeRule', 'replaceSync', 'animate', 'getContext', 'transferControlToOffscreen', 'sendBeacon', 'register',
+    'navigate', 'reload', 'traverseTo', 'updateCurrentEntry', 'postMessage'
+  ]);
+  // Globals that reach the network or other windows, or interrupt the page
+  const globals = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'BroadcastChannel', 'Worker',
+    'SharedWorker', 'open', 'postMessage', 'stop', 'print', 'alert', 'confirm', 'prompt'
+  ];
+  const blocked = (name: string) => function () {
+    throw new Error(`${name} is not allowed in read-only mode`);
+  };
+  const lock = (target: object, key: string, descriptor: PropertyDescriptor) => {
+    Object.defineProperty(target, key, { ...descriptor, configurable: false, ...('value' in descriptor && { writable: false }) });
+  };
+  const lockPrototype = (prototype: object, label: string) => {
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (!descriptor?.configurable) continue;
+      if (descriptor.set) {
+        lock(prototype, key, { ...descriptor, set: blocked(`Setting ${label}.${key}`) });
+      } else if (typeof descriptor.value === 'function' && mutators.has(key)) {
+        lock(prototype, key, { ...descriptor, value: blocked(`${label}.${key}()`) });
+      }
+    }
+  };
+
+  for (const name of globals) {
+    const descriptor = Object.getOwnPropertyDescriptor(window, name);
+    if (descriptor?.configurable && typeof descriptor.value === 'function') {
+      lock(window, name, { ...descriptor, value: blocked(`${name}()`) });
+    }
+  }
+
+  // element.dataset.x = 1 goes through a named setter, so dataset returns a frozen copy instead
+  const dataset = Object.getOwnPropertyDescriptor(HTMLElement.prototype, 'dataset');
+  if (dataset?.get && dataset.configurable) {
+    const get = dataset.get;
+    lock(HTMLElement.prototype, 'dataset', { ...dataset, get() { return Object.freeze({ ...get.call(this) }); } });
+  }
+
+  // Interfaces that change the page or reach beyond it without being DOM nodes
+  const others = new Set([
+    'EventTarget', 'CSSStyleDeclaration', 'DOMTokenList', 'NamedNodeMap', 'Storage', 'Range', 'Selection', 'History',
+    'CSSStyleSheet', 'Navigator', 'Navigation', 'ServiceWorkerContainer', 'MessagePort'
+  ]);
+  // Browsers list every interface as a property of the global object; the core ones are named as
+  // well for environments whose global object does not enumerate them
+  const names = new Set([
+    'Node', 'Element', 'HTMLElement', 'CharacterData', 'Text', 'Document', 'HTMLInputElement',
+    'HTMLTextAreaElement', 'HTMLSelectElement', 'HTMLOptionElement', 'HTMLFormElement', 'HTMLMediaElement',
+    'HTMLCanvasElement', ...others, ...Object.getOwnPropertyNames(window)
+  ]);
+  for (const name of names) {
+    let value: unknown;
+    try {
+      value = (window as unknown as Record<string, unknown>)[name];
+    } catch {
+      continue;
+    }
+    // Every DOM interface, from Node to HTMLInputElement, plus the other interfaces that change the page
+    if (typeof value === 'function' && value.prototype && (value === Node || value.prototype instanceof Node || others.has(name))) {
+      lockPrototype(value.prototype, name);
+    }
+  }
+}
+
+/**
+ * Convert a script result to JSON-compatible values: DOM nodes become descriptions, Maps and Sets
+ * become tagged objects, cycles become "[Circular]", and values deeper or larger than the limits are
+ * cut off. Runs in the page, so everything it uses is defined inside the function.
+ * @param result Value the script returned
+ * @param limits Serialization limits
+ * @returns Serialized result and whether it was cut off
+ */
+export function serializeResult(result: unknown, limits: SerializeLimits): ScriptOutput {
+  let budget = limits.maxBytes;
+  let truncated = false;
+
+  const describeNode = (node: Node) => {
+    if (node.nodeType === 1) {
+      const el = node as Element;
+      const attributes = Array.from(el.attributes).slice(0, 5).map(attr => ` ${attr.name}="${attr.value.slice(0, 50)}"`).join('');
+      return { '@type': 'Element', html: `<${el.localName}${attributes}>`, text: (el.textContent ?? '').replace(/\s+/g, ' ').trim().slice(0, 100) };
+    }
+    if (node.nodeType === 9) {
+      return { '@type': 'Document', url: (node as Document).URL };
+    }
+    return { '@type': node.nodeName, text: (node.textContent ?? '').slice(0, 100) };
+  };
+
+  const serialize = (value: unknown, depth: number, ancestors: object[]): unknown => {
+    if (budget <= 0) {
+      truncated = true;
+      return '[Truncated]';
+    }
+    switch (typeof value) {
+      case 'string':
+        if (value.length + 2 > budget) {
+          truncated = true;
+          const cut = `${value.slice(0, Math.max(budget - 3, 0))}…`;
+          budget = 0;
+          return cut;
+        }
+        budget -= value.length + 2;
+        return value;
+      case 'number':
+        budget -= String(value).length;
+        return Number.isFinite(value) ? value : String(value);
+      case 'boolean':
+        budget -= 5;
+        return value;
+      case 'bigint':
+        budget -= String(value).length + 3;
+        return `${value}n`;
+      case 'undefined':
+        budget -= 4;
+        return null;
+      case 'symbol':
+        return serialize(value.toString(), depth, ancestors);
+      case 'function':
+        return serialize(`[Function${value.name ? ` ${value.name}` : ''}]`, depth, ancestors);
+    }
+    if (value === null) {
+      budget -= 4;
+      return null;
+    }
+
+    const object = value as object;
+    if (ancestors.includes(object)) return '[Circular]';
+    if (typeof Node !== 'undefined' && object instanceof Node) return serialize(describeNode(object), depth, ancestors);
+    if (typeof Window !== 'undefined' && object instanceof Window) return '[Window]';
+    if (object instanceof Date) return serialize(isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString(), depth, ancestors);
+    if (object instanceof RegExp) return serialize(String(object), depth, ancestors);
+    if (object instanceof Promise) return '[Promise]';
+    if (object instanceof Error) {
+      return serialize({ '@type': 'Error', name: object.name, message: object.message }, depth, ancestors);
+    }
+    if (depth >= limits.maxDepth) {
+      truncated = true;
+      return `[${Object.prototype.toString.call(object).slice(8, -1)}]`;
+    }
+
+    const nested = [...ancestors, object];
+    if (object instanceof Map) {
+      return { '@type': 'Map', entries: serialize(Array.from(object.entries()), depth + 1, nested) };
+    }
+    if (object instanceof Set) {
+      return { '@type': 'Set', values: serialize(Array.from(object.values()), depth + 1, nested) };
+    }
+    // Arrays, typed arrays, NodeLists, HTMLCollections and other array-like objects
+    if (Array.isArray(object) || ArrayBuffer.isView(object) || (typeof (object as ArrayLike<unknown>).length === 'number' && typeof (object as Iterable<unknown>)[Symbol.iterator] === 'function')) {
+      const items: unknown[] = [];
+      for (const item of Array.from(object as ArrayLike<unknown>)) {
+        if (budget <= 0) {
+          truncated = true;
+          items.push('[Truncated]');
+          break;
+        }
+        budget -= 1;
+        items.push(serialize(item, depth + 1, nested));
+      }
+      return items;
+    }
+
+    const output: Record<string, unknown> = {};
+    for (const key of Object.keys(object)) {
+      if (budget <= 0) {
+        truncated = true;
+        output['[Truncated]'] = true;
+        break;
+      }
+      budget -= key.length + 4;
+      output[key] = serialize((object as Record<string, unknown>)[key], depth + 1, nested);
+    }
+    return output;
+  };
+
+  const value = serialize(result, 0, []);
+  return { value, truncated };
+}
@@ -0,0 +1,138 @@
+import type { AccessibilityNode } from './accessibilitySnapshot.js';
+
+// Node fields compared between snapshots (children are compared structurally through refs)
+const COMPARED_FIELDS = ['role', 'name', 'value', 'description', 'selected', 'checked', 'disabled', 'required', 'focused', 'level'] as const;
+
+type ComparedField = typeof COMPARED_FIELDS[number];
+
+/**
+ * A node whose own fields or position changed between two snapshots
+ */
+export interface ChangedNode {
+  node: AccessibilityNode;
+  changes: Partial<Record<ComparedField | 'parent', { from: unknown; to: unknown }>>;
+}
+
+/**
+ * Difference between two accessibility trees.
+ * `added` and `removed` only hold the topmost node of each added or removed subtree.
+ */
+export interface SnapshotDiff {
+  added: AccessibilityNode[];
+  removed: AccessibilityNode[];
+  changed: ChangedNode[];
+}
+
+interface FlatNode {
+  node: AccessibilityNode;
+  parentRef?: string;
+}
+
+/**
+ * Flatten a tree into a map keyed by ref
+ * @param root Root of the tree
+ * @returns Nodes with their parent refs
+ */
+function flatten(root: AccessibilityNode): Map<string, FlatNode> {
+  const nodes = new Map<string, FlatNode>();
+  const visit = (node: AccessibilityNode, parentRef?: string) => {
+    nodes.set(node.ref, { node, parentRef });
+    node.children?.forEach(child => visit(child, node.ref));
+  };
+  visit(root);
+  return nodes;
+}
+
+/**
+ * Compute the nodes that were added, removed or changed between two snapshots.
+ * Nodes are matched by ref, which is stable for as long as the underlying DOM node lives.
+ * @param previous Tree from the earlier snapshot
+ * @param current Tree from the later snapshot
+ * @returns Snapshot difference
+ */
+export function diffAccessibilityTrees(previous: AccessibilityNode, current: AccessibilityNode): SnapshotDiff {
+  const before = flatten(previous);
+  const after = flatten(current);
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] };
+
+  for (const [ref, { node, parentRef }] of after) {
+    const old = before.get(ref);
+    if (!old) {
+      if (!parentRef || before.has(parentRef)) {
+        diff.added.push(node);
+      }
+      continue;
+    }
+
+    const changes: ChangedNode['changes'] = {};
+    for (const field of COMPARED_FIELDS) {
+      if (old.node[field] !== node[field]) {
+        changes[field] = { from: old.node[field], to: node[field] };
+      }
+    }
+    if (old.parentRef !== parentRef) {
+      changes.parent = { from: old.parentRef, to: parentRef };
+    }
+    if (Object.keys(changes).length > 0) {
+      diff.changed.push({ node, changes });
+    }
+  }
+
+  for (const [ref, { node, parentRef }] of before) {
+    if (!after.has(ref) && (!parentRef || after.has(parentRef))) {
+      diff.removed.push(node);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether a diff contains no changes
+ * @param diff Snapshot difference
+ */
+export function isEmptyDiff(diff: SnapshotDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Format a snapshot difference in the same line format as the YAML snapshot
+ * @param diff Snapshot difference
+ * @param formatNode Formatter used for a node (and its subtree) at a given indentation
+ * @returns Text representation of the difference
+ */
+export function formatDiff(diff: SnapshotDiff, formatNode: (node: AccessibilityNode, indent: number) => string): string {
+  const summary = `# ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed since the previous snapshot`;
+  if (isEmptyDiff(diff)) {
+    return summary;
+  }
+
+  const lines = [summary];
+
+  if (diff.added.length > 0) {
+    lines.push('added:');
+    diff.added.forEach(node => lines.push(formatNode(node, 1)));
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('removed:');
+    // Removed subtrees are listed without their descendants, which no longer exist
+    diff.removed.forEach(node => lines.push(formatNode({ ...node, children: undefined }, 1)));
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('changed:');
+    for (const { node, changes } of diff.changed) {
+      const details = Object.entries(changes)
+        .map(([field, change]) => `${field}: ${formatValue(change?.from)} -> ${formatValue(change?.to)}`)
+        .join(', ');
+      lines.push(`${formatNode({ ...node, children: undefined }, 1)} # ${details}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'none' : JSON.stringify(value);
+}
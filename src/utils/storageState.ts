@@ -0,0 +1,247 @@
+import type { CookieSameSite, Frame, Page, Protocol } from 'puppeteer';
+import debug from 'debug';
+
+const logNavigation = debug('mcp-puppeteer:navigation');
+
+type CookieParam = Protocol.Network.CookieParam;
+
+/**
+ * Cookie as stored in a state file
+ */
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: CookieSameSite;
+}
+
+/**
+ * Web storage of one origin
+ */
+export interface OriginStorage {
+  origin: string;
+  localStorage: { name: string; value: string }[];
+  sessionStorage?: { name: string; value: string }[];
+}
+
+/**
+ * Cookies and web storage of a browser context. The layout is compatible with
+ * Playwright's storage state files, which have no sessionStorage.
+ */
+export interface StorageState {
+  cookies: StoredCookie[];
+  origins: OriginStorage[];
+}
+
+/**
+ * What storage/clear removes
+ */
+export interface ClearOptions {
+  cookies?: boolean;
+  localStorage?: boolean;
+  sessionStorage?: boolean;
+}
+
+type StorageSnapshot = { origin: string; local: [string, string][]; session: [string, string][] };
+
+/**
+ * Get the cookies of the browser context a page belongs to
+ * @param page Puppeteer page
+ * @param urls Only return cookies that would be sent to these URLs (optional)
+ * @returns Cookies
+ */
+export async function getCookies(page: Page, urls: string[] = []): Promise<StoredCookie[]> {
+  const session = await page.createCDPSession();
+  try {
+    const { cookies } = urls.length > 0
+      ? await session.send('Network.getCookies', { urls })
+      : await session.send('Network.getAllCookies');
+    return cookies.map(cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      ...(!cookie.session && { expires: cookie.expires }),
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      ...(cookie.sameSite && { sameSite: cookie.sameSite })
+    }));
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
+
+/**
+ * Set cookies in the browser context a page belongs to.
+ * Cookies without url and domain are set for the current URL of the page.
+ * @param page Puppeteer page
+ * @param cookies Cookies to set
+ */
+export async function setCookies(page: Page, cookies: (CookieParam | StoredCookie)[]): Promise<void> {
+  if (cookies.length === 0) return;
+
+  const params = cookies.map(cookie => {
+    if ('url' in cookie && cookie.url || cookie.domain) {
+      return cookie as CookieParam;
+    }
+    if (!page.url().startsWith('http')) {
+      throw new Error(`Cookie "${cookie.name}" needs a url or domain because the page is at ${page.url()}`);
+    }
+    return { ...cookie, url: page.url() } as CookieParam;
+  });
+
+  const session = await page.createCDPSession();
+  try {
+    await session.send('Network.setCookies', { cookies: params });
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
+
+/**
+ * Capture cookies, localStorage of every origin open in the browser context and
+ * sessionStorage of the origins open in the given page
+ * @param page Puppeteer page
+ * @returns Storage state
+ */
+export async function saveStorageState(page: Page): Promise<StorageState> {
+  const origins = new Map<string, OriginStorage>();
+
+  const pages = await page.browserContext().pages();
+  for (const contextPage of pages.includes(page) ? pages : [...pages, page]) {
+    for (const snapshot of await readFrameStorage(contextPage)) {
+      const entry = origins.get(snapshot.origin) ?? { origin: snapshot.origin, localStorage: [] };
+      entry.localStorage = snapshot.local.map(([name, value]) => ({ name, value }));
+      // sessionStorage belongs to a single tab, so only the requested page's is saved
+      if (contextPage === page && snapshot.session.length > 0) {
+        entry.sessionStorage = snapshot.session.map(([name, value]) => ({ name, value }));
+      }
+      origins.set(snapshot.origin, entry);
+    }
+  }
+
+  return {
+    cookies: await getCookies(page),
+    origins: [...origins.values()].filter(origin => origin.localStorage.length > 0 || origin.sessionStorage?.length)
+  };
+}
+
+/**
+ * Restore a storage state into the browser context of a page.
+ * localStorage is written through a temporary page per origin that never reaches the network.
+ * sessionStorage is restored in the given page: immediately for frames already at the origin,
+ * and for later documents of the origin before their scripts run.
+ * @param page Puppeteer page
+ * @param state Storage state to load
+ */
+export async function loadStorageState(page: Page, state: StorageState): Promise<void> {
+  validateStorageState(state);
+  await setCookies(page, state.cookies);
+
+  const withLocal = state.origins.filter(origin => origin.localStorage.length > 0);
+  if (withLocal.length > 0) {
+    const scratch = await page.browserContext().newPage();
+    try {
+      await scratch.setRequestInterception(true);
+      scratch.on('request', request => {
+        request.respond({ status: 200, contentType: 'text/html', body: '<!doctype html><title></title>' }).catch(() => undefined);
+      });
+      for (const { origin, localStorage } of withLocal) {
+        logNavigation('Restoring %d localStorage item(s) for %s', localStorage.length, origin);
+        await scratch.goto(new URL('/', origin).href);
+        await scratch.evaluate((items: { name: string; value: string }[]) => {
+          for (const { name, value } of items) window.localStorage.setItem(name, value);
+        }, localStorage);
+      }
+    } finally {
+      await scratch.close().catch(() => undefined);
+    }
+  }
+
+  const withSession = state.origins.filter(origin => origin.sessionStorage?.length);
+  if (withSession.length > 0) {
+    const items = Object.fromEntries(withSession.map(origin => [origin.origin, origin.sessionStorage ?? []]));
+    await page.evaluateOnNewDocument(restoreSessionStorage, items);
+    for (const frame of page.frames()) {
+      await frame.evaluate(restoreSessionStorage, items).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Remove cookies and web storage from the browser context of a page.
+ * Web storage is cleared for the origins currently open in any page of the context.
+ * @param page Puppeteer page
+ * @param options What to clear (everything by default)
+ */
+export async function clearStorage(page: Page, options: ClearOptions = {}): Promise<void> {
+  const { cookies = true, localStorage = true, sessionStorage = true } = options;
+
+  if (cookies) {
+    const session = await page.createCDPSession();
+    try {
+      await session.send('Network.clearBrowserCookies');
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+  }
+
+  if (localStorage || sessionStorage) {
+    for (const contextPage of await page.browserContext().pages()) {
+      for (const frame of contextPage.frames()) {
+        await frame.evaluate((local: boolean, perTab: boolean) => {
+          if (local) window.localStorage.clear();
+          if (perTab) window.sessionStorage.clear();
+        }, localStorage, sessionStorage).catch(() => undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Check that a parsed state file has the expected shape
+ * @param state Parsed state
+ * @throws {Error} If the state is malformed
+ */
+export function validateStorageState(state: unknown): asserts state is StorageState {
+  const candidate = state as StorageState;
+  if (!candidate || !Array.isArray(candidate.cookies) || !Array.isArray(candidate.origins)) {
+    throw new Error('Invalid storage state: expected an object with "cookies" and "origins" arrays');
+  }
+  for (const origin of candidate.origins) {
+    if (typeof origin?.origin !== 'string' || !Array.isArray(origin.localStorage)) {
+      throw new Error('Invalid storage state: every origin needs an "origin" string and a "localStorage" array');
+    }
+  }
+}
+
+async function readFrameStorage(page: Page): Promise<StorageSnapshot[]> {
+  const snapshots: StorageSnapshot[] = [];
+  for (const frame of page.frames()) {
+    const snapshot = await readStorage(frame);
+    if (snapshot && !snapshots.some(existing => existing.origin === snapshot.origin)) {
+      snapshots.push(snapshot);
+    }
+  }
+  return snapshots;
+}
+
+async function readStorage(frame: Frame): Promise<StorageSnapshot | null> {
+  return frame.evaluate(() => {
+    if (!window.location.origin.startsWith('http')) return null;
+    const entries = (storage: Storage): [string, string][] =>
+      Array.from({ length: storage.length }, (_, i) => storage.key(i) as string).map(key => [key, storage.getItem(key) ?? '']);
+    return { origin: window.location.origin, local: entries(window.localStorage), session: entries(window.sessionStorage) };
+  }).catch(() => null);
+}
+
+// Runs in the page; only fills keys that are missing so that later changes by the app are kept
+function restoreSessionStorage(items: Record<string, { name: string; value: string }[]>) {
+  for (const { name, value } of items[window.location.origin] ?? []) {
+    if (window.sessionStorage.getItem(name) === null) window.sessionStorage.setItem(name, value);
+  }
+}
@@ -0,0 +1,197 @@
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+
+/**
+ * Change applied to an extracted string before it is converted to its type
+ */
+export type Transform =
+  | 'trim'
+  | 'lowercase'
+  | 'uppercase'
+  | { regex: string; group?: number }
+  | { replace: string; with: string };
+
+/**
+ * How to extract one value. A string is shorthand for { selector }, where "a@href" reads
+ * the href attribute of the first <a>.
+ */
+export type FieldSpec = string | {
+  /** CSS selector relative to the parent value, optionally with @attribute; omitted for the parent element itself */
+  selector?: string;
+  /** Attribute to read; "text" (default) and "html" read the text or HTML content */
+  attribute?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean';
+  transforms?: Transform[];
+  /** Extract every match instead of the first one */
+  list?: boolean;
+  /** Maximum number of list items */
+  limit?: number;
+  /** Extract an object with these fields from each match instead of a single value */
+  fields?: Record<string, FieldSpec>;
+  /** Value used when nothing matches (defaults to null, or false for booleans) */
+  default?: unknown;
+};
+
+/**
+ * Error found when validating extracted data against a JSON Schema
+ */
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+const TRANSFORM_SCHEMA = {
+  oneOf: [
+    { enum: ['trim', 'lowercase', 'uppercase'] },
+    { type: 'object', properties: { regex: { type: 'string' }, group: { type: 'integer', minimum: 0 } }, required: ['regex'], additionalProperties: false },
+    { type: 'object', properties: { replace: { type: 'string' }, with: { type: 'string' } }, required: ['replace', 'with'], additionalProperties: false }
+  ]
+};
+
+const SPEC_SCHEMA = {
+  $ref: '#/definitions/field',
+  definitions: {
+    field: {
+      oneOf: [
+        { type: 'string' },
+        {
+          type: 'object',
+          properties: {
+            selector: { type: 'string' },
+            attribute: { type: 'string' },
+            type: { enum: ['string', 'number', 'integer', 'boolean'] },
+            transforms: { type: 'array', items: TRANSFORM_SCHEMA },
+            list: { type: 'boolean' },
+            limit: { type: 'integer', minimum: 1 },
+            fields: { type: 'object', additionalProperties: { $ref: '#/definitions/field' } },
+            default: {}
+          },
+          additionalProperties: false
+        }
+      ]
+    }
+  }
+};
+
+/**
+ * Check that an extraction spec is well-formed
+ * @param spec Extraction spec
+ * @throws {Error} If the spec is malformed
+ */
+export function validateExtractionSpec(spec: unknown): asserts spec is FieldSpec {
+  const errors = validateJson(spec, SPEC_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`Invalid extraction spec: ${errors.map(error => `${error.path} ${error.message}`).join('; ')}`);
+  }
+}
+
+/**
+ * Validate data against a JSON Schema
+ * @param data Data to validate
+ * @param schema JSON Schema (draft-07)
+ * @returns Validation errors, empty if the data is valid
+ * @throws {Error} If the schema itself is invalid
+ */
+export function validateJson(data: unknown, schema: object): ValidationError[] {
+  // A new instance per call: Ajv caches every compiled schema for the life of the instance
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validate = ajv.compile(schema);
+  if (validate(data)) {
+    return [];
+  }
+  return (validate.errors ?? []).map(error => ({
+    path: error.instancePath || '/',
+    message: error.message ?? 'is invalid'
+  }));
+}
+
+/**
+ * Extract data from the document as described by a spec.
+ * Runs in the page, so everything it uses is defined inside the function.
+ * @param spec Extraction spec
+ * @returns Extracted data
+ */
+export function extractStructured(spec: FieldSpec): unknown {
+  const toNumber = (text: string): number | null => {
+    const match = /[-+]?\d[\d.,\s']*/.exec(text);
+    if (!match) return null;
+    let digits = match[0].replace(/[\s']/g, '').replace(/[.,]$/, '');
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+    // The last separator is the decimal one if both occur; a single comma followed by 1-2 digits is decimal too
+    let decimal: string | null = null;
+    if (lastComma >= 0 && lastDot >= 0) {
+      decimal = lastComma > lastDot ? ',' : '.';
+    } else if (lastComma >= 0) {
+      decimal = /^[-+]?\d+,\d{1,2}$/.test(digits) ? ',' : null;
+    } else if (lastDot >= 0) {
+      decimal = digits.split('.').length === 2 ? '.' : null;
+    }
+    digits = digits.split('').filter(char => !',.'.includes(char) || char === decimal).join('').replace(',', '.');
+    const value = Number(digits);
+    return Number.isFinite(value) ? value : null;
+  };
+
+  const applyTransform = (value: string, transform: Transform): string => {
+    if (transform === 'trim') return value.trim();
+    if (transform === 'lowercase') return value.toLowerCase();
+    if (transform === 'uppercase') return value.toUpperCase();
+    if ('regex' in transform) {
+      const match = new RegExp(transform.regex).exec(value);
+      return match ? match[transform.group ?? (match.length > 1 ? 1 : 0)] ?? '' : '';
+    }
+    return value.replace(new RegExp(transform.replace, 'g'), transform.with);
+  };
+
+  const readValue = (el: Element, attribute: string): string | null => {
+    if (attribute === 'text') return ((el as HTMLElement).innerText ?? el.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (attribute === 'html') return el.innerHTML;
+    // href, src and similar properties resolve relative URLs
+    if (['href', 'src', 'action', 'currentSrc'].includes(attribute) && attribute in el) {
+      return String((el as unknown as Record<string, unknown>)[attribute]);
+    }
+    return el.getAttribute(attribute);
+  };
+
+  const extract = (scope: Element | Document, field: FieldSpec): unknown => {
+    const options = typeof field === 'string' ? { selector: field } : field;
+    const [selector, inlineAttribute] = (options.selector ?? '').split(/@(?=[^@\]]*$)/);
+    const attribute = options.attribute ?? inlineAttribute ?? 'text';
+    const type = options.type ?? 'string';
+
+    const convert = (el: Element) => {
+      if (options.fields) {
+        return Object.fromEntries(Object.entries(options.fields).map(([name, child]) => [name, extract(el, child)]));
+      }
+      let value = readValue(el, attribute);
+      if (value === null) return options.default ?? (type === 'boolean' ? false : null);
+      for (const transform of options.transforms ?? []) {
+        value = applyTransform(value, transform);
+      }
+      switch (type) {
+        case 'number': return toNumber(value) ?? options.default ?? null;
+        case 'integer': {
+          const number = toNumber(value);
+          return number === null ? options.default ?? null : Math.trunc(number);
+        }
+        // An empty attribute such as disabled="" is set; empty text is not
+        case 'boolean': return !(['text', 'html'].includes(attribute) ? /^(false|no|0|off)?$/i : /^(false|no|0|off)$/i).test(value.trim());
+        default: return value;
+      }
+    };
+
+    const root = scope instanceof Document ? scope.documentElement : scope;
+    if (options.list) {
+      const matches = selector ? Array.from(scope.querySelectorAll(selector)) : [root];
+      return matches.slice(0, options.limit ?? matches.length).map(convert);
+    }
+    const match = selector ? scope.querySelector(selector) : root;
+    if (!match) {
+      return options.fields ? null : options.default ?? (type === 'boolean' ? false : null);
+    }
+    return convert(match);
+  };
+
+  return extract(document, spec);
+}
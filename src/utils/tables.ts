@@ -0,0 +1,84 @@
+/**
+ * Contents of an HTML table with one object per body row, keyed by column header
+ */
+export interface TableData {
+  index: number;
+  caption: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  row_count: number;
+}
+
+/**
+ * Read tables into rows of cells. Cells spanning several rows or columns are repeated in each
+ * of them, so every row has a value for every column. Header rows are the rows of <thead> or,
+ * without one, the leading rows made of <th> cells only; columns without header text are named
+ * column_1, column_2, ...
+ * Runs in the page, so everything it uses is defined inside the function.
+ * @param target Table to read, element whose tables to read, or null for all tables of the document
+ * @returns Tables in document order
+ */
+export function extractTables(target: Element | null): TableData[] {
+  const tables: HTMLTableElement[] = target?.tagName === 'TABLE'
+    ? [target as HTMLTableElement]
+    : Array.from((target ?? document).querySelectorAll('table'));
+
+  return tables.map((table, index) => {
+    const rows = Array.from(table.rows);
+    const grid: string[][] = rows.map(() => []);
+    rows.forEach((row, r) => {
+      let column = 0;
+      for (const cell of Array.from(row.cells)) {
+        while (grid[r][column] !== undefined) column++;
+        const text = (cell.textContent ?? '').replace(/\s+/g, ' ').trim();
+        // rowspan="0" spans the rest of the table section; it is approximated by the rest of the table
+        const rowSpan = cell.rowSpan === 0 ? rows.length - r : Math.max(1, cell.rowSpan);
+        const colSpan = Math.max(1, cell.colSpan);
+        for (let dr = 0; dr < rowSpan && r + dr < rows.length; dr++) {
+          for (let dc = 0; dc < colSpan; dc++) {
+            grid[r + dr][column + dc] = text;
+          }
+        }
+        column += colSpan;
+      }
+    });
+
+    let headerCount = table.tHead?.rows.length ?? 0;
+    if (headerCount === 0) {
+      while (headerCount < rows.length && rows[headerCount].cells.length > 0 &&
+        Array.from(rows[headerCount].cells).every(cell => cell.tagName === 'TH')) {
+        headerCount++;
+      }
+    }
+
+    const columns = Math.max(0, ...grid.map(row => row.length));
+    const seen = new Map<string, number>();
+    const headers = Array.from({ length: columns }, (_, c) => {
+      // Stacked header rows are joined, repeats from column spans are left out
+      const parts = grid.slice(0, headerCount).map(row => row[c] ?? '').filter((part, i, all) => part && part !== all[i - 1]);
+      const name = parts.join(' / ') || `column_${c + 1}`;
+      const count = (seen.get(name) ?? 0) + 1;
+      seen.set(name, count);
+      return count > 1 ? `${name}_${count}` : name;
+    });
+
+    const body = grid.slice(headerCount).filter(row => row.some(cell => cell));
+    return {
+      index,
+      caption: (table.caption?.textContent ?? '').replace(/\s+/g, ' ').trim(),
+      headers,
+      rows: body.map(row => Object.fromEntries(headers.map((header, c) => [header, row[c] ?? '']))),
+      row_count: body.length
+    };
+  });
+}
+
+/**
+ * Format a table as CSV (RFC 4180)
+ * @param table Table data
+ * @returns CSV text with a header line
+ */
+export function toCsv(table: Pick<TableData, 'headers' | 'rows'>): string {
+  const line = (cells: string[]) => cells.map(cell => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(',');
+  return [line(table.headers), ...table.rows.map(row => line(table.headers.map(header => row[header] ?? '')))].join('\r\n');
+}
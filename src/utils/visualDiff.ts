@@ -0,0 +1,121 @@
+import path from 'path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
+const IGNORED_COLOR = [128, 128, 128, 255];
+
+/**
+ * Rectangle in image pixels that is left out of a comparison
+ */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options of an image comparison
+ */
+export interface DiffOptions {
+  /** Per-pixel color distance (0-1) below which pixels count as equal */
+  threshold?: number;
+  ignoreRegions?: Region[];
+}
+
+/**
+ * Result of comparing two images
+ */
+export interface DiffResult {
+  width: number;
+  height: number;
+  diffPixels: number;
+  totalPixels: number;
+  mismatchPercentage: number;
+  sizeChanged: boolean;
+  /** PNG with differing pixels in red over a faded copy of the baseline */
+  diff: Buffer;
+}
+
+/**
+ * Compare a PNG against a baseline PNG.
+ * Images of different sizes are compared on a canvas of the larger size, so that the
+ * area present in only one of them counts as changed.
+ * @param actual PNG to check
+ * @param baseline Expected PNG
+ * @param options Threshold and regions to ignore
+ * @returns Mismatch statistics and a diff image
+ */
+export function compareImages(actual: Uint8Array, baseline: Uint8Array, options: DiffOptions = {}): DiffResult {
+  const actualImage = PNG.sync.read(Buffer.from(actual));
+  const baselineImage = PNG.sync.read(Buffer.from(baseline));
+  const width = Math.max(actualImage.width, baselineImage.width);
+  const height = Math.max(actualImage.height, baselineImage.height);
+
+  const actualData = resize(actualImage, width, height);
+  const baselineData = resize(baselineImage, width, height);
+  for (const region of options.ignoreRegions ?? []) {
+    fillRegion(actualData, width, height, region);
+    fillRegion(baselineData, width, height, region);
+  }
+
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(baselineData, actualData, diff.data, width, height, {
+    threshold: options.threshold ?? 0.1
+  });
+
+  const totalPixels = width * height;
+  return {
+    width,
+    height,
+    diffPixels,
+    totalPixels,
+    mismatchPercentage: totalPixels === 0 ? 0 : Math.round(diffPixels / totalPixels * 10000) / 100,
+    sizeChanged: actualImage.width !== baselineImage.width || actualImage.height !== baselineImage.height,
+    diff: PNG.sync.write(diff)
+  };
+}
+
+function resize(image: PNG, width: number, height: number): Buffer {
+  if (image.width === width && image.height === height) {
+    return image.data;
+  }
+  // Transparent padding on the right and bottom
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(data, y * width * 4, y * image.width * 4, (y + 1) * image.width * 4);
+  }
+  return data;
+}
+
+function fillRegion(data: Buffer, width: number, height: number, region: Region): void {
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(height, Math.ceil(region.y + region.height));
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      data.set(IGNORED_COLOR, (y * width + x) * 4);
+    }
+  }
+}
+
+/**
+ * Resolve the directory of a set of baselines. Callers may only pick a directory below the
+ * configured root, so that comparisons cannot write images elsewhere.
+ * @param root Root directory of all baselines
+ * @param dir Directory relative to the root (defaults to the root itself)
+ * @returns Absolute directory path
+ * @throws {Error} If the directory is absolute or outside the root
+ */
+export function resolveBaselineDir(root: string, dir?: string): string {
+  const rootDir = path.resolve(root);
+  if (!dir) return rootDir;
+
+  const resolved = path.resolve(rootDir, dir);
+  const relative = path.relative(rootDir, resolved);
+  if (path.isAbsolute(dir) || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Invalid baseline_dir "${dir}": use a directory relative to the baseline root ${rootDir}`);
+  }
+  return resolved;
+}
@@ -0,0 +1,49 @@
+import { describe, test, expect } from '@jest/globals';
+import { formatAsYaml, truncateToBudget } from '../src/utils/accessibilitySnapshot.js';
+
+describe('Accessibility Snapshot Formatting', () => {
+  test('formats nodes with attributes and refs', () => {
+    const yaml = formatAsYaml({
+      role: 'RootWebArea',
+      name: 'Login',
+      ref: 's1e1',
+      children: [
+        { role: 'heading', name: 'Sign in', level: 1, ref: 's1e2' },
+        { role: 'textbox', name: 'Email', value: 'a@b.c', required: true, ref: 's1e3' }
+      ]
+    });
+
+    expect(yaml).toBe([
+      '- RootWebArea "Login" [ref=s1e1]:',
+      '  - heading "Sign in" [level=1] [ref=s1e2]',
+      '  - textbox "Email" [value="a@b.c"] [required] [ref=s1e3]'
+    ].join('\n'));
+  });
+
+  test('marks descendants below max_depth', () => {
+    const yaml = formatAsYaml({ role: 'navigation', ref: 's1e4', elided: 3 });
+    expect(yaml).toBe('- navigation [ref=s1e4]:\n  # 3 descendants below max_depth');
+  });
+});
+
+describe('Snapshot Budget', () => {
+  const yaml = Array.from({ length: 50 }, (_, i) => `  - link "Item ${i}" [ref=s1e${i + 2}]`).join('\n');
+
+  test('leaves snapshots within budget untouched', () => {
+    expect(truncateToBudget(yaml)).toBe(yaml);
+    expect(truncateToBudget(yaml, yaml.length)).toBe(yaml);
+  });
+
+  test('truncates at a line boundary with a marker', () => {
+    const truncated = truncateToBudget(yaml, 400);
+    const lines = truncated.split('\n');
+
+    expect(truncated.length).toBeLessThanOrEqual(400);
+    expect(lines[lines.length - 1]).toMatch(/^# \[truncated\] \d+ of 50 lines elided to fit max_chars=400$/);
+    expect(yaml.startsWith(lines.slice(0, -1).join('\n'))).toBe(true);
+  });
+
+  test('is deterministic', () => {
+    expect(truncateToBudget(yaml, 300)).toBe(truncateToBudget(yaml, 300));
+  });
+});
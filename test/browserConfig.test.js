@@ -0,0 +1,21 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { withTimeout } from '../src/utils/browserConfig.js';
+
+describe('withTimeout', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('resolves with the result and clears its timer', async () => {
+    jest.useFakeTimers();
+    await expect(withTimeout(Promise.resolve('done'), 1000, 'test')).resolves.toBe('done');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test('rejects when the operation takes too long', async () => {
+    jest.useFakeTimers();
+    const pending = withTimeout(new Promise(() => {}), 1000, 'wait/for');
+    jest.advanceTimersByTime(1000);
+    await expect(pending).rejects.toThrow('Operation "wait/for" timed out after 1000ms');
+  });
+});
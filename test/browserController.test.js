@@ -0,0 +1,216 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { BrowserController } from '../src/browserController.js';
+import { OPEN_POLICIES, mockPage, mockPool } from './mockBrowser.js';
+
+function createController(maxPages = 3) {
+  const pool = mockPool();
+  const controller = new BrowserController({ maxPages, pool, ...OPEN_POLICIES });
+  return { controller, pool };
+}
+
+// Controller with a single tab whose page has the given methods
+async function controllerWithPage(overrides, options = {}) {
+  const page = mockPage(overrides);
+  const controller = new BrowserController({ pool: mockPool(() => page), ...OPEN_POLICIES, ...options });
+  await controller.newTab();
+  return { controller, page };
+}
+
+const never = () => new Promise(() => {});
+
+describe('Browser controller tabs', () => {
+  test('opens tabs with stable IDs and makes the newest one active', async () => {
+    const { controller, pool } = createController();
+    await controller.newTab();
+    const second = await controller.newTab();
+
+    expect(second).toEqual({ tab_id: 'tab-2', url: 'about:blank', title: 'Title of about:blank', active: true });
+    const { tabs, active_tab_id, max_tabs } = await controller.listTabs();
+    expect(tabs.map(tab => [tab.tab_id, tab.active])).toEqual([['tab-1', false], ['tab-2', true]]);
+    expect(active_tab_id).toBe('tab-2');
+    expect(max_tabs).toBe(3);
+    // All tabs share the controller's context
+    expect(pool.createContext).toHaveBeenCalledTimes(1);
+    expect(await controller.getPage('tab-1')).toBe(pool.pages[0]);
+  });
+
+  test('opens a first tab when a page is needed', async () => {
+    const { controller, pool } = createController();
+    expect(controller.getCurrentPage()).toBeNull();
+    expect(await controller.getPage()).toBe(pool.pages[0]);
+    expect(controller.getTab().id).toBe('tab-1');
+  });
+
+  test('switches the active tab', async () => {
+    const { controller, pool } = createController();
+    await controller.newTab();
+    await controller.newTab();
+
+    const switched = await controller.switchTab('tab-1');
+    expect(switched.active).toBe(true);
+    expect(pool.pages[0].bringToFront).toHaveBeenCalled();
+    expect(controller.getCurrentPage()).toBe(pool.pages[0]);
+    await expect(controller.switchTab('tab-9')).rejects.toThrow('Unknown tab: tab-9');
+  });
+
+  test('falls back to the most recently opened tab when the active one closes', async () => {
+    const { controller, pool } = createController();
+    await controller.newTab();
+    await controller.newTab();
+    await controller.newTab();
+    await controller.switchTab('tab-2');
+
+    // Closing another tab keeps the active one
+    expect(await controller.closeTab('tab-1')).toEqual({ message: 'Closed tab tab-1', active_tab_id: 'tab-2' });
+    expect(pool.pages[0].close).toHaveBeenCalled();
+
+    expect(await controller.closeTab()).toEqual({ message: 'Closed tab tab-2', active_tab_id: 'tab-3' });
+    expect(await controller.closeTab()).toEqual({ message: 'Closed tab tab-3', active_tab_id: null });
+    await expect(controller.closeTab()).rejects.toThrow('No active tab');
+  });
+
+  test('forgets tabs whose page was closed by the browser', async () => {
+    const { controller, pool } = createController();
+    await controller.newTab();
+    await controller.newTab();
+
+    await pool.pages[1].close();
+    expect((await controller.listTabs()).tabs.map(tab => tab.tab_id)).toEqual(['tab-1']);
+    expect(controller.getTab().id).toBe('tab-1');
+  });
+
+  test('limits the number of open tabs', async () => {
+    const { controller } = createController(2);
+    await controller.newTab();
+    await controller.newTab();
+    await expect(controller.newTab()).rejects.toThrow('Maximum number of tabs (2) reached');
+
+    await controller.closeTab('tab-1');
+    expect((await controller.newTab()).tab_id).toBe('tab-3');
+  });
+});
+
+describe('Browser controller waitFor', () => {
+  test('waits for a selector state', async () => {
+    const element = { dispose: jest.fn(async () => undefined) };
+    const { controller, page } = await controllerWithPage({ waitForSelector: jest.fn(async () => element) });
+
+    const result = await controller.waitFor({ selector: '#done', state: 'hidden' }, 1000);
+    expect(page.waitForSelector).toHaveBeenCalledWith('#done', expect.objectContaining({ visible: false, hidden: true, timeout: 0 }));
+    expect(result.matched).toEqual([{ condition: 'selector #done hidden', elapsed_ms: expect.any(Number) }]);
+    expect(element.dispose).toHaveBeenCalled();
+    await expect(controller.waitFor({ state: 'visible' })).rejects.toThrow('state requires a selector');
+  });
+
+  test('waits for a detached element to be removed', async () => {
+    const { controller, page } = await controllerWithPage({
+      waitForSelector: jest.fn(async () => null),
+      $: jest.fn(async () => ({})),
+      waitForFunction: jest.fn(async () => undefined)
+    });
+
+    await controller.waitFor({ selector: '.spinner', state: 'detached' }, 1000);
+    expect(page.waitForFunction).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ timeout: 0 }), '.spinner');
+  });
+
+  test('waits for text, network idle and the URL together', async () => {
+    const { controller, page } = await controllerWithPage({
+      waitForFunction: jest.fn(async () => undefined),
+      waitForNetworkIdle: jest.fn(async () => undefined)
+    });
+    setTimeout(() => { page.currentUrl = 'https://example.com/orders/42'; }, 150);
+
+    const result = await controller.waitFor({ text: 'Order placed', networkIdle: true, url: '**/orders/*' }, 2000);
+    expect(page.waitForFunction).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ polling: 'mutation' }), 'Order placed');
+    expect(page.waitForNetworkIdle).toHaveBeenCalledWith({ idleTime: 500, timeout: 2000 });
+    expect(result.matched.map(m => m.condition).sort()).toEqual(['URL **/orders/*', 'network idle', 'text "Order placed"']);
+    // The URL matched last, after it changed
+    expect(result.matched[2].condition).toBe('URL **/orders/*');
+  });
+
+  test('runs predicates as expressions or function bodies', async () => {
+    const { controller, page } = await controllerWithPage({ waitForFunction: jest.fn(async () => undefined) });
+
+    await controller.waitFor({ predicate: 'window.ready === true' }, 1000);
+    await controller.waitFor({ predicate: 'const n = document.querySelectorAll("li").length; return n > 2;' }, 1000);
+    expect(page.waitForFunction.mock.calls.map(([source]) => source)).toEqual([
+      'window.ready === true',
+      '(async () => { const n = document.querySelectorAll("li").length; return n > 2; })()'
+    ]);
+  });
+
+  test('rejects predicates unless scripts may run in the page', async () => {
+    const { controller, page } = await controllerWithPage(
+      { waitForFunction: jest.fn(async () => undefined) },
+      { scriptPolicy: { ...OPEN_POLICIES.scriptPolicy, mode: 'read-only' } }
+    );
+
+    await expect(controller.waitFor({ predicate: 'true' }, 1000)).rejects.toThrow('predicate runs in the page and requires SCRIPT_EXECUTION=full');
+    expect(page.waitForFunction).not.toHaveBeenCalled();
+  });
+
+  test('names the conditions still pending when it times out', async () => {
+    const { controller } = await controllerWithPage({
+      waitForSelector: jest.fn(async () => null),
+      waitForFunction: jest.fn(never)
+    });
+
+    await expect(controller.waitFor({ selector: '#ok', text: 'never shown' }, 50))
+      .rejects.toThrow('Operation "wait/for" timed out after 50ms; still waiting for text "never shown"');
+    await expect(controller.waitFor({}, 50)).rejects.toThrow('Provide at least one of');
+  });
+});
+
+describe('Browser controller pdf', () => {
+  const pdfPage = () => ({
+    pdf: jest.fn(async () => Buffer.from('%PDF-1.7')),
+    emulateMediaType: jest.fn(async () => undefined)
+  });
+
+  test('fills in defaults and returns base64 without writing a file', async () => {
+    const { controller, page } = await controllerWithPage(pdfPage());
+
+    const result = await controller.pdf(undefined, { landscape: true, footerTemplate: '<span class="pageNumber"></span>' }, true);
+    expect(result).toEqual({ base64: Buffer.from('%PDF-1.7').toString('base64'), message: 'PDF rendered' });
+    expect(page.pdf).toHaveBeenCalledWith({
+      format: 'A4',
+      landscape: true,
+      margin: undefined,
+      printBackground: true,
+      pageRanges: undefined,
+      scale: undefined,
+      displayHeaderFooter: true,
+      headerTemplate: '<span></span>',
+      footerTemplate: '<span class="pageNumber"></span>'
+    });
+    expect(page.emulateMediaType).not.toHaveBeenCalled();
+  });
+
+  test('writes the PDF to a file', async () => {
+    const { controller } = await controllerWithPage(pdfPage());
+    const filePath = path.join(os.tmpdir(), `controller-test-${process.pid}.pdf`);
+    try {
+      const result = await controller.pdf(filePath, { format: 'Letter' });
+      expect(result).toEqual({ path: filePath, base64: undefined, message: `PDF saved to ${filePath}` });
+      expect(await fs.readFile(filePath, 'utf8')).toBe('%PDF-1.7');
+    } finally {
+      await fs.rm(filePath, { force: true });
+    }
+  });
+
+  test('restores the emulated media type after rendering', async () => {
+    const { controller, page } = await controllerWithPage(pdfPage());
+    await controller.pdf(undefined, { emulateMedia: 'screen' }, true);
+    expect(page.emulateMediaType.mock.calls).toEqual([['screen'], [undefined]]);
+
+    page.emulateMediaType.mockClear();
+    await controller.emulate({ media_type: 'screen' });
+    page.pdf.mockRejectedValueOnce(new Error('Printing failed'));
+    await expect(controller.pdf(undefined, { emulateMedia: 'print' }, true)).rejects.toThrow('Printing failed');
+    expect(page.emulateMediaType.mock.calls).toEqual([['screen'], ['print'], ['screen']]);
+  });
+});
+
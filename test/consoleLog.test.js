@@ -0,0 +1,58 @@
+import { describe, test, expect } from '@jest/globals';
+import { ConsoleLog, queryLogs, toLogLevel } from '../src/utils/consoleLog.js';
+
+describe('Console Log', () => {
+  const createLogs = (maxEntries) => {
+    let seq = 0;
+    const nextSeq = () => ++seq;
+    return [new ConsoleLog('tab-1', nextSeq, maxEntries), new ConsoleLog('tab-2', nextSeq, maxEntries)];
+  };
+
+  test('maps console message types to levels', () => {
+    expect(toLogLevel('warn')).toBe('warning');
+    expect(toLogLevel('assert')).toBe('error');
+    expect(toLogLevel('trace')).toBe('debug');
+    expect(toLogLevel('table')).toBe('log');
+  });
+
+  test('pages through entries with a cursor', () => {
+    const [first, second] = createLogs();
+    first.add({ level: 'log', source: 'console', text: 'boot', page_url: 'https://a.test/' });
+    second.add({ level: 'error', source: 'exception', text: 'Page error: boom', page_url: 'https://b.test/' });
+    first.add({ level: 'warning', source: 'console', text: 'slow', page_url: 'https://a.test/' });
+
+    const page1 = queryLogs([first, second], { limit: 2 });
+    expect(page1.entries.map(e => [e.seq, e.tab_id])).toEqual([[1, 'tab-1'], [2, 'tab-2']]);
+    expect(page1.has_more).toBe(true);
+
+    const page2 = queryLogs([first, second], { cursor: page1.next_cursor, limit: 2 });
+    expect(page2.entries.map(e => e.text)).toEqual(['slow']);
+    expect(page2.has_more).toBe(false);
+
+    expect(queryLogs([first, second], { cursor: page2.next_cursor }).entries).toEqual([]);
+    first.add({ level: 'info', source: 'console', text: 'later', page_url: 'https://a.test/' });
+    expect(queryLogs([first], { cursor: page2.next_cursor }).entries.map(e => e.text)).toEqual(['later']);
+  });
+
+  test('filters by level and text and moves the cursor past filtered entries', () => {
+    const [log] = createLogs();
+    log.add({ level: 'log', source: 'console', text: 'Cart loaded', page_url: 'https://a.test/' });
+    log.add({ level: 'error', source: 'network', text: 'Request failed: /api/cart', page_url: 'https://a.test/' });
+    log.add({ level: 'debug', source: 'console', text: 'cart state', page_url: 'https://a.test/' });
+
+    const errors = queryLogs([log], { levels: ['error'] });
+    expect(errors.entries.map(e => e.seq)).toEqual([2]);
+    expect(errors.next_cursor).toBe(3);
+
+    expect(queryLogs([log], { text: 'CART' }).entries.map(e => e.seq)).toEqual([1, 2, 3]);
+  });
+
+  test('caps the number of entries per page', () => {
+    const [log] = createLogs(2);
+    ['a', 'b', 'c'].forEach(text => log.add({ level: 'log', source: 'console', text, page_url: 'about:blank' }));
+
+    const result = queryLogs([log]);
+    expect(result.entries.map(e => e.text)).toEqual(['b', 'c']);
+    expect(result.dropped).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { DomainGuard, NavigationBlockedError, isPrivateAddress, matchesDomain } from '../src/utils/domainPolicy.js';
+
+const policy = (overrides = {}) => ({ allowedDomains: [], deniedDomains: [], blockPrivateNetworks: false, ...overrides });
+
+describe('Domain policy', () => {
+  test('matches wildcards only on label boundaries', () => {
+    expect(matchesDomain('example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('api.Example.com.', '*.example.com')).toBe(true);
+    expect(matchesDomain('evilexample.com', '*.example.com')).toBe(false);
+    expect(matchesDomain('example.com.evil.net', '*.example.com')).toBe(false);
+    expect(matchesDomain('www.example.com', 'example.com')).toBe(false);
+    expect(matchesDomain('[::1]', '::1')).toBe(true);
+  });
+
+  test('recognizes non-public addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.31.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:7f00:1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:2800:220:1::']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  test('allows everything without restrictions', async () => {
+    const guard = new DomainGuard(policy());
+    expect(guard.active).toBe(false);
+    expect(await guard.check('file:///etc/passwd')).toBeNull();
+  });
+
+  test('applies the denylist before the allowlist', async () => {
+    const guard = new DomainGuard(policy({ allowedDomains: ['*.example.com'], deniedDomains: ['admin.example.com'] }));
+    expect(await guard.check('https://www.example.com/a')).toBeNull();
+    expect(await guard.check('https://admin.example.com/')).toMatch('denylist');
+    expect(await guard.check('https://evilexample.com/')).toMatch('not in the allowlist');
+    expect(await guard.check('data:text/html,hi')).toBeNull();
+    expect(await guard.check('file:///etc/passwd')).toBe('file: URLs are not allowed');
+  });
+
+  test('blocks hosts that resolve to private addresses', async () => {
+    const resolve = jest.fn(async host => host === 'intranet.test' ? ['93.184.216.34', '10.0.0.5'] : ['93.184.216.34']);
+    const guard = new DomainGuard(policy({ blockPrivateNetworks: true }), resolve);
+    expect(await guard.check('http://intranet.test/')).toBe('intranet.test resolves to the non-public address 10.0.0.5');
+    expect(await guard.check('http://169.254.169.254/latest/meta-data')).toMatch('non-public address');
+    expect(await guard.check('http://2130706433/')).toMatch('127.0.0.1');
+    expect(await guard.check('https://example.com/')).toBeNull();
+    expect(await guard.check('https://example.com/other')).toBeNull();
+    // Lookups are cached per host
+    expect(resolve).toHaveBeenCalledTimes(2);
+  });
+
+  test('blocks hosts that do not resolve', async () => {
+    const guard = new DomainGuard(policy({ blockPrivateNetworks: true }), async () => {
+      throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' });
+    });
+    expect(await guard.check('http://missing.test/')).toBe('missing.test could not be resolved (ENOTFOUND)');
+  });
+
+  test('reports blocked navigations once per tab as structured errors', () => {
+    const guard = new DomainGuard(policy({ allowedDomains: ['example.com'] }));
+    const [firstTab, secondTab] = [{}, {}];
+    guard.block(firstTab, { url: 'https://other.test/', reason: 'other.test is not in the allowlist' });
+    expect(guard.takeBlocked(secondTab)).toEqual([]);
+    const [blocked] = guard.takeBlocked(firstTab);
+    expect(guard.takeBlocked(firstTab)).toEqual([]);
+    expect(JSON.parse(JSON.stringify(new NavigationBlockedError(blocked)))).toEqual({
+      error: 'navigation_blocked',
+      url: 'https://other.test/',
+      reason: 'other.test is not in the allowlist',
+      message: 'Navigation to https://other.test/ blocked: other.test is not in the allowlist'
+    });
+  });
+
+  test('remembers only blocked main-frame navigations of intercepted requests', async () => {
+    const guard = new DomainGuard(policy({ allowedDomains: ['example.com'] }));
+    const tab = {};
+    const request = (url, { navigation = true, parentFrame = null } = {}) => ({
+      url: () => url,
+      resourceType: () => navigation ? 'document' : 'image',
+      isNavigationRequest: () => navigation,
+      frame: () => ({ parentFrame: () => parentFrame })
+    });
+
+    expect(await guard.allows(request('https://example.com/'), tab)).toBe(true);
+    expect(await guard.allows(request('https://other.test/pixel.gif', { navigation: false }), tab)).toBe(false);
+    expect(await guard.allows(request('https://other.test/frame', { parentFrame: {} }), tab)).toBe(false);
+    expect(await guard.allows(request('https://other.test/'), tab)).toBe(false);
+    expect(guard.takeBlocked(tab).map(blocked => blocked.url)).toEqual(['https://other.test/']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { CdpFrame, TimeoutSettings } from 'puppeteer';
+import { ElementRefRegistry, getRefRegistry, resolveElementRef } from '../src/utils/elementRefs.js';
+import { parseElementRefId } from '../src/browser/elementLocator.js';
+
+describe('Element Ref Registry', () => {
+  test('assigns sequential refs per prefix', () => {
+    const registry = new ElementRefRegistry();
+    expect(registry.refFor('s1', 10)).toBe('s1e1');
+    expect(registry.refFor('s1', 11)).toBe('s1e2');
+    expect(registry.refFor('s2', 10)).toBe('s2e1');
+  });
+
+  test('keeps refs stable for the same backend node', () => {
+    const registry = new ElementRefRegistry();
+    const first = registry.refFor('s1', 42);
+    registry.refFor('s1', 43);
+    expect(registry.refFor('s1', 42)).toBe(first);
+    expect(registry.lookup(first)).toEqual({ backendNodeId: 42, prefix: 's1', frame: {} });
+  });
+
+  test('assigns a prefix per frame', () => {
+    const registry = new ElementRefRegistry();
+    expect(registry.prefixFor({})).toBe('s1');
+    expect(registry.prefixFor({ frameId: 'A' })).toBe('s2');
+    expect(registry.prefixFor({ frameId: 'B', targetId: 'B' })).toBe('s3');
+    expect(registry.prefixFor({ frameId: 'A' })).toBe('s2');
+
+    const ref = registry.refFor('s3', 5);
+    expect(ref).toBe('s3e1');
+    expect(parseElementRefId(ref)).toEqual({ snapshotIndex: 3, elementIndex: 1 });
+    expect(registry.lookup(ref)).toEqual({ backendNodeId: 5, prefix: 's3', frame: { frameId: 'B', targetId: 'B' } });
+  });
+
+  test('does not register nodes without a backend node id', () => {
+    const registry = new ElementRefRegistry();
+    const ref = registry.refFor('s1');
+    expect(ref).toBe('s1e1');
+    expect(registry.lookup(ref)).toBeUndefined();
+  });
+
+  test('tracks snapshots across resets', () => {
+    const registry = new ElementRefRegistry();
+    expect(registry.hasAnySnapshot()).toBe(false);
+
+    const ref = registry.refFor('s1', 7);
+    registry.markSnapshot();
+    expect(registry.hasSnapshot()).toBe(true);
+
+    registry.reset();
+    expect(registry.hasSnapshot()).toBe(false);
+    expect(registry.hasAnySnapshot()).toBe(true);
+    expect(registry.lookup(ref)).toBeUndefined();
+    expect(registry.refFor('s1', 8)).toBe('s1e1');
+    expect(registry.prefixFor({ frameId: 'A' })).toBe('s2');
+  });
+
+  test('resolves refs in the realm of their frame', async () => {
+    const element = { dispose: jest.fn() };
+    const adopted = node => ({
+      evaluateHandle: async () => ({ asElement: () => node, dispose: jest.fn() }),
+      dispose: jest.fn()
+    });
+    const frame = (id, adopt) => ({ _id: id, mainRealm: () => ({ adoptBackendNode: adopt }) });
+    const mainAdopt = jest.fn(async () => adopted(element));
+    const childAdopt = jest.fn(async () => adopted(null));
+    const main = frame('MAIN', mainAdopt);
+    const page = { on: jest.fn(), mainFrame: () => main, frames: () => [main, frame('CHILD', childAdopt)] };
+
+    const registry = getRefRegistry(page);
+    const mainRef = registry.refFor(registry.prefixFor({}), 42);
+    const childRef = registry.refFor(registry.prefixFor({ frameId: 'CHILD' }), 7);
+    const goneRef = registry.refFor(registry.prefixFor({ frameId: 'GONE' }), 9);
+    registry.markSnapshot();
+
+    await expect(resolveElementRef(page, mainRef)).resolves.toBe(element);
+    expect(mainAdopt).toHaveBeenCalledWith(42);
+    await expect(resolveElementRef(page, childRef)).rejects.toThrow('no longer attached');
+    expect(childAdopt).toHaveBeenCalledWith(7);
+    await expect(resolveElementRef(page, goneRef)).rejects.toThrow(`Stale ref "${goneRef}": its frame has been removed`);
+
+    mainAdopt.mockRejectedValueOnce(new Error('No node with given id found'));
+    await expect(resolveElementRef(page, mainRef)).rejects.toThrow('the element has been removed from the page');
+  });
+
+  test('relies on Puppeteer frame internals that still exist', () => {
+    const frame = new CdpFrame({ timeoutSettings: new TimeoutSettings() }, 'FRAME', undefined, {});
+    expect(frame._id).toBe('FRAME');
+    expect(typeof frame.mainRealm).toBe('function');
+    expect(typeof frame.mainRealm().adoptBackendNode).toBe('function');
+  });
+});
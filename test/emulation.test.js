@@ -0,0 +1,51 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { applyEmulation, resetEmulation, validateEmulation } from '../src/utils/emulation.js';
+
+describe('Emulation', () => {
+  test('accepts known devices and valid settings', () => {
+    expect(() => validateEmulation({
+      device: 'iPhone 13',
+      locale: 'de-DE',
+      timezone: 'Europe/Berlin',
+      geolocation: { latitude: 52.52, longitude: 13.4 },
+      color_scheme: 'dark',
+      cpu_throttling: 4,
+      network: 'slow_3g'
+    })).not.toThrow();
+  });
+
+  test('suggests device names for unknown devices', () => {
+    expect(() => validateEmulation({ device: 'iphone 13' })).toThrow(/Unknown device "iphone 13". Did you mean: iPhone 13/);
+  });
+
+  test('rejects invalid settings', () => {
+    expect(() => validateEmulation({ timezone: 'Mars/Olympus' })).toThrow('Invalid timezone');
+    expect(() => validateEmulation({ geolocation: { latitude: 100, longitude: 0 } })).toThrow('Invalid geolocation');
+    expect(() => validateEmulation({ media_type: 'tv' })).toThrow('Invalid media_type "tv"');
+    expect(() => validateEmulation({ cpu_throttling: 0.5 })).toThrow('cpu_throttling');
+    expect(() => validateEmulation({ network: 'dial_up' })).toThrow('Unknown network preset');
+  });
+
+  test('revokes only the geolocation permission it granted', async () => {
+    const session = { send: jest.fn(async () => ({})), detach: jest.fn(async () => undefined) };
+    const context = { id: 'ctx-1', clearPermissionOverrides: jest.fn() };
+    const page = {
+      url: () => 'https://example.com/map',
+      browserContext: () => context,
+      browser: () => ({ target: () => ({ createCDPSession: async () => session }) }),
+      setGeolocation: jest.fn(async () => undefined)
+    };
+
+    const settings = await applyEmulation(page, {}, { geolocation: { latitude: 52.52, longitude: 13.4 } });
+    await resetEmulation(page, settings);
+
+    const permission = setting => ['Browser.setPermission', {
+      permission: { name: 'geolocation' },
+      setting,
+      origin: 'https://example.com',
+      browserContextId: 'ctx-1'
+    }];
+    expect(session.send.mock.calls).toEqual([permission('granted'), permission('prompt')]);
+    expect(context.clearPermissionOverrides).not.toHaveBeenCalled();
+  });
+});
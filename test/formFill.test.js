@@ -0,0 +1,134 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { detectFieldKind, fillField, toBoolean } from '../src/utils/formFill.js';
+
+// ElementHandle stand-in that runs page functions directly against jsdom
+function handle(el) {
+  return {
+    evaluate: async (fn, ...args) => fn(el, ...args),
+    evaluateHandle: async (fn, ...args) => {
+      const result = fn(el, ...args);
+      return { asElement: () => result ? handle(result) : null, dispose: async () => undefined };
+    },
+    click: async () => el.click(),
+    focus: async () => el.focus(),
+    select: async (...values) => {
+      for (const option of el.options) option.selected = values.includes(option.value);
+      el.dispatchEvent(new Event('change', { bubbles: true }));
+      return values;
+    },
+    type: async text => { el.value += text; }
+  };
+}
+
+const field = selector => handle(document.querySelector(selector));
+
+describe('Form Fill', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form>
+        <input id="name" value="old">
+        <input id="email" type="email">
+        <textarea id="bio">old text</textarea>
+        <select id="country"><option value="de">Germany</option><option value="fr">France</option></select>
+        <select id="tags" multiple><option value="a">Alpha</option><option value="b">Beta</option><option value="c">Gamma</option></select>
+        <input id="terms" type="checkbox">
+        <input id="plan-free" type="radio" name="plan" value="free" checked>
+        <label><input id="plan-pro" type="radio" name="plan" value="pro"> Professional</label>
+        <input id="start" type="date">
+        <input id="avatar" type="file">
+        <input id="token" type="hidden">
+        <button id="go">Go</button>
+      </form>
+      <div id="editor"></div>`;
+  });
+
+  test('parses checkbox values', () => {
+    expect(toBoolean(true)).toBe(true);
+    expect(toBoolean('yes')).toBe(true);
+    expect(toBoolean('On')).toBe(true);
+    expect(toBoolean(1)).toBe(true);
+    expect(toBoolean(false)).toBe(false);
+    expect(toBoolean('unchecked')).toBe(false);
+    expect(toBoolean('')).toBe(false);
+    expect(() => toBoolean('maybe')).toThrow('Expected true or false');
+  });
+
+  test('detects how a field is filled', async () => {
+    const kinds = {
+      '#name': 'text',
+      '#email': 'text',
+      '#bio': 'textarea',
+      '#country': 'select',
+      '#terms': 'checkbox',
+      '#plan-pro': 'radio',
+      '#start': 'date'
+    };
+    for (const [selector, kind] of Object.entries(kinds)) {
+      expect(await detectFieldKind(field(selector))).toBe(kind);
+    }
+
+    // jsdom does not implement isContentEditable
+    const editor = document.getElementById('editor');
+    Object.defineProperty(editor, 'isContentEditable', { value: true });
+    expect(await detectFieldKind(handle(editor))).toBe('contenteditable');
+
+    await expect(detectFieldKind(field('#token'))).rejects.toThrow('Cannot fill an input of type "hidden"');
+    await expect(detectFieldKind(field('#avatar'))).rejects.toThrow('Cannot fill an input of type "file"');
+    await expect(detectFieldKind(field('#go'))).rejects.toThrow('Cannot fill a <button> element');
+  });
+
+  test('replaces the text of inputs and textareas', async () => {
+    const input = jest.fn();
+    document.getElementById('name').addEventListener('input', input);
+
+    expect(await fillField(field('#name'), 'Ada')).toEqual({ kind: 'text', changed: true });
+    expect(document.getElementById('name').value).toBe('Ada');
+    expect(input).toHaveBeenCalled();
+
+    expect(await fillField(field('#bio'), 42)).toEqual({ kind: 'textarea', changed: true });
+    expect(document.getElementById('bio').value).toBe('42');
+  });
+
+  test('selects options by value or label', async () => {
+    expect(await fillField(field('#country'), 'France')).toEqual({ kind: 'select', changed: true });
+    expect(document.getElementById('country').value).toBe('fr');
+
+    await fillField(field('#tags'), ['a', 'Gamma']);
+    expect(Array.from(document.getElementById('tags').selectedOptions, option => option.value)).toEqual(['a', 'c']);
+
+    await expect(fillField(field('#country'), 'Spain')).rejects.toThrow('No option "Spain"');
+  });
+
+  test('checks and unchecks checkboxes only when needed', async () => {
+    const box = document.getElementById('terms');
+    expect(await fillField(field('#terms'), 'no')).toEqual({ kind: 'checkbox', changed: false });
+    expect(await fillField(field('#terms'), true)).toEqual({ kind: 'checkbox', changed: true });
+    expect(box.checked).toBe(true);
+    expect(await fillField(field('#terms'), 'yes')).toEqual({ kind: 'checkbox', changed: false });
+    expect(await fillField(field('#terms'), false)).toEqual({ kind: 'checkbox', changed: true });
+    expect(box.checked).toBe(false);
+  });
+
+  test('picks radios of a group by value or label', async () => {
+    const pro = document.getElementById('plan-pro');
+    expect(await fillField(field('#plan-free'), 'Professional')).toEqual({ kind: 'radio', changed: true });
+    expect(pro.checked).toBe(true);
+    expect(await fillField(field('#plan-pro'), 'pro')).toEqual({ kind: 'radio', changed: false });
+    expect(await fillField(field('#plan-pro'), 'free')).toEqual({ kind: 'radio', changed: true });
+    expect(await fillField(field('#plan-pro'), true)).toEqual({ kind: 'radio', changed: true });
+
+    await expect(fillField(field('#plan-pro'), false)).rejects.toThrow('cannot be unchecked');
+    await expect(fillField(field('#plan-pro'), 'enterprise')).rejects.toThrow('No radio button with value or label "enterprise"');
+  });
+
+  test('sets date values directly', async () => {
+    const change = jest.fn();
+    document.getElementById('start').addEventListener('change', change);
+    expect(await fillField(field('#start'), '2024-05-01')).toEqual({ kind: 'date', changed: true });
+    expect(document.getElementById('start').value).toBe('2024-05-01');
+    expect(change).toHaveBeenCalled();
+  });
+});
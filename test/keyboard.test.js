@@ -0,0 +1,25 @@
+import { describe, test, expect } from '@jest/globals';
+import { parseKeyChord, parseModifiers } from '../src/utils/keyboard.js';
+
+describe('Keyboard', () => {
+  test('parses keys and chords', () => {
+    expect(parseKeyChord('Escape')).toEqual({ modifiers: [], key: 'Escape' });
+    expect(parseKeyChord('Control+A')).toEqual({ modifiers: ['Control'], key: 'A' });
+    expect(parseKeyChord('ctrl+shift+Tab')).toEqual({ modifiers: ['Control', 'Shift'], key: 'Tab' });
+    expect(parseKeyChord('Cmd+Enter')).toEqual({ modifiers: ['Meta'], key: 'Enter' });
+    expect(parseKeyChord('esc')).toEqual({ modifiers: [], key: 'Escape' });
+    expect(parseKeyChord('Shift++')).toEqual({ modifiers: ['Shift'], key: '+' });
+    expect(parseKeyChord('+')).toEqual({ modifiers: [], key: '+' });
+  });
+
+  test('rejects malformed chords', () => {
+    expect(() => parseKeyChord('')).toThrow('Invalid key');
+    expect(() => parseKeyChord('Control+')).toThrow('Invalid key');
+    expect(() => parseKeyChord('A+B')).toThrow('"A" in "A+B" is not a modifier');
+  });
+
+  test('parses modifier lists', () => {
+    expect(parseModifiers(['shift', 'Option'])).toEqual(['Shift', 'Alt']);
+    expect(() => parseModifiers(['Tab'])).toThrow('"Tab" is not a modifier');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { pageToMarkdown, paginateText } from '../src/utils/markdown.js';
+
+const ARTICLE = `
+  <header class="site-header"><a href="/">Home</a> <a href="/about">About</a></header>
+  <nav><a href="/a">A</a></nav>
+  <div id="cookie-banner">We use cookies, please accept them, or else.</div>
+  <div class="post-content">
+    <h1>Release notes</h1>
+    <p>This release brings a faster parser, better <strong>error messages</strong> and a new <a href="https://example.com/docs">docs site</a>.</p>
+    <p>Upgrading is simple, safe and quick, and most projects need no changes at all to keep working.</p>
+    <ul><li>First<ul><li>Nested</li></ul></li><li>Second</li></ul>
+    <pre><code class="language-js">const a = 1;\nconsole.log(a);</code></pre>
+    <table><tr><th>Name</th><th>Value</th></tr><tr><td>a|b</td><td>1</td></tr></table>
+    <img src="https://example.com/chart.png" alt="Chart">
+  </div>
+  <footer>Copyright, all rights reserved, and then some more text here.</footer>
+`;
+
+describe('Markdown Extraction', () => {
+  beforeEach(() => {
+    document.title = 'Release notes';
+    document.body.innerHTML = ARTICLE;
+  });
+
+  test('converts the main content and leaves out page chrome', () => {
+    const { title, markdown } = pageToMarkdown();
+    expect(title).toBe('Release notes');
+    expect(markdown).toContain('# Release notes');
+    expect(markdown).toContain('better **error messages** and a new [docs site](https://example.com/docs).');
+    expect(markdown).toContain('- First\n  - Nested\n- Second');
+    expect(markdown).toContain('```js\nconst a = 1;\nconsole.log(a);\n```');
+    expect(markdown).toContain('| Name | Value |\n| --- | --- |\n| a\\|b | 1 |');
+    expect(markdown).toContain('![Chart](https://example.com/chart.png)');
+    expect(markdown).not.toMatch(/cookies|Copyright|About/);
+  });
+
+  test('can leave out images and convert a given element', () => {
+    expect(pageToMarkdown({ includeImages: false }).markdown).not.toContain('![');
+    expect(pageToMarkdown({ selector: 'footer' }).markdown).toBe('Copyright, all rights reserved, and then some more text here.');
+    expect(() => pageToMarkdown({ selector: '#missing' })).toThrow('Element not found');
+  });
+});
+
+describe('Text Pagination', () => {
+  test('breaks between paragraphs and reports the next offset', () => {
+    const text = `${'a'.repeat(60)}\n\n${'b'.repeat(60)}`;
+    const first = paginateText(text, 0, 100);
+    expect(first).toMatchObject({ text: 'a'.repeat(60), offset: 0, next_offset: 60, has_more: true, total_chars: 122 });
+    expect(paginateText(text, first.next_offset, 100)).toMatchObject({ text: 'b'.repeat(60), next_offset: null, has_more: false });
+  });
+});
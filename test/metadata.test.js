@@ -0,0 +1,47 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, test, expect } from '@jest/globals';
+import { extractMetadata } from '../src/utils/metadata.js';
+
+describe('Metadata Extraction', () => {
+  test('reads meta tags, JSON-LD and microdata', () => {
+    document.documentElement.lang = 'en';
+    document.head.innerHTML = `
+      <title>Widget</title>
+      <link rel="canonical" href="https://shop.example.com/widget">
+      <meta name="description" content="A widget">
+      <meta property="og:title" content="Widget">
+      <meta property="og:image" content="https://shop.example.com/1.png">
+      <meta property="og:image" content="https://shop.example.com/2.png">
+      <meta name="twitter:card" content="summary">
+      <script type="application/ld+json">{"@type": "Product", "name": "Widget"}</script>
+      <script type="application/ld+json">{ broken</script>`;
+    document.body.innerHTML = `
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Widget</span>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="price" content="9.99">
+        </div>
+      </div>`;
+
+    const metadata = extractMetadata();
+    expect(metadata).toMatchObject({
+      title: 'Widget',
+      canonical_url: 'https://shop.example.com/widget',
+      description: 'A widget',
+      language: 'en',
+      open_graph: { title: 'Widget', image: ['https://shop.example.com/1.png', 'https://shop.example.com/2.png'] },
+      twitter: { card: 'summary' }
+    });
+    expect(metadata.json_ld[0]).toEqual({ '@type': 'Product', name: 'Widget' });
+    expect(metadata.json_ld[1].error).toMatch(/Invalid JSON-LD/);
+    expect(metadata.microdata).toEqual([{
+      type: 'https://schema.org/Product',
+      properties: {
+        name: ['Widget'],
+        offers: [{ type: 'https://schema.org/Offer', properties: { price: ['9.99'] } }]
+      }
+    }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import { jest } from '@jest/globals';
+
+/**
+ * Minimal stand-in for a Puppeteer page. Methods a test needs beyond the basics are passed as overrides.
+ * @param overrides Methods or properties to add or replace
+ */
+export function mockPage(overrides = {}) {
+  const events = new EventEmitter();
+  let closed = false;
+  const page = {
+    currentUrl: 'about:blank',
+    on: (event, listener) => { events.on(event, listener); return page; },
+    off: (event, listener) => { events.off(event, listener); return page; },
+    emit: (event, ...args) => events.emit(event, ...args),
+    url: () => page.currentUrl,
+    title: async () => `Title of ${page.currentUrl}`,
+    isClosed: () => closed,
+    close: jest.fn(async () => {
+      closed = true;
+      events.emit('close');
+    }),
+    bringToFront: jest.fn(async () => undefined),
+    setViewport: jest.fn(async () => undefined),
+    setUserAgent: jest.fn(async () => undefined),
+    setRequestInterception: jest.fn(async () => undefined),
+    ...overrides
+  };
+  return page;
+}
+
+/**
+ * Browser pool handing out fake contexts whose pages are created by a factory
+ * @param createPage Creates the page returned by each newPage call
+ */
+export function mockPool(createPage = () => mockPage()) {
+  const pages = [];
+  const context = {
+    closed: false,
+    browser: () => ({ connected: true }),
+    on: jest.fn(),
+    close: jest.fn(async () => { context.closed = true; }),
+    newPage: jest.fn(async () => {
+      const page = createPage();
+      pages.push(page);
+      return page;
+    })
+  };
+  return { context, pages, createContext: jest.fn(async () => context) };
+}
+
+export const OPEN_POLICIES = {
+  domainPolicy: { allowedDomains: [], deniedDomains: [], blockPrivateNetworks: false },
+  scriptPolicy: { mode: 'full', maxResultBytes: 100000, maxResultDepth: 10 }
+};
@@ -0,0 +1,69 @@
+import { describe, test, expect } from '@jest/globals';
+import { filterNetworkEntries, matchesUrlPattern, toHar } from '../src/utils/networkLog.js';
+
+const entry = (overrides) => ({
+  id: 1,
+  method: 'GET',
+  url: 'https://shop.example.com/',
+  resource_type: 'document',
+  status: 200,
+  status_text: 'OK',
+  mime_type: 'text/html',
+  started_at: '2024-05-01T10:00:00.000Z',
+  duration_ms: 120,
+  timing: { blocked: 1, dns: 5, connect: 10, ssl: 6, send: 1, wait: 80, receive: 23 },
+  request_headers: { accept: 'text/html' },
+  response_headers: { 'content-type': 'text/html; charset=utf-8', 'set-cookie': 'a=1\nb=2' },
+  body_size: 512,
+  from_cache: false,
+  page_url: 'https://shop.example.com/',
+  ...overrides
+});
+
+describe('Network Log', () => {
+  const entries = [
+    entry(),
+    entry({ id: 2, method: 'POST', url: 'https://shop.example.com/api/checkout?step=2', resource_type: 'fetch', status: 500, status_text: 'Internal Server Error', mime_type: 'application/json', post_data: '{"cart":1}', request_headers: { 'content-type': 'application/json' }, body_preview: '{"error":"boom"}' }),
+    entry({ id: 3, url: 'https://cdn.example.com/app.js', resource_type: 'script', status: null, timing: null, failure: 'net::ERR_BLOCKED_BY_CLIENT' })
+  ];
+
+  test('matches URL patterns as substrings or globs', () => {
+    expect(matchesUrlPattern('https://shop.example.com/api/checkout', '/api/')).toBe(true);
+    expect(matchesUrlPattern('https://shop.example.com/api/checkout', 'https://*.example.com/api/*')).toBe(true);
+    expect(matchesUrlPattern('https://shop.example.com/api/checkout', '*.js')).toBe(false);
+    expect(matchesUrlPattern('https://shopXexample.com/', 'https://shop.example.com*')).toBe(false);
+  });
+
+  test('filters by URL, resource type, status and failure', () => {
+    const ids = (filter) => filterNetworkEntries(entries, filter).map(e => e.id);
+    expect(ids({})).toEqual([1, 2, 3]);
+    expect(ids({ urlPattern: 'checkout' })).toEqual([2]);
+    expect(ids({ resourceTypes: ['script', 'document'] })).toEqual([1, 3]);
+    expect(ids({ statusMin: 400 })).toEqual([2]);
+    expect(ids({ statusMax: 299 })).toEqual([1]);
+    expect(ids({ failedOnly: true })).toEqual([2, 3]);
+  });
+
+  test('builds a HAR 1.2 log', () => {
+    const har = toHar(entries, { name: 'mcp-puppeteer', version: '0.1.0' });
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.creator).toEqual({ name: 'mcp-puppeteer', version: '0.1.0' });
+    expect(har.log.pages).toHaveLength(1);
+    expect(har.log.entries).toHaveLength(3);
+
+    const [page, checkout, blocked] = har.log.entries;
+    expect(page.pageref).toBe('page_1');
+    expect(page.response.headers).toContainEqual({ name: 'set-cookie', value: 'b=2' });
+    expect(page.timings).toEqual({ blocked: 1, dns: 5, connect: 10, ssl: 6, send: 1, wait: 80, receive: 23 });
+
+    expect(checkout.request.queryString).toEqual([{ name: 'step', value: '2' }]);
+    expect(checkout.request.postData).toEqual({ mimeType: 'application/json', text: '{"cart":1}' });
+    expect(checkout.response.status).toBe(500);
+    expect(checkout.response.content.text).toBe('{"error":"boom"}');
+
+    expect(blocked.response.status).toBe(0);
+    expect(blocked._error).toBe('net::ERR_BLOCKED_BY_CLIENT');
+    expect(blocked.timings.wait).toBe(120);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, test, expect, jest } from '@jest/globals';
+import { SessionRecorder, findRefs, toReplayParams, uniqueSelector, validateRecording } from '../src/utils/recording.js';
+import { toPuppeteerScript } from '../src/utils/recordingScript.js';
+
+const step = (index, tool, params, extra = {}) => ({
+  index,
+  tool,
+  params,
+  started_at: '2024-01-01T00:00:00.000Z',
+  offset_ms: index * 100,
+  duration_ms: 50,
+  outcome: 'success',
+  tab_id: 'tab-1',
+  url: 'https://example.com/',
+  ...extra
+});
+
+describe('Recording', () => {
+  test('finds refs at the top level and in arrays', () => {
+    expect(findRefs({ ref: 'e1', text: 'hi' })).toEqual({ ref: 'e1' });
+    expect(findRefs({ source_ref: 'e2', target_selector: '#b' })).toEqual({ source_ref: 'e2' });
+    expect(findRefs({ fields: [{ ref: 'e3', value: 'a' }, { selector: '#x', value: 'b' }] })).toEqual({ 'fields.0.ref': 'e3' });
+  });
+
+  test('replaces resolved refs with selectors and maps tab IDs', () => {
+    const recorded = step(0, 'form/fill', { tab_id: 'tab-1', fields: [{ ref: 'e3', value: 'a' }], source_ref: 'e4' }, {
+      resolved_selectors: { 'fields.0.ref': '#email', source_ref: 'li:nth-of-type(2)' }
+    });
+    expect(toReplayParams(recorded, new Map([['tab-1', 'tab-7']]))).toEqual({
+      tab_id: 'tab-7',
+      fields: [{ selector: '#email', value: 'a' }],
+      source_selector: 'li:nth-of-type(2)'
+    });
+    // The recorded step itself is left alone
+    expect(recorded.params.fields[0].ref).toBe('e3');
+  });
+
+  test('builds unique selectors', () => {
+    document.body.innerHTML = `
+      <form id="login"><input name="email"><input name="email"><button>Go</button><button>Cancel</button></form>
+      <div id="main"><button data-testid="save">Save</button></div>
+      <ul><li>a</li><li>b</li></ul>`;
+    const check = (el, expected) => {
+      const selector = uniqueSelector(el);
+      expect(selector).toBe(expected);
+      expect(document.querySelector(selector)).toBe(el);
+    };
+    check(document.getElementById('main'), '#main');
+    check(document.querySelector('[data-testid]'), 'button[data-testid="save"]');
+    check(document.querySelectorAll('input')[1], '#login > input:nth-of-type(2)');
+    check(document.querySelectorAll('li')[1], 'body > ul > li:nth-of-type(2)');
+  });
+
+  test('records steps between start and stop', () => {
+    const recorder = new SessionRecorder();
+    expect(() => recorder.stop()).toThrow('Not recording');
+    recorder.start('login', 'tab-1');
+    expect(() => recorder.start('again', 'tab-1')).toThrow('Already recording "login"');
+    recorder.add({ tool: 'browser/click', params: { ref: 'e1' }, resolved_selectors: { ref: '#go' }, duration_ms: 5, outcome: 'success', tab_id: 'tab-1', url: 'https://example.com/' }, Date.now());
+    recorder.add({ tool: 'browser/type', params: { selector: '#q', text: 'x' }, resolved_selectors: {}, duration_ms: 5, outcome: 'error', error: 'No element', tab_id: 'tab-1', url: null }, Date.now());
+
+    const recording = recorder.stop();
+    expect(recorder.active).toBe(false);
+    expect(recording.steps.map(s => [s.index, s.tool, s.outcome])).toEqual([[0, 'browser/click', 'success'], [1, 'browser/type', 'error']]);
+    expect(recording.steps[0].resolved_selectors).toEqual({ ref: '#go' });
+    expect(recording.steps[1]).not.toHaveProperty('resolved_selectors');
+    expect(() => validateRecording(recording)).not.toThrow();
+    expect(() => validateRecording({ version: 2, steps: [] })).toThrow('Invalid recording');
+  });
+
+  test('exports a Puppeteer script', () => {
+    const script = toPuppeteerScript({
+      version: 1,
+      name: 'login',
+      started_at: '2024-01-01T00:00:00.000Z',
+      initial_tab_id: 'tab-1',
+      steps: [
+        step(0, 'browser/navigate', { url: 'https://example.com/login' }),
+        step(1, 'form/fill', { fields: [{ ref: 'e3', value: 'me@example.com' }], submit: true, submit_selector: '#go', wait_for: 'load' }, { resolved_selectors: { 'fields.0.ref': '#email' } }),
+        step(2, 'input/press_key', { key: 'Control+A' }),
+        step(3, 'content/extract_markdown', {})
+      ]
+    });
+    expect(script).toContain("import puppeteer from 'puppeteer';");
+    expect(script).toContain('async function fill(page, selector, value)');
+    expect(script).toContain('await page.goto("https://example.com/login", { waitUntil: "load" });');
+    expect(script).toContain('await fill(page, "#email", "me@example.com");');
+    expect(script).toContain('await Promise.all([page.waitForNavigation({ waitUntil: "load" }), page.click("#go")]);');
+    expect(script).toContain('await page.keyboard.down("Control");');
+    expect(script).toContain('// Not exported');
+    expect(script).not.toContain('async function drag');
+  });
+
+  test('keeps recorded values out of the code of the exported script', async () => {
+    const breakout = '}, []);\nconsole.log(process.pid);\nawait page.evaluate(async () => {';
+    const script = toPuppeteerScript({
+      version: 1,
+      name: 'untrusted',
+      started_at: '2024-01-01T00:00:00.000Z',
+      initial_tab_id: 'tab-1',
+      steps: [
+        step(0, 'script/execute', { code: breakout, args: [1] }),
+        step(1, 'browser/type', { selector: '#q', text: 'hi', delay: "1 }); console.log('delay'); ({" }),
+        step(2, 'input/press_key', { key: 'Enter', count: "2; i++) { console.log('count'); } for (;;" }),
+        step(3, 'input/mouse', { action: "move(); console.log('action'); page.mouse.up", x: 1, y: 2 }),
+        step(4, 'input/mouse', { action: 'click', x: "0); console.log('x'); (0", y: 2 }),
+        step(5, 'wait/for', { selector: '#done', timeout_ms: "1 }); console.log('timeout'); ({" }),
+        step(6, 'browser/scroll', { direction: 'down', pixels: "1); console.log('pixels'); (1" }),
+        step(7, 'emulate/set', { cpu_throttling: "4); console.log('cpu'); (4" }),
+        step(8, 'browser/navigate', { url: 'https://example.com/' }, { outcome: 'error', error: 'Timed out\nconsole.log("error")' })
+      ]
+    });
+
+    // Run the script with a page whose methods only record how they were called
+    const calls = [];
+    const page = new Proxy({}, {
+      get: (_, name) => {
+        if (name === 'then') return undefined;
+        if (name === 'keyboard' || name === 'mouse') return page;
+        return (...args) => {
+          calls.push([name, ...args]);
+          return Promise.resolve();
+        };
+      }
+    });
+    const puppeteer = { launch: async () => ({ newPage: async () => page, close: async () => undefined }) };
+    const log = jest.fn();
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+    await new AsyncFunction('puppeteer', 'console', script.replace(/^import .*$/m, ''))(puppeteer, { log });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(calls.find(([name]) => name === 'evaluate')).toEqual(['evaluate', expect.any(Function), breakout, [1]]);
+    expect(calls.find(([name]) => name === 'type')[3]).toEqual({ delay: "1 }); console.log('delay'); ({" });
+    expect(calls.some(([name]) => name === 'goto')).toBe(false);
+    expect(script).toContain('// 9. browser/navigate failed during recording and is not exported: Timed out console.log("error")');
+    expect(script).toContain('// Not exported, unknown mouse action');
+  });
+});
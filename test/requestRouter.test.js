@@ -0,0 +1,61 @@
+import { describe, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { RequestRouter, resolveFixturePath } from '../src/utils/requestRouter.js';
+
+describe('Request Router', () => {
+  test('prefers the most recently added matching route', async () => {
+    const router = new RequestRouter();
+    await router.add({ url: 'https://shop.example.com/api/*', action: { type: 'continue' } });
+    await router.add({ urlRegex: '/api/cart/\\d+$', method: 'post', action: { type: 'fulfill', status: 500, body: '{}' } });
+
+    expect(router.match('https://shop.example.com/api/cart/42', 'POST')?.route_id).toBe('route-2');
+    expect(router.match('https://shop.example.com/api/cart/42', 'GET')?.route_id).toBe('route-1');
+    expect(router.match('https://cdn.example.com/app.js', 'GET')).toBeUndefined();
+  });
+
+  test('lists and removes routes', async () => {
+    const router = new RequestRouter();
+    await router.add({ url: 'analytics', action: { type: 'abort', reason: 'blockedbyclient' } });
+    await router.add({ url: '*.png', action: { type: 'abort' } });
+
+    expect(router.list().map(route => [route.route_id, route.url, route.hits])).toEqual([
+      ['route-1', 'analytics', 0],
+      ['route-2', '*.png', 0]
+    ]);
+
+    expect(await router.remove('route-1')).toEqual(['route-1']);
+    await expect(router.remove('route-1')).rejects.toThrow('Unknown route: route-1');
+    expect(await router.remove()).toEqual(['route-2']);
+    expect(router.list()).toEqual([]);
+  });
+
+  test('rejects invalid rules', async () => {
+    const router = new RequestRouter();
+    await expect(router.add({ action: { type: 'abort' } })).rejects.toThrow('exactly one of url');
+    await expect(router.add({ url: '*', urlRegex: '.*', action: { type: 'abort' } })).rejects.toThrow('exactly one of url');
+    await expect(router.add({ urlRegex: '(', action: { type: 'abort' } })).rejects.toThrow('Invalid url_regex');
+    await expect(router.add({ url: '*', action: { type: 'abort', reason: 'nope' } })).rejects.toThrow('Invalid abort reason');
+    await expect(router.add({ url: '*', action: { type: 'fulfill', path: 'no/such/fixture.json' } })).rejects.toThrow('Fixture file not found');
+    expect(router.list()).toEqual([]);
+  });
+
+  test('serves fixtures only from below the fixture root', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+    try {
+      await fs.mkdir(path.join(root, 'api'));
+      await fs.writeFile(path.join(root, 'api', 'cart.json'), '{}');
+      const router = new RequestRouter(root);
+
+      const route = await router.add({ url: '*', action: { type: 'fulfill', path: 'api/cart.json' } });
+      expect(route.action.path).toBe(path.join(root, 'api', 'cart.json'));
+      for (const file of ['/etc/passwd', '../secrets.json', 'api/../../secrets.json', '.']) {
+        await expect(router.add({ url: '*', action: { type: 'fulfill', path: file } })).rejects.toThrow(`Invalid fixture path "${file}"`);
+      }
+      expect(resolveFixturePath(root, './api/cart.json')).toBe(path.join(root, 'api', 'cart.json'));
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, test, expect } from '@jest/globals';
+import { ScreenshotStore, fromScreenshotUri, toScreenshotUri } from '../src/utils/screenshotStore.js';
+
+describe('Screenshot Store', () => {
+  test('stores screenshots as base64 addressable by ID or URI', () => {
+    const store = new ScreenshotStore();
+    const shot = store.add(new Uint8Array([1, 2, 3]), 'image/png', 'https://example.com/');
+    expect(shot).toMatchObject({ id: 'shot-1', uri: 'screenshot://shot-1', mimeType: 'image/png', data: 'AQID', size: 3 });
+    expect(store.get('shot-1')).toBe(shot);
+    expect(store.get('screenshot://shot-1')).toBe(shot);
+    expect(store.get('screenshot://shot-2')).toBeUndefined();
+  });
+
+  test('evicts the least recently used screenshot when full', () => {
+    const store = new ScreenshotStore(2);
+    store.add(new Uint8Array([1]), 'image/png', 'about:blank');
+    store.add(new Uint8Array([2]), 'image/png', 'about:blank');
+    store.get('shot-1');
+    store.add(new Uint8Array([3]), 'image/png', 'about:blank');
+    expect(store.list().map(shot => shot.id).sort()).toEqual(['shot-1', 'shot-3']);
+  });
+
+  test('converts between IDs and URIs', () => {
+    expect(toScreenshotUri('shot-7')).toBe('screenshot://shot-7');
+    expect(fromScreenshotUri('screenshot://shot-7')).toBe('shot-7');
+    expect(fromScreenshotUri('shot-7')).toBe('shot-7');
+  });
+});
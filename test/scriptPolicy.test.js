@@ -0,0 +1,263 @@
+/**
+ * @jest-environment jsdom
+ */
+import { EventEmitter } from 'events';
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { createAuditEntry, getScriptPolicy, lockDownDom, runPageScript, runReadOnlyScript, scriptFunction, serializeResult } from '../src/utils/scriptPolicy.js';
+
+const LIMITS = { maxBytes: 10000, maxDepth: 10 };
+
+// Runs a script the way the browser does: compiled from its function declaration, then serialized
+const runScript = async (code, args, limits) => serializeResult(await (0, eval)(`(${scriptFunction(code)})`)(args), limits);
+
+describe('Script policy', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('reads the policy from the environment', () => {
+    delete process.env.SCRIPT_EXECUTION;
+    expect(getScriptPolicy()).toEqual({ mode: 'full', maxResultBytes: 100000, maxResultDepth: 10, auditLog: undefined });
+
+    process.env.SCRIPT_EXECUTION = 'read-only';
+    process.env.SCRIPT_MAX_RESULT_BYTES = '500';
+    process.env.SCRIPT_AUDIT_LOG = '/var/log/scripts.jsonl';
+    expect(getScriptPolicy()).toMatchObject({ mode: 'read-only', maxResultBytes: 500, auditLog: '/var/log/scripts.jsonl' });
+
+    process.env.SCRIPT_EXECUTION = 'sandbox';
+    expect(() => getScriptPolicy()).toThrow('Invalid SCRIPT_EXECUTION "sandbox"');
+  });
+
+  test('audits scripts with a digest and a bounded copy of the code', () => {
+    const code = 'x'.repeat(20000);
+    const entry = createAuditEntry({ tool: 'script/execute', mode: 'full', tab_id: 'tab-1', url: null, code, outcome: 'rejected', duration_ms: 0 });
+    expect(entry.code_sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(entry.code).toHaveLength(10001);
+    expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  test('passes args and returns JSON values unchanged', async () => {
+    await expect(runScript('return { sum: args[0] + args[1], list: [1, "a", true, null] };', [2, 3], LIMITS))
+      .resolves.toEqual({ value: { sum: 5, list: [1, 'a', true, null] }, truncated: false });
+  });
+
+  test('converts values that are not JSON', async () => {
+    document.body.innerHTML = '<p id="intro" class="lead">Hello <b>world</b></p>';
+    const { value } = await runScript(`
+      const cycle = { name: 'loop' };
+      cycle.self = cycle;
+      return {
+        node: document.getElementById('intro'),
+        nodes: document.querySelectorAll('b'),
+        map: new Map([['a', 1]]),
+        set: new Set([1, 2]),
+        date: new Date(0),
+        cycle,
+        missing: undefined,
+        big: 10n,
+        nan: NaN,
+        fn: function named() {},
+        error: new TypeError('bad')
+      };`, [], LIMITS);
+    expect(value).toEqual({
+      node: { '@type': 'Element', html: '<p id="intro" class="lead">', text: 'Hello world' },
+      nodes: [{ '@type': 'Element', html: '<b>', text: 'world' }],
+      map: { '@type': 'Map', entries: [['a', 1]] },
+      set: { '@type': 'Set', values: [1, 2] },
+      date: '1970-01-01T00:00:00.000Z',
+      cycle: { name: 'loop', self: '[Circular]' },
+      missing: null,
+      big: '10n',
+      nan: 'NaN',
+      fn: '[Function named]',
+      error: { '@type': 'Error', name: 'TypeError', message: 'bad' }
+    });
+  });
+
+  test('hands the script to the page as a function declaration instead of compiling it there', async () => {
+    // Pages whose CSP forbids eval only allow code that DevTools compiles
+    const handle = value => ({ value, dispose: jest.fn(async () => undefined) });
+    const page = {
+      evaluateHandle: jest.fn(async (fn, ...handles) => handle(typeof fn === 'string' ? (0, eval)(fn) : await fn(...handles.map(h => h.value ?? h)))),
+      evaluate: jest.fn(async (fn, result, limits) => fn(result.value, limits))
+    };
+
+    await expect(runPageScript(page, 'return args[0] * 2; // doubled', [21], LIMITS)).resolves.toEqual({ value: 42, truncated: false });
+    expect(page.evaluateHandle.mock.calls[0][0]).toBe('(async function (args) {\nreturn args[0] * 2; // doubled\n})');
+    expect(page.evaluate.mock.calls[0][0]).toBe(serializeResult);
+    expect(serializeResult.toString()).not.toMatch(/new Function|constructor\(|eval\(/);
+  });
+
+  test('cuts off deep and large results', async () => {
+    const deep = await runScript('let v = {}; const root = v; for (let i = 0; i < 5; i++) { v.next = {}; v = v.next; } return root;', [], { maxBytes: 1000, maxDepth: 2 });
+    expect(deep).toEqual({ value: { next: { next: '[Object]' } }, truncated: true });
+
+    const large = await runScript('return Array.from({ length: 1000 }, (_, i) => "item " + i);', [], { maxBytes: 100, maxDepth: 10 });
+    expect(large.truncated).toBe(true);
+    expect(large.value[large.value.length - 1]).toBe('[Truncated]');
+    expect(JSON.stringify(large.value).length).toBeLessThan(200);
+  });
+
+  test('read-only lockdown blocks DOM and storage changes but not reads', () => {
+    // The lockdown applies to the JavaScript world it runs in, so it runs in the realm of an iframe
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    const win = frame.contentWindow;
+    const doc = win.document;
+    doc.body.innerHTML = '<div id="box" data-state="open" class="a">Text</div>';
+    win.eval(`(${lockDownDom})()`);
+    // Closing a window clears its body, which the lockdown forbids
+    win.close = () => undefined;
+    const box = doc.getElementById('box');
+
+    expect(box.textContent).toBe('Text');
+    expect(box.dataset.state).toBe('open');
+    expect(() => box.setAttribute('title', 'x')).toThrow('Element.setAttribute() is not allowed in read-only mode');
+    expect(() => { box.innerHTML = '<b>changed</b>'; }).toThrow('Setting Element.innerHTML is not allowed');
+    expect(() => { box.textContent = 'changed'; }).toThrow('Setting Node.textContent is not allowed');
+    expect(() => doc.body.appendChild(doc.createElement('p'))).toThrow('Node.appendChild()');
+    expect(() => box.classList.add('b')).toThrow('DOMTokenList.add()');
+    expect(() => win.localStorage.setItem('k', 'v')).toThrow('Storage.setItem()');
+    expect(() => box.click()).toThrow('HTMLElement.click()');
+    expect(() => { delete win.Element.prototype.setAttribute; }).toThrow();
+    expect(() => { box.dataset.state = 'closed'; }).toThrow('read only');
+    expect(doc.body.innerHTML).toBe('<div id="box" data-state="open" class="a">Text</div>');
+
+    // The realm of the test is not affected
+    document.body.setAttribute('data-checked', 'yes');
+    expect(document.body.dataset.checked).toBe('yes');
+  });
+
+  test('read-only lockdown blocks requests, windows and other page changes', () => {
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    const win = frame.contentWindow;
+    const doc = win.document;
+    doc.head.innerHTML = '<style>p { color: red; }</style>';
+    doc.body.innerHTML = '<canvas id="chart"></canvas>';
+    // jsdom has no fetch
+    win.fetch = async () => 'sent';
+    win.eval(`(${lockDownDom})()`);
+    win.close = () => undefined;
+
+    expect(() => win.eval('fetch("https://example.com/", { method: "POST", credentials: "include" })')).toThrow('fetch() is not allowed in read-only mode');
+    expect(() => win.eval('new XMLHttpRequest()')).toThrow('XMLHttpRequest() is not allowed in read-only mode');
+    expect(() => win.eval('window.open("https://example.com/")')).toThrow('open() is not allowed in read-only mode');
+    expect(() => win.eval('window.postMessage("hi", "*")')).toThrow('postMessage() is not allowed in read-only mode');
+    expect(() => doc.styleSheets[0].insertRule('p { color: blue; }')).toThrow('CSSStyleSheet.insertRule() is not allowed');
+    expect(() => doc.getElementById('chart').getContext('2d')).toThrow('HTMLCanvasElement.getContext() is not allowed');
+    expect(() => { win.fetch = async () => 'replaced'; }).toThrow();
+    expect(doc.styleSheets[0].cssRules).toHaveLength(1);
+  });
+});
+
+describe('Read-only scripts', () => {
+  // CDP session of a page whose read-only world runs scripts through the given function
+  function mockSession(runInPage = async () => 1, frameTree = { frame: { id: 'main' } }) {
+    const session = new EventEmitter();
+    let nextContextId = 1;
+    const results = new Map();
+    session.send = jest.fn(async (method, params) => {
+      switch (method) {
+        case 'Page.getFrameTree':
+          return { frameTree };
+        case 'Page.createIsolatedWorld':
+          if (params.frameId === 'remote') throw new Error('Protocol error (Page.createIsolatedWorld): No frame for given id found');
+          return { executionContextId: nextContextId++ };
+        case 'Runtime.callFunctionOn':
+          if (params.functionDeclaration.startsWith('function lockDownDom')) return { result: {} };
+          if (params.functionDeclaration.startsWith('function serializeResult')) {
+            return { result: { value: { value: results.get(params.arguments[0].objectId), truncated: false } } };
+          }
+          results.set(`result-${results.size + 1}`, await runInPage(params.executionContextId, session));
+          return { result: { type: 'object', objectId: `result-${results.size}` } };
+        default:
+          return {};
+      }
+    });
+    return session;
+  }
+
+  const pageWith = session => ({ createCDPSession: jest.fn(async () => session) });
+  const calls = (session, method) => session.send.mock.calls.filter(([name]) => name === method);
+
+  test('locks down one isolated world per page and reuses it', async () => {
+    const session = mockSession();
+    const page = pageWith(session);
+
+    await expect(runReadOnlyScript(page, 'return 1;', [], LIMITS)).resolves.toEqual({ value: 1, truncated: false });
+    await runReadOnlyScript(page, 'return 1;', [], LIMITS);
+    expect(page.createCDPSession).toHaveBeenCalledTimes(1);
+    expect(calls(session, 'Page.createIsolatedWorld')).toHaveLength(1);
+    const declarations = calls(session, 'Runtime.callFunctionOn').map(([, params]) => params.functionDeclaration);
+    expect(declarations.map(source => source.match(/^(?:async )?function (\w+|\(args\))/)[1]))
+      .toEqual(['lockDownDom', '(args)', 'serializeResult', '(args)', 'serializeResult']);
+    expect(declarations[1]).toBe('async function (args) {\nreturn 1;\n}');
+    expect(calls(session, 'Runtime.releaseObject').map(([, params]) => params.objectId)).toEqual(['result-1', 'result-2']);
+  });
+
+  test('creates a new world after the page navigated', async () => {
+    const session = mockSession(async contextId => {
+      if (contextId === 1) throw new Error('Protocol error (Runtime.callFunctionOn): Cannot find context with specified id');
+      return 'second world';
+    });
+    const page = pageWith(session);
+
+    await expect(runReadOnlyScript(page, 'return 1;', [], LIMITS)).resolves.toEqual({ value: 'second world', truncated: false });
+    expect(calls(session, 'Page.createIsolatedWorld')).toHaveLength(2);
+  });
+
+  test('stops and rejects navigations the script requests', async () => {
+    const session = mockSession(async (contextId, emitter) => {
+      emitter.emit('Page.frameRequestedNavigation', { frameId: 'main', reason: 'scriptInitiated', url: 'https://example.com/logout' });
+      return null;
+    });
+
+    await expect(runReadOnlyScript(pageWith(session), 'location.href = "/logout";', [], LIMITS))
+      .rejects.toThrow('Navigation to https://example.com/logout is not allowed in read-only mode');
+    expect(calls(session, 'Page.stopLoading')).toHaveLength(1);
+    expect(session.listenerCount('Page.frameRequestedNavigation')).toBe(0);
+  });
+
+  test('locks down the world in every frame the script can reach', async () => {
+    const frameTree = { frame: { id: 'main' }, childFrames: [{ frame: { id: 'ad' }, childFrames: [{ frame: { id: 'remote' } }] }] };
+    const session = mockSession(async () => 1, frameTree);
+    const page = pageWith(session);
+    const lockedFrames = () => calls(session, 'Page.createIsolatedWorld').map(([, params]) => params.frameId);
+
+    await runReadOnlyScript(page, 'return 1;', [], LIMITS);
+    // The frame in another process is retried, because it could not be locked down
+    expect(lockedFrames()).toEqual(['main', 'ad', 'remote']);
+    const lockdowns = calls(session, 'Runtime.callFunctionOn').filter(([, params]) => params.functionDeclaration.startsWith('function lockDownDom'));
+    expect(lockdowns.map(([, params]) => params.executionContextId)).toEqual([1, 2]);
+
+    session.send.mockClear();
+    session.emit('Page.frameNavigated', { frame: { id: 'ad' } });
+    await runReadOnlyScript(page, 'return 1;', [], LIMITS);
+    expect(lockedFrames()).toEqual(['ad', 'remote']);
+  });
+});
+
+describe('Read-only lockdown of frames', () => {
+  test('blocks changes through the objects of a same-origin frame', () => {
+    const outer = document.createElement('iframe');
+    document.body.appendChild(outer);
+    const win = outer.contentWindow;
+    win.document.body.innerHTML = '<h1>Title</h1><iframe></iframe>';
+    const inner = win.frames[0];
+    // runReadOnlyScript locks down every frame of the page
+    for (const frame of [win, inner]) {
+      frame.eval(`(${lockDownDom})()`);
+      frame.close = () => undefined;
+    }
+
+    expect(() => win.eval('frames[0].Element.prototype.remove.call(document.querySelector("h1"))')).toThrow('Element.remove() is not allowed');
+    expect(() => win.eval('document.querySelector("iframe").contentDocument.body.innerHTML = "<p>changed</p>"')).toThrow('Setting Element.innerHTML is not allowed');
+    expect(() => win.eval('Object.getOwnPropertyDescriptor(frames[0].Node.prototype, "textContent").set.call(document.querySelector("h1"), "changed")'))
+      .toThrow('Setting Node.textContent is not allowed');
+    expect(win.document.querySelector('h1').textContent).toBe('Title');
+    // Locking down twice leaves the lockdown in place
+    expect(() => win.eval(`(${lockDownDom})()`)).not.toThrow();
+  });
+});
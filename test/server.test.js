@@ -0,0 +1,342 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { BrowserController } from '../src/browserController.js';
+import { closeIdleSessions, createHttpApp, createMcpServer } from '../src/server.js';
+import { OPEN_POLICIES, mockPage, mockPool } from './mockBrowser.js';
+
+const LIMITS = { maxSessions: 2, idleTimeoutMs: 60000 };
+const SCRIPT_POLICY = { mode: 'full', maxResultBytes: 100000, maxResultDepth: 10 };
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+// Hands out fake incognito contexts instead of launching a browser
+function stubPool() {
+  const contexts = [];
+  return {
+    contexts,
+    createContext: jest.fn(async () => {
+      const context = { id: `ctx-${contexts.length + 1}`, closed: false, browser: () => ({ connected: true }), on: jest.fn() };
+      context.close = jest.fn(async () => { context.closed = true; });
+      contexts.push(context);
+      return context;
+    })
+  };
+}
+
+async function eventually(check) {
+  for (let i = 0; i < 50 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  expect(check()).toBe(true);
+}
+
+describe('HTTP sessions', () => {
+  let httpServer;
+  let connections = [];
+
+  afterEach(async () => {
+    connections.forEach(connection => connection.abort());
+    connections = [];
+    httpServer?.closeAllConnections();
+    await new Promise(resolve => httpServer ? httpServer.close(resolve) : resolve());
+    httpServer = null;
+  });
+
+  async function start(limits = LIMITS) {
+    const sessions = new Map();
+    const pool = stubPool();
+    const app = createHttpApp(sessions, pool, limits, SCRIPT_POLICY);
+    await new Promise(resolve => { httpServer = app.listen(0, '127.0.0.1', resolve); });
+    const baseUrl = `http://127.0.0.1:${httpServer.address().port}`;
+    return { sessions, pool, baseUrl };
+  }
+
+  async function initialize(baseUrl) {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(INITIALIZE)
+    });
+    await response.text();
+    return response;
+  }
+
+  async function openSse(baseUrl) {
+    const connection = new AbortController();
+    connections.push(connection);
+    return fetch(`${baseUrl}/sse`, { signal: connection.signal });
+  }
+
+  test('opens a Streamable HTTP session per initialize request', async () => {
+    const { sessions, baseUrl } = await start();
+    const first = await initialize(baseUrl);
+    const second = await initialize(baseUrl);
+
+    expect(first.status).toBe(200);
+    const ids = [first.headers.get('mcp-session-id'), second.headers.get('mcp-session-id')];
+    expect(ids[0]).toBeTruthy();
+    expect(ids[0]).not.toBe(ids[1]);
+    expect([...sessions.keys()].sort()).toEqual([...ids].sort());
+  });
+
+  test('rejects requests for unknown sessions', async () => {
+    const { baseUrl } = await start();
+    const post = await fetch(`${baseUrl}/messages?sessionId=missing`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(post.status).toBe(404);
+    expect((await post.json()).error.message).toBe('Unknown session: missing');
+
+    const get = await fetch(`${baseUrl}/mcp`, { headers: { 'mcp-session-id': 'missing' } });
+    expect(get.status).toBe(404);
+    const remove = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'mcp-session-id': 'missing' } });
+    expect(remove.status).toBe(404);
+
+    const withoutSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    });
+    expect(withoutSession.status).toBe(400);
+  });
+
+  test('rejects new sessions at the session limit and accepts them again after one closes', async () => {
+    const { sessions, baseUrl } = await start({ ...LIMITS, maxSessions: 1 });
+    const sse = await openSse(baseUrl);
+    expect(sse.status).toBe(200);
+    await eventually(() => sessions.size === 1);
+
+    expect((await openSse(baseUrl)).status).toBe(503);
+    const rejected = await initialize(baseUrl);
+    expect(rejected.status).toBe(503);
+
+    // Disconnecting the SSE client ends its session
+    connections[0].abort();
+    await eventually(() => sessions.size === 0);
+    expect((await initialize(baseUrl)).status).toBe(200);
+  });
+
+  test('counts sessions that are still opening against the session limit', async () => {
+    const { sessions, baseUrl } = await start({ ...LIMITS, maxSessions: 1 });
+    // Keep every request between the limit check and the registration of its session for a while
+    const handleRequest = StreamableHTTPServerTransport.prototype.handleRequest;
+    const delayed = jest.spyOn(StreamableHTTPServerTransport.prototype, 'handleRequest').mockImplementation(async function (...args) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return handleRequest.apply(this, args);
+    });
+
+    try {
+      const responses = await Promise.all([initialize(baseUrl), initialize(baseUrl), initialize(baseUrl)]);
+      expect(responses.map(response => response.status).sort()).toEqual([200, 503, 503]);
+      expect(sessions.size).toBe(1);
+    } finally {
+      delayed.mockRestore();
+    }
+  });
+
+  test('frees the slot of a session that failed to initialize', async () => {
+    const { sessions, baseUrl } = await start({ ...LIMITS, maxSessions: 1 });
+    const invalid = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'text/plain' },
+      body: JSON.stringify(INITIALIZE)
+    });
+    expect(invalid.status).toBe(406);
+    expect(sessions.size).toBe(0);
+
+    expect((await initialize(baseUrl)).status).toBe(200);
+  });
+
+  test('gives every session its own browser context and closes it with the session', async () => {
+    const { sessions, pool, baseUrl } = await start();
+    await initialize(baseUrl);
+    await initialize(baseUrl);
+
+    const [first, second] = [...sessions.values()];
+    expect(await first.browserController.getContext()).toBe(pool.contexts[0]);
+    expect(await second.browserController.getContext()).toBe(pool.contexts[1]);
+    expect(await first.browserController.getContext()).toBe(pool.contexts[0]);
+
+    const [firstId] = sessions.keys();
+    const closed = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'mcp-session-id': firstId } });
+    expect(closed.status).toBe(200);
+    await eventually(() => pool.contexts[0].close.mock.calls.length === 1);
+    expect(sessions.has(firstId)).toBe(false);
+    expect(pool.contexts[1].close).not.toHaveBeenCalled();
+  });
+
+  test('closes sessions that have been idle for longer than the timeout', async () => {
+    const { sessions, pool, baseUrl } = await start();
+    await initialize(baseUrl);
+    await initialize(baseUrl);
+    const [idle, active] = [...sessions.entries()];
+    await idle[1].browserController.getContext();
+    idle[1].lastActivity -= 2 * LIMITS.idleTimeoutMs;
+
+    closeIdleSessions(sessions, LIMITS.idleTimeoutMs);
+    await eventually(() => !sessions.has(idle[0]));
+    expect(sessions.has(active[0])).toBe(true);
+    await eventually(() => pool.contexts[0].close.mock.calls.length === 1);
+  });
+});
+
+// Page on which #missing never appears and only #welcome exists
+function toolPage() {
+  const page = mockPage({
+    goto: jest.fn(async url => {
+      page.currentUrl = url;
+      return { status: () => 200 };
+    }),
+    waitForSelector: jest.fn(async selector => {
+      if (selector === '#missing') throw new Error('Waiting for selector `#missing` failed');
+      return { click: jest.fn(async () => undefined) };
+    }),
+    $: jest.fn(async selector => selector === '#welcome' ? { dispose: async () => undefined } : null),
+    evaluate: jest.fn(async () => 'Welcome back, Ada')
+  });
+  return page;
+}
+
+// MCP client connected to a server whose controller hands out tool pages
+async function connect() {
+  const pool = mockPool(toolPage);
+  const controller = new BrowserController({ pool, ...OPEN_POLICIES });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer(controller).connect(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  const call = async (name, args) => {
+    const result = await client.callTool({ name, arguments: args });
+    const text = result.content[0].text;
+    return result.isError ? { error: text.startsWith('{') ? JSON.parse(text) : text } : JSON.parse(text);
+  };
+  return { controller, pages: pool.pages, call };
+}
+
+describe('Blocked navigations', () => {
+  test('fail only the tool call on the tab whose navigation was blocked', async () => {
+    const { controller, pages, call } = await connect();
+    await controller.newTab();
+    await controller.newTab();
+
+    // The second tab's page redirects to a blocked host while the first tab navigates
+    let finishRedirect;
+    pages[1].goto = jest.fn(async () => {
+      controller.domainGuard.block(pages[1], { url: 'https://evil.test/', reason: 'evil.test is not in the allowlist' });
+      await new Promise(resolve => { finishRedirect = resolve; });
+      return null;
+    });
+    const redirected = call('browser/navigate', { url: 'https://example.com/redirect', tab_id: 'tab-2' });
+    await eventually(() => finishRedirect !== undefined);
+
+    const navigated = await call('browser/navigate', { url: 'https://example.com/', tab_id: 'tab-1' });
+    expect(navigated.message).toBe('Navigated to https://example.com/');
+    finishRedirect();
+    expect((await redirected).error).toMatchObject({ error: 'navigation_blocked', url: 'https://evil.test/' });
+  });
+});
+
+describe('browser/batch', () => {
+  async function connectBatch() {
+    const { controller, pages, call } = await connect();
+    return { controller, pages, batch: args => call('browser/batch', args) };
+  }
+
+  const navigate = url => ({ tool: 'browser/navigate', params: { url } });
+  const clickMissing = { tool: 'browser/click', params: { selector: '#missing', timeout: 10 } };
+
+  test('stops at the first failing step by default', async () => {
+    const { pages, batch } = await connectBatch();
+    const result = await batch({ steps: [navigate('https://example.com/a'), clickMissing, navigate('https://example.com/b')] });
+
+    expect(result.steps.map(step => step.status)).toEqual(['success', 'error', 'skipped']);
+    expect(result.steps[1].error).toMatch('#missing');
+    expect(result).toMatchObject({ succeeded: 1, failed: 1, skipped: 1 });
+    expect(result.message).toMatch(/^Step 2 \(browser\/click\) failed: .*; 1 of 3 step\(s\) succeeded/);
+    expect(pages[0].goto).toHaveBeenCalledTimes(1);
+  });
+
+  test('runs the remaining steps with on_error continue', async () => {
+    const { pages, batch } = await connectBatch();
+    const result = await batch({ on_error: 'continue', steps: [navigate('https://example.com/a'), clickMissing, navigate('https://example.com/b')] });
+
+    expect(result.steps.map(step => step.status)).toEqual(['success', 'error', 'success']);
+    expect(result).toMatchObject({ succeeded: 2, failed: 1, skipped: 0 });
+    expect(pages[0].url()).toBe('https://example.com/b');
+    expect(result.steps.every(step => typeof step.duration_ms === 'number')).toBe(true);
+  });
+
+  test('keeps the details of a blocked navigation in the step result', async () => {
+    const { controller, pages, batch } = await connectBatch();
+    await controller.newTab();
+    pages[0].goto = jest.fn(async () => {
+      controller.domainGuard.block(pages[0], { url: 'https://evil.test/', reason: 'evil.test is not in the allowlist' });
+      return null;
+    });
+
+    const result = await batch({ steps: [navigate('https://example.com/redirect'), navigate('https://example.com/')] });
+    expect(result.steps.map(step => step.status)).toEqual(['error', 'skipped']);
+    expect(result.steps[0]).toMatchObject({
+      error: 'Navigation to https://evil.test/ blocked: evil.test is not in the allowlist',
+      error_code: 'navigation_blocked',
+      blocked_navigation: { url: 'https://evil.test/', reason: 'evil.test is not in the allowlist', tab_id: 'tab-1' }
+    });
+  });
+
+  test('checks assertions after a step', async () => {
+    const { batch } = await connectBatch();
+    const result = await batch({
+      steps: [
+        { ...navigate('https://example.com/login'), assert: { selector: '#welcome', text_contains: 'Welcome back' } },
+        { ...navigate('https://example.com/account'), assert: { selector: '#logout', text_contains: 'Goodbye' } },
+        navigate('https://example.com/settings')
+      ]
+    });
+
+    expect(result.steps.map(step => step.status)).toEqual(['success', 'assertion_failed', 'skipped']);
+    expect(result.steps[1].assertion_failures).toEqual(['No element matches #logout', 'Page text does not contain "Goodbye"']);
+    expect(result.failed).toBe(1);
+  });
+
+  test('rejects nested batches and unknown tools before running anything', async () => {
+    const { pages, batch } = await connectBatch();
+    const nested = await batch({ steps: [navigate('https://example.com/'), { tool: 'browser/batch', params: { steps: [] } }] });
+    expect(nested.error).toBe('Batch failed: Step 2: batches cannot be nested');
+
+    const unknown = await batch({ steps: [navigate('https://example.com/'), { tool: 'browser/teleport' }] });
+    expect(unknown.error).toBe('Batch failed: Step 2: unknown tool "browser/teleport"');
+    expect(pages).toHaveLength(0);
+  });
+
+  test('keeps every step on the tab the batch started on', async () => {
+    const { controller, pages, batch } = await connectBatch();
+    await controller.newTab();
+    await controller.newTab();
+
+    const result = await batch({
+      tab_id: 'tab-1',
+      steps: [navigate('https://example.com/a'), { tool: 'browser/new_tab' }, navigate('https://example.com/b')]
+    });
+    expect(result.steps.map(step => step.status)).toEqual(['success', 'success', 'success']);
+    expect(result.steps[1].result.tab_id).toBe('tab-3');
+    // The new tab became the active one, but the last step still ran on tab-1
+    expect(controller.getTab().id).toBe('tab-3');
+    expect(pages[0].goto.mock.calls.map(([url]) => url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(pages[1].goto).not.toHaveBeenCalled();
+    expect(pages[2].goto).not.toHaveBeenCalled();
+
+    // Without tab_id the batch stays on the tab that was active when it started
+    await batch({ steps: [{ tool: 'browser/new_tab' }, navigate('https://example.com/c')] });
+    expect(pages[2].goto.mock.calls.map(([url]) => url)).toEqual(['https://example.com/c']);
+    expect(pages[3].goto).not.toHaveBeenCalled();
+  });
+});
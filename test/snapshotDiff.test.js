@@ -0,0 +1,66 @@
+import { describe, test, expect } from '@jest/globals';
+import { diffAccessibilityTrees, formatDiff, isEmptyDiff } from '../src/utils/snapshotDiff.js';
+import { formatAsYaml } from '../src/utils/accessibilitySnapshot.js';
+
+describe('Snapshot Diff', () => {
+  const previous = {
+    role: 'RootWebArea',
+    name: 'Shop',
+    ref: 's1e1',
+    children: [
+      { role: 'heading', name: 'Cart', level: 1, ref: 's1e2' },
+      { role: 'textbox', name: 'Coupon', ref: 's1e3' },
+      { role: 'list', ref: 's1e4', children: [
+        { role: 'listitem', name: 'Apple', ref: 's1e5' }
+      ]}
+    ]
+  };
+
+  test('reports no changes for identical trees', () => {
+    const diff = diffAccessibilityTrees(previous, structuredClone(previous));
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatDiff(diff, formatAsYaml)).toBe('# 0 added, 0 removed, 0 changed since the previous snapshot');
+  });
+
+  test('detects added, removed and changed nodes', () => {
+    const current = {
+      role: 'RootWebArea',
+      name: 'Shop',
+      ref: 's1e1',
+      children: [
+        { role: 'heading', name: 'Cart', level: 1, ref: 's1e2' },
+        { role: 'textbox', name: 'Coupon', value: 'SAVE10', ref: 's1e3' },
+        { role: 'alert', name: 'Coupon applied', ref: 's1e6', children: [
+          { role: 'StaticText', name: 'Coupon applied', ref: 's1e7' }
+        ]}
+      ]
+    };
+
+    const diff = diffAccessibilityTrees(previous, current);
+    expect(diff.added.map(node => node.ref)).toEqual(['s1e6']);
+    expect(diff.removed.map(node => node.ref)).toEqual(['s1e4']);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].node.ref).toBe('s1e3');
+    expect(diff.changed[0].changes).toEqual({ value: { from: undefined, to: 'SAVE10' } });
+  });
+
+  test('detects nodes that moved to another parent', () => {
+    const current = structuredClone(previous);
+    const item = current.children[2].children.pop();
+    current.children.push(item);
+
+    const diff = diffAccessibilityTrees(previous, current);
+    expect(diff.changed).toEqual([{ node: item, changes: { parent: { from: 's1e4', to: 's1e1' } } }]);
+  });
+
+  test('formats changes with refs', () => {
+    const current = structuredClone(previous);
+    current.children[1].value = 'abc';
+    current.children.splice(2, 1);
+
+    const text = formatDiff(diffAccessibilityTrees(previous, current), formatAsYaml);
+    expect(text).toContain('# 0 added, 1 removed, 1 changed since the previous snapshot');
+    expect(text).toContain('removed:\n  - list [ref=s1e4]');
+    expect(text).toContain('changed:\n  - textbox "Coupon" [value="abc"] [ref=s1e3] # value: none -> "abc"');
+  });
+});
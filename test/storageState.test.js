@@ -0,0 +1,18 @@
+import { describe, test, expect } from '@jest/globals';
+import { validateStorageState } from '../src/utils/storageState.js';
+
+describe('Storage State', () => {
+  test('accepts saved and Playwright storage state files', () => {
+    expect(() => validateStorageState({ cookies: [], origins: [] })).not.toThrow();
+    expect(() => validateStorageState({
+      cookies: [{ name: 'sid', value: 'abc', domain: '.example.com', path: '/', httpOnly: true, secure: true, sameSite: 'Lax' }],
+      origins: [{ origin: 'https://app.example.com', localStorage: [{ name: 'token', value: 'xyz' }] }]
+    })).not.toThrow();
+  });
+
+  test('rejects malformed state', () => {
+    expect(() => validateStorageState(null)).toThrow('Invalid storage state');
+    expect(() => validateStorageState({ cookies: [] })).toThrow('"cookies" and "origins"');
+    expect(() => validateStorageState({ cookies: [], origins: [{ origin: 'https://app.example.com' }] })).toThrow('"localStorage" array');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, test, expect } from '@jest/globals';
+import { extractStructured, validateExtractionSpec, validateJson } from '../src/utils/structuredExtraction.js';
+
+describe('Structured Extraction', () => {
+  test('extracts typed fields from each matching element', () => {
+    document.body.innerHTML = `
+      <div class="product"><a href="/p/1"><h2> Widget </h2></a><span class="price">$1,299.50</span><span class="tag">new</span><span class="tag">sale</span></div>
+      <div class="product"><a href="/p/2"><h2>Gadget</h2></a><span class="price">9,99 €</span><button disabled="">Buy</button></div>`;
+
+    const data = extractStructured({
+      selector: '.product',
+      list: true,
+      fields: {
+        name: 'h2',
+        price: { selector: '.price', type: 'number' },
+        url: 'a@href',
+        tags: { selector: '.tag', list: true, transforms: ['uppercase'] },
+        sold_out: { selector: 'button@disabled', type: 'boolean' },
+        sku: { selector: '.sku', default: 'unknown' }
+      }
+    });
+
+    expect(data).toEqual([
+      { name: 'Widget', price: 1299.5, url: 'http://localhost/p/1', tags: ['NEW', 'SALE'], sold_out: false, sku: 'unknown' },
+      { name: 'Gadget', price: 9.99, url: 'http://localhost/p/2', tags: [], sold_out: true, sku: 'unknown' }
+    ]);
+  });
+
+  test('applies regex and replace transforms', () => {
+    document.body.innerHTML = '<p id="count">Showing 25 of 1.024 results</p>';
+    expect(extractStructured({
+      fields: {
+        total: { selector: '#count', transforms: [{ regex: 'of ([\\d.]+)' }, { replace: '\\.', with: '' }], type: 'integer' }
+      }
+    })).toEqual({ total: 1024 });
+  });
+
+  test('rejects malformed specs', () => {
+    expect(() => validateExtractionSpec({ fields: { price: { selector: '.price', type: 'money' } } })).toThrow('Invalid extraction spec');
+    expect(() => validateExtractionSpec({ selector: '.product', list: true, fields: { name: 'h2' } })).not.toThrow();
+  });
+
+  test('validates data against a JSON Schema', () => {
+    const schema = { type: 'object', properties: { price: { type: 'number' } }, required: ['price'] };
+    expect(validateJson({ price: 5 }, schema)).toEqual([]);
+    expect(validateJson({ price: null }, schema)).toEqual([{ path: '/price', message: 'must be number' }]);
+  });
+});
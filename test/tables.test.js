@@ -0,0 +1,44 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, test, expect } from '@jest/globals';
+import { extractTables, toCsv } from '../src/utils/tables.js';
+
+describe('Table Extraction', () => {
+  test('expands row and column spans under detected headers', () => {
+    document.body.innerHTML = `
+      <table>
+        <caption>Plans</caption>
+        <thead>
+          <tr><th rowspan="2">Plan</th><th colspan="2">Price</th></tr>
+          <tr><th>Monthly</th><th>Yearly</th></tr>
+        </thead>
+        <tbody>
+          <tr><td>Basic</td><td>$5</td><td rowspan="2">Contact us</td></tr>
+          <tr><td>Pro</td><td>$15</td></tr>
+        </tbody>
+      </table>`;
+    const [table] = extractTables(null);
+    expect(table.caption).toBe('Plans');
+    expect(table.headers).toEqual(['Plan', 'Price / Monthly', 'Price / Yearly']);
+    expect(table.rows).toEqual([
+      { Plan: 'Basic', 'Price / Monthly': '$5', 'Price / Yearly': 'Contact us' },
+      { Plan: 'Pro', 'Price / Monthly': '$15', 'Price / Yearly': 'Contact us' }
+    ]);
+  });
+
+  test('names columns without headers and picks tables inside an element', () => {
+    document.body.innerHTML = `
+      <table><tr><td>ignored</td></tr></table>
+      <div id="data"><table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr></table></div>`;
+    const tables = extractTables(document.querySelector('#data'));
+    expect(tables).toHaveLength(1);
+    expect(tables[0].headers).toEqual(['column_1', 'column_2']);
+    expect(tables[0].row_count).toBe(2);
+  });
+
+  test('formats tables as CSV', () => {
+    const csv = toCsv({ headers: ['Name', 'Note'], rows: [{ Name: 'a, b', Note: 'say "hi"' }] });
+    expect(csv).toBe('Name,Note\r\n"a, b","say ""hi"""');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, test, expect } from '@jest/globals';
+import { PNG } from 'pngjs';
+import path from 'path';
+import { compareImages, resolveBaselineDir } from '../src/utils/visualDiff.js';
+
+function solidPng(width, height, color, patch) {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inPatch = patch && x >= patch.x && x < patch.x + patch.width && y >= patch.y && y < patch.y + patch.height;
+      png.data.set(inPatch ? patch.color : color, (y * width + x) * 4);
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+const WHITE = [255, 255, 255, 255];
+const BLACK = [0, 0, 0, 255];
+
+describe('Visual Diff', () => {
+  test('reports no difference for identical images', () => {
+    const image = solidPng(10, 10, WHITE);
+    const result = compareImages(image, image);
+    expect(result).toMatchObject({ diffPixels: 0, totalPixels: 100, mismatchPercentage: 0, sizeChanged: false });
+    expect(PNG.sync.read(result.diff).width).toBe(10);
+  });
+
+  test('counts changed pixels and ignores regions', () => {
+    const baseline = solidPng(10, 10, WHITE);
+    const actual = solidPng(10, 10, WHITE, { x: 0, y: 0, width: 5, height: 2, color: BLACK });
+    expect(compareImages(actual, baseline)).toMatchObject({ diffPixels: 10, mismatchPercentage: 10 });
+    expect(compareImages(actual, baseline, { ignoreRegions: [{ x: 0, y: 0, width: 5, height: 1 }] }).diffPixels).toBe(5);
+  });
+
+  test('compares images of different sizes on the larger canvas', () => {
+    const result = compareImages(solidPng(10, 12, WHITE), solidPng(10, 10, WHITE));
+    expect(result).toMatchObject({ width: 10, height: 12, sizeChanged: true, diffPixels: 20 });
+  });
+
+  test('keeps baseline directories below the root', () => {
+    const root = path.resolve('baselines');
+    expect(resolveBaselineDir('baselines')).toBe(root);
+    expect(resolveBaselineDir('baselines', 'checkout/mobile')).toBe(path.join(root, 'checkout', 'mobile'));
+    expect(resolveBaselineDir('baselines', 'a/../b')).toBe(path.join(root, 'b'));
+    expect(() => resolveBaselineDir('baselines', '../outside')).toThrow('Invalid baseline_dir "../outside"');
+    expect(() => resolveBaselineDir('baselines', '/etc/cron.d')).toThrow('Invalid baseline_dir');
+  });
+});